@@ -1,20 +1,47 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { GameState, LeaderboardEntry, ThemeConfig, ThemeId, Character } from './types';
 import { THEMES, LEVEL_SCORE_THRESHOLD, CHARACTERS, convertCommunityAvatarToCharacter } from './constants';
-import { fetchCommunityAvatars } from './lib/supabase';
+import { avatarStore } from './lib/stores';
+import { startOutbox } from './lib/submissionOutbox';
+import {
+  getLocalScores,
+  addLocalScore,
+  getBestReplay,
+  saveBestReplay,
+  getLifetimePoints,
+  addLifetimePoints,
+  getEliminationWins,
+  recordEliminationWin,
+  getCustomTracks,
+  getDriftSetup,
+  getDriftChampionship
+} from './lib/saveProfile';
+import { randomSeed } from './lib/rng';
+import { RacingReplay } from './lib/replay';
+import { DailyChallenge, getDailyChallenge } from './lib/dailyChallenge';
 import GameCanvas from './components/GameCanvas';
 import MainMenu from './components/MainMenu';
 import GameOver from './components/GameOver';
 import Leaderboard from './components/Leaderboard';
 import AIEliminationGame from './components/AIEliminationGame';
 import GameModeSelection from './components/GameModeSelection';
+import TrackSelection from './components/TrackSelection';
+import DriftAttackGame from './components/DriftAttackGame';
+import TrackEditor from './components/TrackEditor';
+import DriftTuning from './components/DriftTuning';
+import DriftStandings from './components/DriftStandings';
+import { Track } from './lib/tracks';
+import { DriftOpponentSettings, DEFAULT_OPPONENTS } from './lib/driftAI';
+import { CarSetup, DEFAULT_SETUP } from './lib/driftCar';
+import { DriftChampionship } from './lib/driftChampionship';
 
 const App: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>(GameState.MODE_SELECTION);
   const [score, setScore] = useState(0);
   const [finalTime, setFinalTime] = useState(0);
   const [level, setLevel] = useState(1);
+  const [runSeed, setRunSeed] = useState(() => randomSeed()); // Seed of the current/last racing run
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
   const [currentThemeId, setCurrentThemeId] = useState<ThemeId>('midnight');
   const [selectedCharacterId, setSelectedCharacterId] = useState<string>('player1');
@@ -23,11 +50,24 @@ const App: React.FC = () => {
   const [eliminationWins, setEliminationWins] = useState(0); // Wins in AI Elimination mode
   const [communityAvatars, setCommunityAvatars] = useState<Character[]>([]); // User-uploaded community avatars
   const [allCharacters, setAllCharacters] = useState<Character[]>(CHARACTERS); // Default + community merged
+  const [lastReplay, setLastReplay] = useState<RacingReplay | null>(null); // Recording of the most recent run
+  const [bestReplay, setBestReplay] = useState<RacingReplay | null>(null); // Highest scoring recorded run
+  const [activeReplay, setActiveReplay] = useState<RacingReplay | null>(null); // Replay being watched
+  const [dailyChallenge, setDailyChallenge] = useState<DailyChallenge | null>(null); // Set while running today's challenge
+  const [leaderboardDate, setLeaderboardDate] = useState<string | null>(null); // Daily board to show, null for the racing board
+  const [selectedTrack, setSelectedTrack] = useState<Track | null>(null); // Drift Attack circuit being raced
+  const [driftRunId, setDriftRunId] = useState(0); // Bumped to remount DriftAttackGame for a fresh race
+  const [customTracks, setCustomTracks] = useState<Track[]>([]); // Saved from the track editor
+  const [editorTrack, setEditorTrack] = useState<Track | null>(null); // Track open in the editor, kept across test drives
+  const [isTestDrive, setIsTestDrive] = useState(false); // Drift race started from the editor
+  const [driftOpponents, setDriftOpponents] = useState<DriftOpponentSettings>(DEFAULT_OPPONENTS); // CPU cars in Drift Attack
+  const [driftSetup, setDriftSetup] = useState<CarSetup>(DEFAULT_SETUP); // Car class and tuning for the drift race
+  const [championshipRace, setChampionshipRace] = useState<DriftChampionship | null>(null); // Set while racing a championship round
 
   // Load community avatars and merge with defaults
   const loadCommunityAvatars = useCallback(async () => {
     try {
-      const dbRecords = await fetchCommunityAvatars();
+      const dbRecords = await avatarStore.fetchCommunityAvatars();
       const communityChars = dbRecords.map(convertCommunityAvatarToCharacter);
       setCommunityAvatars(communityChars);
       // Merge: default characters first, then community avatars
@@ -39,71 +79,81 @@ const App: React.FC = () => {
     }
   }, []);
 
-  // Load Data
-  useEffect(() => {
-    const storedScores = localStorage.getItem('neon_runner_scores');
-    if (storedScores) {
-      try {
-        const parsed = JSON.parse(storedScores);
-        setLeaderboard(parsed);
-        // Calculate high score from stored data
-        if (parsed.length > 0) {
-          const max = Math.max(...parsed.map((e: LeaderboardEntry) => e.score));
-          setHighScore(max);
-        }
-      } catch (e) {
-        console.error("Failed to parse leaderboard", e);
-      }
-    } else {
-      const defaults: LeaderboardEntry[] = [
-        { name: 'CPU', score: 15000, date: new Date().toISOString(), rankTitle: 'The Architect', aiComment: 'I literally designed this game.' },
-        { name: 'BOT', score: 8000, date: new Date().toISOString(), rankTitle: 'Speed Demon', aiComment: 'Beep boop, too fast for you.' },
-      ];
-      setLeaderboard(defaults);
-      localStorage.setItem('neon_runner_scores', JSON.stringify(defaults));
-      setHighScore(15000);
-    }
+  // Retry leaderboard submissions that failed in earlier sessions
+  useEffect(() => startOutbox(), []);
 
-    // Load lifetime points
-    const storedLifetimePoints = localStorage.getItem('neon_runner_lifetime_points');
-    if (storedLifetimePoints) {
-      try {
-        const parsed = parseInt(storedLifetimePoints, 10);
-        setLifetimePoints(parsed);
-      } catch (e) {
-        console.error("Failed to parse lifetime points", e);
-      }
-    }
+  // Mirror the save profile into state (migrates older saves on first load)
+  const loadSaveProfile = useCallback(() => {
+    const scores = getLocalScores();
+    setLeaderboard(scores);
+    setHighScore(scores.length > 0 ? Math.max(...scores.map(e => e.score)) : 0);
+    setLifetimePoints(getLifetimePoints());
+    setEliminationWins(getEliminationWins());
+    setBestReplay(getBestReplay());
+    setCustomTracks(getCustomTracks());
+  }, []);
 
-    // Load elimination wins
-    const storedEliminationWins = localStorage.getItem('neon_runner_elimination_wins');
-    if (storedEliminationWins) {
-      try {
-        const parsed = parseInt(storedEliminationWins, 10);
-        setEliminationWins(parsed);
-      } catch (e) {
-        console.error("Failed to parse elimination wins", e);
-      }
-    }
+  // Load Data
+  useEffect(() => {
+    loadSaveProfile();
 
     // Load community avatars
     loadCommunityAvatars();
-  }, [loadCommunityAvatars]);
+  }, [loadSaveProfile, loadCommunityAvatars]);
 
-  const startGame = () => {
+  const startGame = (seed: number = randomSeed()) => {
     setScore(0);
+    setRunSeed(seed);
+    setDailyChallenge(null);
     setGameState(GameState.PLAYING);
   };
 
+  const startDailyChallenge = () => {
+    const challenge = getDailyChallenge();
+    setScore(0);
+    setRunSeed(challenge.seed);
+    setDailyChallenge(challenge);
+    setGameState(GameState.PLAYING);
+  };
+
+  // Delayed screen changes. Leaving the screen first, or unmounting, cancels them.
+  const transitionTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  const scheduleTransition = useCallback((transition: () => void, delay: number) => {
+    clearTimeout(transitionTimeoutRef.current);
+    transitionTimeoutRef.current = setTimeout(transition, delay);
+  }, []);
+  useEffect(() => () => clearTimeout(transitionTimeoutRef.current), [gameState]);
+
+  const showLeaderboard = (challengeDate: string | null = null) => {
+    setLeaderboardDate(challengeDate);
+    setGameState(GameState.LEADERBOARD);
+  };
+
   // MEMOIZED CALLBACKS TO PREVENT GAME RESET
-  const handleGameOver = useCallback((finalScore: number, time: number) => {
+  const handleGameOver = useCallback((finalScore: number, time: number, replay: RacingReplay) => {
     setScore(finalScore);
     setFinalTime(time);
+    setLastReplay(replay);
     setGameState(GameState.GAME_OVER);
     if (finalScore > highScore) {
       setHighScore(finalScore);
     }
-  }, [highScore]);
+    if (!bestReplay || finalScore > bestReplay.score) {
+      setBestReplay(replay);
+      saveBestReplay(replay);
+    }
+  }, [highScore, bestReplay]);
+
+  const watchReplay = (replay: RacingReplay) => {
+    setActiveReplay(replay);
+    setScore(0);
+    setGameState(GameState.REPLAY);
+  };
+
+  // Linger on the crash for a moment before heading back to the menu
+  const handleReplayEnd = useCallback(() => {
+    scheduleTransition(() => setGameState(GameState.MENU), 1500);
+  }, [scheduleTransition]);
 
   const handleScoreUpdate = useCallback((newScore: number) => {
     setScore(newScore);
@@ -114,16 +164,17 @@ const App: React.FC = () => {
   }, []);
 
   const handleLifetimePointsUpdate = useCallback((gameScore: number) => {
-    const newTotal = lifetimePoints + gameScore;
-    setLifetimePoints(newTotal);
-    localStorage.setItem('neon_runner_lifetime_points', newTotal.toString());
-  }, [lifetimePoints]);
+    setLifetimePoints(addLifetimePoints(gameScore));
+  }, []);
 
   const submitScore = (entry: LeaderboardEntry) => {
-    const newLeaderboard = [...leaderboard, entry].sort((a, b) => b.score - a.score);
-    setLeaderboard(newLeaderboard);
-    localStorage.setItem('neon_runner_scores', JSON.stringify(newLeaderboard));
-    setTimeout(() => setGameState(GameState.LEADERBOARD), 500);
+    // Daily Challenge runs only go to that day's global board
+    if (dailyChallenge) {
+      scheduleTransition(() => showLeaderboard(dailyChallenge.date), 500);
+      return;
+    }
+    setLeaderboard(addLocalScore(entry));
+    scheduleTransition(() => showLeaderboard(), 500);
   };
 
   const startElimination = () => {
@@ -131,13 +182,49 @@ const App: React.FC = () => {
   };
 
   const handleEliminationWin = () => {
-    const newWins = eliminationWins + 1;
-    setEliminationWins(newWins);
-    localStorage.setItem('neon_runner_elimination_wins', newWins.toString());
+    setEliminationWins(recordEliminationWin());
+  };
+
+  // Races pick up the setup last used on the track unless the garage passes a new one
+  const startDriftRace = (track: Track, testDrive = false, setup = getDriftSetup(track.id)) => {
+    setSelectedTrack(track);
+    setIsTestDrive(testDrive);
+    setDriftSetup(setup);
+    setDriftRunId(id => id + 1);
+    setGameState(GameState.DRIFT_ATTACK);
+  };
+
+  const openGarage = (track: Track) => {
+    setSelectedTrack(track);
+    setChampionshipRace(null);
+    setGameState(GameState.DRIFT_TUNING);
   };
 
-  const currentTheme = THEMES[currentThemeId];
-  const selectedCharacter = allCharacters.find(c => c.id === selectedCharacterId) || allCharacters[0];
+  // Championship rounds go through the garage like any race, then report back to the standings
+  const raceChampionshipRound = (track: Track) => {
+    setSelectedTrack(track);
+    setChampionshipRace(getDriftChampionship());
+    setGameState(GameState.DRIFT_TUNING);
+  };
+
+  const openTrackEditor = () => {
+    setEditorTrack(null);
+    setGameState(GameState.TRACK_EDITOR);
+  };
+
+  const testDriveTrack = (track: Track) => {
+    setEditorTrack(track);
+    setChampionshipRace(null);
+    startDriftRace(track, true);
+  };
+
+  // Replays and Daily Challenge runs use a fixed theme and driver
+  const isReplaying = gameState === GameState.REPLAY && activeReplay !== null;
+  const isDailyRun = dailyChallenge !== null && (gameState === GameState.PLAYING || gameState === GameState.GAME_OVER);
+  const runOverride = isReplaying ? activeReplay : isDailyRun ? dailyChallenge : null;
+  const currentTheme = THEMES[runOverride?.themeId ?? currentThemeId];
+  const driverId = runOverride?.characterId ?? selectedCharacterId;
+  const selectedCharacter = allCharacters.find(c => c.id === driverId) || allCharacters[0];
 
   // Calculate progress to next level
   const scoreInCurrentLevel = score - ((level - 1) * LEVEL_SCORE_THRESHOLD);
@@ -148,7 +235,7 @@ const App: React.FC = () => {
       style={{ backgroundColor: currentTheme.colors.backgroundTop }}
     >
       {/* HUD Overlay (Only show during game) */}
-      {gameState === GameState.PLAYING && (
+      {(gameState === GameState.PLAYING || isReplaying) && (
         <div className="absolute top-0 left-0 w-full p-4 z-10 flex justify-between pointer-events-none max-w-2xl left-1/2 -translate-x-1/2">
           <div className="text-left">
             <p className={`text-xs font-bold tracking-widest ${currentTheme.colors.text}`}>SCORE</p>
@@ -178,23 +265,43 @@ const App: React.FC = () => {
         gameState={gameState}
         theme={currentTheme}
         character={selectedCharacter}
+        seed={runSeed}
+        replay={activeReplay}
         onGameOver={handleGameOver}
         onScoreUpdate={handleScoreUpdate}
         onLevelUpdate={handleLevelUpdate}
         onLifetimePointsUpdate={handleLifetimePointsUpdate}
+        onReplayEnd={handleReplayEnd}
       />
 
+      {isReplaying && (
+        <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-10 flex items-center gap-3">
+          <div className="px-4 py-2 rounded-full bg-red-600/80 text-white text-xs font-bold tracking-widest animate-pulse">
+            ● REPLAY • {activeReplay.score.toLocaleString()} PTS
+          </div>
+          <button
+            onClick={() => setGameState(GameState.MENU)}
+            className="px-4 py-2 rounded-full bg-slate-900/80 border border-white/20 text-white/80 hover:text-white text-xs font-bold tracking-widest"
+          >
+            EXIT REPLAY
+          </button>
+        </div>
+      )}
+
       {gameState === GameState.MODE_SELECTION && (
         <GameModeSelection
           onSelectRacing={() => setGameState(GameState.MENU)}
           onSelectElimination={startElimination}
+          onSelectDriftAttack={() => setGameState(GameState.TRACK_SELECTION)}
         />
       )}
 
       {gameState === GameState.MENU && (
         <MainMenu
-          onStart={startGame}
-          onShowLeaderboard={() => setGameState(GameState.LEADERBOARD)}
+          onStart={() => startGame()}
+          onStartDailyChallenge={startDailyChallenge}
+          onShowLeaderboard={() => showLeaderboard()}
+          onShowDailyLeaderboard={(date) => showLeaderboard(date)}
           onStartElimination={startElimination}
           currentTheme={currentTheme}
           onSelectTheme={setCurrentThemeId}
@@ -204,6 +311,9 @@ const App: React.FC = () => {
           onSelectCharacter={setSelectedCharacterId}
           allCharacters={allCharacters}
           onRefreshAvatars={loadCommunityAvatars}
+          bestReplay={bestReplay}
+          onWatchReplay={watchReplay}
+          onSaveImported={loadSaveProfile}
         />
       )}
 
@@ -211,7 +321,11 @@ const App: React.FC = () => {
         <GameOver
           score={score}
           time={finalTime}
-          onRetry={startGame}
+          seed={runSeed}
+          replay={lastReplay}
+          dailyChallenge={dailyChallenge}
+          onWatchReplay={watchReplay}
+          onRetry={dailyChallenge ? startDailyChallenge : startGame}
           onMenu={() => setGameState(GameState.MODE_SELECTION)}
           onSubmitScore={submitScore}
         />
@@ -220,6 +334,7 @@ const App: React.FC = () => {
       {gameState === GameState.LEADERBOARD && (
         <Leaderboard
           scores={leaderboard}
+          challengeDate={leaderboardDate}
           onBack={() => setGameState(GameState.MODE_SELECTION)}
         />
       )}
@@ -234,6 +349,61 @@ const App: React.FC = () => {
           onRefreshAvatars={loadCommunityAvatars}
         />
       )}
+
+      {gameState === GameState.TRACK_SELECTION && (
+        <TrackSelection
+          onSelectTrack={openGarage}
+          onBack={() => setGameState(GameState.MODE_SELECTION)}
+          onOpenEditor={openTrackEditor}
+          onOpenChampionship={() => setGameState(GameState.DRIFT_CHAMPIONSHIP)}
+          lifetimePoints={lifetimePoints}
+          customTracks={customTracks}
+          opponents={driftOpponents}
+          onOpponentsChange={setDriftOpponents}
+        />
+      )}
+
+      {gameState === GameState.DRIFT_TUNING && selectedTrack && (
+        <DriftTuning
+          track={selectedTrack}
+          initialSetup={getDriftSetup(selectedTrack.id)}
+          onStart={(setup) => startDriftRace(selectedTrack, false, setup)}
+          onBack={() => setGameState(championshipRace ? GameState.DRIFT_CHAMPIONSHIP : GameState.TRACK_SELECTION)}
+        />
+      )}
+
+      {gameState === GameState.DRIFT_CHAMPIONSHIP && (
+        <DriftStandings
+          selectedCharacter={selectedCharacter}
+          opponents={driftOpponents}
+          onRaceRound={raceChampionshipRound}
+          onBack={() => setGameState(GameState.TRACK_SELECTION)}
+        />
+      )}
+
+      {gameState === GameState.DRIFT_ATTACK && selectedTrack && (
+        <DriftAttackGame
+          key={driftRunId}
+          selectedTrack={selectedTrack}
+          selectedCharacter={selectedCharacter}
+          onBack={() => setGameState(
+            isTestDrive ? GameState.TRACK_EDITOR : championshipRace ? GameState.DRIFT_CHAMPIONSHIP : GameState.TRACK_SELECTION
+          )}
+          onRestart={() => startDriftRace(selectedTrack, isTestDrive, driftSetup)}
+          opponents={championshipRace ? { count: championshipRace.rivalIds.length, skill: championshipRace.skill } : driftOpponents}
+          setup={driftSetup}
+          championship={championshipRace}
+        />
+      )}
+
+      {gameState === GameState.TRACK_EDITOR && (
+        <TrackEditor
+          initialTrack={editorTrack}
+          onTestDrive={testDriveTrack}
+          onTracksChanged={setCustomTracks}
+          onBack={() => setGameState(GameState.TRACK_SELECTION)}
+        />
+      )}
     </div>
   );
 };
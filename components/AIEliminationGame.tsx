@@ -1,7 +1,7 @@
 
 import React, { useRef, useEffect, useState } from 'react';
 import { Character } from '../types';
-import { saveEliminationScore } from '../lib/supabase';
+import { submitScore } from '../lib/submissionOutbox';
 import { getRankLevel } from '../utils/rankingSystem';
 import AvatarUpload from './AvatarUpload';
 
@@ -645,22 +645,19 @@ const AIEliminationGame: React.FC<AIEliminationGameProps> = ({
 
   const unlockedCount = allCharacters.length; // All characters unlocked from the start
 
-  // Save score to Supabase
+  // Save score to the leaderboard store
   const handleSaveScore = async () => {
     if (!playerName.trim()) return;
 
-    try {
-      await saveEliminationScore({
-        name: playerName,
-        score,
-        placement,
-        total_fighters: fighterCount,
-        fighter_used: allCharacters.find(c => c.id === selectedCharacterId)?.name || 'Unknown'
-      });
-      console.log('Elimination score saved to Supabase!');
-    } catch (error) {
-      console.error('Failed to save elimination score:', error);
-    }
+    // Queued for retry if the upload fails
+    const status = await submitScore('elimination', {
+      name: playerName,
+      score,
+      placement,
+      total_fighters: fighterCount,
+      fighter_used: allCharacters.find(c => c.id === selectedCharacterId)?.name || 'Unknown'
+    });
+    console.log(`Elimination score ${status}`);
   };
 
   // Post-game leaderboard screen
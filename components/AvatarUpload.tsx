@@ -1,5 +1,5 @@
 import React, { useState, useRef } from 'react';
-import { uploadCommunityAvatar } from '../lib/supabase';
+import { avatarStore } from '../lib/stores';
 
 interface AvatarUploadProps {
   onClose: () => void;
@@ -104,7 +104,7 @@ const AvatarUpload: React.FC<AvatarUploadProps> = ({ onClose, onSuccess }) => {
       const hexColor = hslToHex(color);
       const hexAccentColor = hslToHex(accentColor);
 
-      await uploadCommunityAvatar(selectedFile, name.trim(), hexColor, hexAccentColor);
+      await avatarStore.uploadCommunityAvatar(selectedFile, name.trim(), hexColor, hexAccentColor);
 
       // Success!
       onSuccess();
@@ -1,113 +1,163 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { Track, TRACKS, Checkpoint, Hazard } from '../lib/tracks';
-import { Character } from '../constants';
+import { Track, TRACKS, Checkpoint, Hazard, GhostFrame } from '../lib/tracks';
+import { awardDriftMedal, getDriftRecord, saveDriftChampionship, saveDriftRecord } from '../lib/saveProfile';
+import { getTrackGeometry, getStartPose, getWallOffset } from '../lib/trackGeometry';
+import { LapTime, LapTimer } from '../lib/lapTimer';
+import { DriftCar, CarSetup, CAR_HEIGHT, CAR_WIDTH, DEFAULT_SETUP, createDriftCar, getCarSpec, stepDriftCar, collideCars } from '../lib/driftCar';
+import { Cone, CONE_RADIUS, SHORTCUT_RULES, applyHazards, createCones, updateCones, checkShortcuts } from '../lib/driftHazards';
+import { DriftAIDriver, DriftOpponentSettings, getGridPose, getRaceProgress } from '../lib/driftAI';
+import { CameraMode, CAMERA_MODE_LABELS, DriftCamera, createDriftCamera, nextCameraMode, updateDriftCamera, applyDriftCamera, interpolateDriftCamera } from '../lib/driftCamera';
+import { DriftPose, advanceDriftClock, createDriftClock, getRaceTime, getRenderTime, getStepAlpha, interpolatePose, stopDriftClock } from '../lib/driftClock';
+import { DriftMedal, getMedalForTime } from '../lib/driftMedals';
+import { ChampionshipRound, DriftChampionship, PLAYER_DRIVER_ID, addRound, getRivalCharacters, scoreRound } from '../lib/driftChampionship';
+import { GhostMode, GHOST_MODE_LABELS, nextGhostMode, decodeGhost, sampleGhost } from '../lib/ghost';
+import { leaderboardStore } from '../lib/stores';
+import { DriftTimeEntry, StoredRow } from '../lib/storage';
+import { Character } from '../types';
+import { CHARACTERS } from '../constants';
+import DriftResults from './DriftResults';
 
 interface DriftAttackGameProps {
   selectedTrack: Track;
   selectedCharacter: Character;
-  onBack: () => void;
-  playerHighScore: number;
+  onBack: () => void; // Back to track selection
+  onRestart: () => void; // Race the same track again
+  opponents: DriftOpponentSettings; // CPU cars on the grid
+  setup: CarSetup; // Player's car class and tuning; CPU cars run the stock car of the same class
+  championship?: DriftChampionship | null; // Set when this race is the championship's next round
 }
 
-interface GhostFrame {
-  x: number;
-  y: number;
-  angle: number;
-  timestamp: number;
+// An online ghost: the world record, or a leaderboard entry picked to race against
+interface RivalGhost {
+  id?: number; // Leaderboard row, when picked from the list
+  name: string;
+  time: number;
+  ghost: GhostFrame[];
+  isRecord: boolean;
 }
 
-interface LapTime {
-  lap: number;
-  time: number;
-  isPerfect: boolean; // All checkpoints hit perfectly
+// A CPU car, driven on the same physics as the player
+interface Opponent {
+  character: Character;
+  car: DriftCar;
+  driver: DriftAIDriver;
+  lapTimer: LapTimer;
+  finishTime: number | null;
 }
 
+const MAX_RIVALS = 10;
+const MINIMAP_SIZE = 180; // Screen px along the track's longer side
+
+const ordinal = (position: number) => {
+  const suffix = position % 100 >= 11 && position % 100 <= 13 ? 'TH' : ['TH', 'ST', 'ND', 'RD'][position % 10] ?? 'TH';
+  return `${position}${suffix}`;
+};
+
 const DriftAttackGame: React.FC<DriftAttackGameProps> = ({
   selectedTrack,
   selectedCharacter,
   onBack,
-  playerHighScore,
+  onRestart,
+  opponents,
+  setup,
+  championship,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationFrameRef = useRef<number>();
+  const trackGeometry = getTrackGeometry(selectedTrack);
+  const startPose = getStartPose(trackGeometry);
+  const playerSpec = getCarSpec(setup);
+  const opponentSpec = getCarSpec({ ...DEFAULT_SETUP, carClass: setup.carClass });
 
   // Game state
   const [gameStarted, setGameStarted] = useState(false);
   const [countdown, setCountdown] = useState(3);
   const [isPaused, setIsPaused] = useState(false);
   const [raceFinished, setRaceFinished] = useState(false);
+  const [raceResult, setRaceResult] = useState<{
+    totalTime: number;
+    laps: LapTime[];
+    previousBest: number | null;
+    position: number | null; // Finishing position, when racing CPU cars
+    medal: DriftMedal | null;
+    isNewMedal: boolean;
+    championshipRound: ChampionshipRound | null;
+  } | null>(null);
 
   // Player state
-  const playerRef = useRef({
-    x: 150,
-    y: 500,
-    velocityX: 0,
-    velocityY: 0,
-    angle: 0,
-    speed: 0,
-    isDrifting: false,
-    driftAngle: 0,
-    boostMeter: 0, // 0-100
-  });
+  const playerRef = useRef<DriftCar>(createDriftCar(startPose, playerSpec));
 
   // Drift mechanics
   const [driftMeter, setDriftMeter] = useState(0);
   const [isBoosting, setIsBoosting] = useState(false);
-  const driftStartTime = useRef<number>(0);
+
+  // CPU opponents
+  const opponentsRef = useRef<Opponent[]>([]);
+  const [racePosition, setRacePosition] = useState(1);
 
   // Timing state
   const [currentLap, setCurrentLap] = useState(1);
   const [lapTimes, setLapTimes] = useState<LapTime[]>([]);
-  const [raceStartTime, setRaceStartTime] = useState<number>(0);
-  const [currentTime, setCurrentTime] = useState<number>(0);
-  const [checkpointsPassed, setCheckpointsPassed] = useState<Set<number>>(new Set());
-  const [perfectCheckpoints, setPerfectCheckpoints] = useState<Set<number>>(new Set());
-
-  // Ghost state
-  const [recordingGhost, setRecordingGhost] = useState<GhostFrame[]>([]);
-  const [personalBestGhost, setPersonalBestGhost] = useState<GhostFrame[]>([]);
-  const [globalBestGhost, setGlobalBestGhost] = useState<GhostFrame[]>([]);
+  const [currentTime, setCurrentTime] = useState<number>(0); // Current lap time
+  const [splitDelta, setSplitDelta] = useState<number | null>(null); // vs personal best at the last gate
+  const [wrongWay, setWrongWay] = useState(false);
+  const lapTimerRef = useRef(new LapTimer(selectedTrack, trackGeometry, getDriftRecord(selectedTrack.id)?.splits));
+  const wrongWayTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  const clockRef = useRef(createDriftClock()); // Race time, in fixed physics steps
+  const previousTimeRef = useRef(0); // Race time of the previous step
+
+  // Track objects: cones move when hit, shortcuts and hazards flash a message
+  const conesRef = useRef<Cone[]>(createCones(selectedTrack.hazards));
+  const [trackMessage, setTrackMessage] = useState<{ text: string; color: string } | null>(null);
+  const trackMessageTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+
+  // Ghost state. The render loop reads the refs, the HUD the state.
+  const [ghostMode, setGhostMode] = useState<GhostMode>('both');
+  const [rivalGhost, setRivalGhost] = useState<RivalGhost | null>(null);
+  const [rivals, setRivals] = useState<StoredRow<DriftTimeEntry>[]>([]);
+  const ghostModeRef = useRef<GhostMode>('both');
+  const personalBestGhostRef = useRef<GhostFrame[]>([]);
+  const rivalGhostRef = useRef<RivalGhost | null>(null);
   const ghostRecordingRef = useRef<GhostFrame[]>([]);
 
+  // Camera state
+  const [cameraMode, setCameraMode] = useState<CameraMode>('chase');
+  const cameraModeRef = useRef<CameraMode>('chase');
+  const cameraRef = useRef<DriftCamera>(createDriftCamera(playerRef.current, 'chase'));
+  // Car poses and camera before the latest step; frames in between steps are drawn part way to now
+  const renderFromRef = useRef<{ cars: DriftPose[]; camera: DriftCamera } | null>(null);
+  const [viewport, setViewport] = useState({ width: window.innerWidth, height: window.innerHeight });
+
   // Input state
   const keysPressed = useRef<Set<string>>(new Set());
 
-  // Constants
-  const CAR_WIDTH = 40;
-  const CAR_HEIGHT = 60;
-  const ACCELERATION = 0.5;
-  const MAX_SPEED = 12;
-  const DRIFT_SPEED_MULTIPLIER = 0.85;
-  const BOOST_SPEED_MULTIPLIER = 1.5;
-  const TURN_SPEED = 0.08;
-  const DRIFT_TURN_SPEED = 0.12;
-  const FRICTION = 0.96;
-  const DRIFT_METER_RATE = 2;
-  const BOOST_DRAIN_RATE = 3;
-
   // Initialize game
   useEffect(() => {
     if (!gameStarted) {
       // Reset player position to track start
-      playerRef.current = {
-        x: 150,
-        y: 500,
-        velocityX: 0,
-        velocityY: 0,
-        angle: 0,
-        speed: 0,
-        isDrifting: false,
-        driftAngle: 0,
-        boostMeter: 0,
-      };
-
-      // Load personal best ghost from localStorage
-      const savedGhost = localStorage.getItem(`ghost-${selectedTrack.id}`);
-      if (savedGhost) {
-        setPersonalBestGhost(JSON.parse(savedGhost));
-      }
-
-      // TODO: Load global best ghost from Supabase
+      playerRef.current = createDriftCar(startPose, playerSpec);
+      cameraRef.current = createDriftCamera(playerRef.current, cameraModeRef.current);
+      conesRef.current = createCones(selectedTrack.hazards);
+      clockRef.current = createDriftClock();
+      previousTimeRef.current = 0;
+      renderFromRef.current = null;
+
+      // CPU cars line up behind the player, driven by the other characters; a championship keeps its field
+      const offset = Math.floor(Math.random() * CHARACTERS.length);
+      const rivals = championship
+        ? getRivalCharacters(championship)
+        : [...CHARACTERS.slice(offset), ...CHARACTERS.slice(0, offset)].filter(character => character.id !== selectedCharacter.id);
+      opponentsRef.current = rivals.slice(0, opponents.count).map((character, slot) => ({
+        character,
+        car: createDriftCar(getGridPose(trackGeometry, slot), opponentSpec),
+        driver: new DriftAIDriver(selectedTrack, trackGeometry, opponents.skill, Math.floor(Math.random() * 4294967296)),
+        lapTimer: new LapTimer(selectedTrack, trackGeometry),
+        finishTime: null
+      }));
+
+      // Load personal best ghost from the save profile
+      const record = getDriftRecord(selectedTrack.id);
+      personalBestGhostRef.current = record ? decodeGhost(record.ghost) : [];
 
       // Start countdown
       let count = 3;
@@ -117,7 +167,6 @@ const DriftAttackGame: React.FC<DriftAttackGameProps> = ({
         if (count === 0) {
           clearInterval(countdownInterval);
           setGameStarted(true);
-          setRaceStartTime(Date.now());
         }
       }, 1000);
 
@@ -125,6 +174,64 @@ const DriftAttackGame: React.FC<DriftAttackGameProps> = ({
     }
   }, [selectedTrack.id]);
 
+  // Load the world record ghost and the leaderboard to pick rivals from
+  useEffect(() => {
+    let isMounted = true;
+    const loadOnlineGhosts = async () => {
+      try {
+        const [record, entries] = await Promise.all([
+          leaderboardStore.fetchGlobalBestGhost(selectedTrack.id),
+          leaderboardStore.fetchDriftLeaderboard(selectedTrack.id)
+        ]);
+        if (!isMounted) return;
+
+        const recordGhost = record ? decodeGhost(record.ghost_data) : [];
+        // Keep a rival picked before the world record arrived
+        if (recordGhost.length > 0 && !rivalGhostRef.current) {
+          selectRival({ name: record.name, time: record.total_time, ghost: recordGhost, isRecord: true });
+        }
+        setRivals(entries.filter(entry => decodeGhost(entry.ghost_data).length > 0).slice(0, MAX_RIVALS));
+      } catch (err) {
+        console.error('Failed to load online ghosts:', err);
+      }
+    };
+
+    loadOnlineGhosts();
+    return () => { isMounted = false; };
+  }, [selectedTrack.id]);
+
+  const selectRival = (rival: RivalGhost) => {
+    rivalGhostRef.current = rival;
+    setRivalGhost(rival);
+  };
+
+  const raceAgainst = (entry: StoredRow<DriftTimeEntry>, index: number) => {
+    selectRival({
+      id: entry.id,
+      name: entry.name,
+      time: entry.total_time,
+      ghost: decodeGhost(entry.ghost_data),
+      isRecord: index === 0
+    });
+  };
+
+  const cycleGhostMode = () => {
+    ghostModeRef.current = nextGhostMode(ghostModeRef.current);
+    setGhostMode(ghostModeRef.current);
+  };
+
+  const cycleCameraMode = () => {
+    cameraModeRef.current = nextCameraMode(cameraModeRef.current);
+    setCameraMode(cameraModeRef.current);
+  };
+
+  // The canvas fills the window; the camera decides what part of the track it shows
+  useEffect(() => {
+    const handleResize = () => setViewport({ width: window.innerWidth, height: window.innerHeight });
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
   // Keyboard input handlers
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -134,6 +241,16 @@ const DriftAttackGame: React.FC<DriftAttackGameProps> = ({
       if (e.key === 'Escape') {
         setIsPaused(prev => !prev);
       }
+
+      // Ghost toggle
+      if (e.key.toLowerCase() === 'g' && !e.repeat) {
+        cycleGhostMode();
+      }
+
+      // Camera toggle
+      if (e.key.toLowerCase() === 'c' && !e.repeat) {
+        cycleCameraMode();
+      }
     };
 
     const handleKeyUp = (e: KeyboardEvent) => {
@@ -149,107 +266,77 @@ const DriftAttackGame: React.FC<DriftAttackGameProps> = ({
     };
   }, []);
 
-  // Game loop
-  const updateGame = useCallback(() => {
-    if (!gameStarted || isPaused || raceFinished) return;
+  // Game loop. Physics runs in fixed steps whatever the refresh rate; a slow
+  // frame runs several, a fast one may run none and just redraw.
+  const updateGame = useCallback((now: number) => {
+    const clock = clockRef.current;
+    if (!gameStarted || isPaused || raceFinished) {
+      stopDriftClock(clock);
+      return;
+    }
+
+    const steps = advanceDriftClock(clock, now);
+    for (let i = 0; i < steps && !lapTimerRef.current.finished; i++) {
+      stepRace();
+    }
+  }, [gameStarted, isPaused, raceFinished, selectedTrack, trackGeometry]);
 
+  // One physics step for every car, then timing
+  const stepRace = () => {
     const player = playerRef.current;
     const keys = keysPressed.current;
+    const racing = opponentsRef.current;
+    const poseOf = (car: DriftCar): DriftPose => ({ x: car.x, y: car.y, angle: car.angle + car.driftAngle });
+    renderFromRef.current = {
+      cars: [player, ...racing.map(opponent => opponent.car)].map(poseOf),
+      camera: { ...cameraRef.current }
+    };
 
     // Update current time
-    const now = Date.now();
-    const elapsed = (now - raceStartTime) / 1000;
-    setCurrentTime(elapsed);
+    const clock = clockRef.current;
+    clock.steps++;
+    const elapsed = getRaceTime(clock);
+    const lapTimer = lapTimerRef.current;
+    setCurrentTime(lapTimer.getLapTime(elapsed));
+
+    // CPU cars go first, so one finishing in the same step as the player still counts
+    racing.forEach(opponent => {
+      const { car } = opponent;
+      const from = { x: car.x, y: car.y, time: previousTimeRef.current };
+      stepDriftCar(car, opponent.driver.getInput(car, opponent.lapTimer.gates[opponent.lapTimer.nextGate]), trackGeometry);
+      applyHazards(car, selectedTrack.hazards);
+      checkShortcuts(car, selectedTrack.shortcuts);
+      opponent.lapTimer.update(from, { x: car.x, y: car.y, time: elapsed }).forEach(event => {
+        if (event.type === 'finish') opponent.finishTime = event.totalTime;
+      });
+    });
 
     // Input handling
-    const isAccelerating = keys.has('arrowup') || keys.has('w');
-    const isBraking = keys.has('arrowdown') || keys.has('s');
-    const isTurningLeft = keys.has('arrowleft') || keys.has('a');
-    const isTurningRight = keys.has('arrowright') || keys.has('d');
-    const isDriftPressed = keys.has(' ');
-
-    // Drift mechanics
-    if (isDriftPressed && player.speed > 3) {
-      if (!player.isDrifting) {
-        player.isDrifting = true;
-        driftStartTime.current = now;
-      }
-
-      // Build drift meter while drifting
-      if (player.boostMeter < 100) {
-        player.boostMeter = Math.min(100, player.boostMeter + DRIFT_METER_RATE);
-        setDriftMeter(player.boostMeter);
-      }
-    } else {
-      if (player.isDrifting) {
-        // Release drift - activate boost if meter is high enough
-        if (player.boostMeter > 30) {
-          setIsBoosting(true);
-          setTimeout(() => setIsBoosting(false), 1500);
-        }
-        player.isDrifting = false;
-      }
-    }
-
-    // Boost drain
-    if (isBoosting && player.boostMeter > 0) {
-      player.boostMeter = Math.max(0, player.boostMeter - BOOST_DRAIN_RATE);
-      setDriftMeter(player.boostMeter);
-    } else if (!player.isDrifting && player.boostMeter > 0) {
-      // Slow decay when not drifting or boosting
-      player.boostMeter = Math.max(0, player.boostMeter - 0.5);
-      setDriftMeter(player.boostMeter);
-    }
-
-    // Acceleration/Braking
-    if (isAccelerating) {
-      player.speed = Math.min(MAX_SPEED, player.speed + ACCELERATION);
-    } else if (isBraking) {
-      player.speed = Math.max(0, player.speed - ACCELERATION * 1.5);
-    } else {
-      player.speed *= FRICTION;
-    }
-
-    // Apply speed multipliers
-    let effectiveSpeed = player.speed;
-    if (player.isDrifting) {
-      effectiveSpeed *= DRIFT_SPEED_MULTIPLIER;
-    }
-    if (isBoosting) {
-      effectiveSpeed *= BOOST_SPEED_MULTIPLIER;
-    }
-
-    // Turning
-    const turnSpeed = player.isDrifting ? DRIFT_TURN_SPEED : TURN_SPEED;
-    if (isTurningLeft) {
-      player.angle -= turnSpeed * (player.speed / MAX_SPEED);
-    }
-    if (isTurningRight) {
-      player.angle += turnSpeed * (player.speed / MAX_SPEED);
-    }
-
-    // Apply drift angle offset for visual effect
-    if (player.isDrifting) {
-      if (isTurningLeft) {
-        player.driftAngle = -0.3;
-      } else if (isTurningRight) {
-        player.driftAngle = 0.3;
+    const previous = { x: player.x, y: player.y, time: previousTimeRef.current };
+    stepDriftCar(player, {
+      accelerate: keys.has('arrowup') || keys.has('w'),
+      brake: keys.has('arrowdown') || keys.has('s'),
+      left: keys.has('arrowleft') || keys.has('a'),
+      right: keys.has('arrowright') || keys.has('d'),
+      drift: keys.has(' ')
+    }, trackGeometry);
+    const hazardHit = applyHazards(player, selectedTrack.hazards);
+    const shortcutEntry = checkShortcuts(player, selectedTrack.shortcuts);
+    if (hazardHit === 'oil') showTrackMessage('OIL!', 'bg-yellow-500/80');
+    if (shortcutEntry) {
+      const rules = SHORTCUT_RULES[shortcutEntry.shortcut.difficulty];
+      if (shortcutEntry.taken) {
+        showTrackMessage(`SHORTCUT! -${shortcutEntry.shortcut.timeSave.toFixed(1)}s`, 'bg-green-600/80');
+      } else {
+        showTrackMessage(rules.drift ? 'DRIFT IN TO TAKE IT' : 'TOO SLOW FOR THE SHORTCUT', 'bg-slate-700/80');
       }
-    } else {
-      player.driftAngle *= 0.9; // Smooth return to center
     }
-
-    // Update position
-    player.velocityX = Math.cos(player.angle) * effectiveSpeed;
-    player.velocityY = Math.sin(player.angle) * effectiveSpeed;
-    player.x += player.velocityX;
-    player.y += player.velocityY;
-
-    // Track boundaries (simple wrap for now)
-    if (player.x < 0) player.x = selectedTrack.width;
-    if (player.x > selectedTrack.width) player.x = 0;
-    if (player.y < 0) player.y = selectedTrack.height;
-    if (player.y > selectedTrack.height) player.y = 0;
+    const cars = [player, ...racing.map(opponent => opponent.car)];
+    updateCones(conesRef.current, cars, trackGeometry);
+    collideCars(cars);
+    setDriftMeter(player.boostMeter);
+    setIsBoosting(player.boostFrames > 0);
+    updateDriftCamera(cameraRef.current, player, cameraModeRef.current);
 
     // Record ghost frame
     ghostRecordingRef.current.push({
@@ -259,112 +346,86 @@ const DriftAttackGame: React.FC<DriftAttackGameProps> = ({
       timestamp: elapsed,
     });
 
-    // Check checkpoint collisions
-    checkCheckpointCollisions();
-
-    // Check hazard collisions
-    checkHazardCollisions();
-  }, [gameStarted, isPaused, raceFinished, raceStartTime, selectedTrack]);
-
-  // Checkpoint collision detection
-  const checkCheckpointCollisions = useCallback(() => {
-    const player = playerRef.current;
-
-    selectedTrack.checkpoints.forEach((checkpoint, index) => {
-      const dx = player.x - checkpoint.x;
-      const dy = player.y - checkpoint.y;
-      const distance = Math.sqrt(dx * dx + dy * dy);
-
-      if (distance < checkpoint.width / 2) {
-        if (!checkpointsPassed.has(index)) {
-          const newCheckpoints = new Set(checkpointsPassed);
-          newCheckpoints.add(index);
-          setCheckpointsPassed(newCheckpoints);
-
-          // Check if it's a perfect hit
-          if (distance < checkpoint.perfectWindow / 2) {
-            const newPerfectCheckpoints = new Set(perfectCheckpoints);
-            newPerfectCheckpoints.add(index);
-            setPerfectCheckpoints(newPerfectCheckpoints);
-          }
-
-          // Check if lap completed (all checkpoints passed)
-          if (newCheckpoints.size === selectedTrack.checkpoints.length) {
-            completeLap();
-          }
-        }
+    // Timing gates
+    lapTimer.update(previous, { x: player.x, y: player.y, time: elapsed }).forEach(event => {
+      switch (event.type) {
+        case 'sector':
+          if (event.delta !== null) setSplitDelta(event.delta);
+          break;
+        case 'lap':
+          setLapTimes(prev => [...prev, event.lap]);
+          setCurrentLap(lapTimer.currentLap);
+          break;
+        case 'finish':
+          finishRace(event.totalTime, event.laps, event.splits);
+          break;
+        case 'wrong_way':
+          setWrongWay(true);
+          clearTimeout(wrongWayTimeoutRef.current);
+          wrongWayTimeoutRef.current = setTimeout(() => setWrongWay(false), 2000);
+          break;
       }
     });
-  }, [checkpointsPassed, perfectCheckpoints, selectedTrack.checkpoints]);
+    previousTimeRef.current = elapsed;
 
-  // Hazard collision detection
-  const checkHazardCollisions = useCallback(() => {
-    const player = playerRef.current;
-
-    selectedTrack.hazards.forEach((hazard) => {
-      const isColliding =
-        player.x > hazard.x &&
-        player.x < hazard.x + hazard.width &&
-        player.y > hazard.y &&
-        player.y < hazard.y + hazard.height;
-
-      if (isColliding) {
-        // Slow down significantly
-        player.speed *= 0.5;
-        player.boostMeter = Math.max(0, player.boostMeter - 20);
-        setDriftMeter(player.boostMeter);
-      }
-    });
-  }, [selectedTrack.hazards]);
-
-  // Complete a lap
-  const completeLap = useCallback(() => {
-    const lapTime = (Date.now() - raceStartTime) / 1000;
-    const isPerfect = perfectCheckpoints.size === selectedTrack.checkpoints.length;
-
-    const newLapTime: LapTime = {
-      lap: currentLap,
-      time: lapTime,
-      isPerfect,
-    };
-
-    setLapTimes(prev => [...prev, newLapTime]);
-    setCheckpointsPassed(new Set());
-    setPerfectCheckpoints(new Set());
-
-    if (currentLap >= selectedTrack.laps) {
-      // Race finished
-      finishRace(lapTime);
-    } else {
-      // Next lap
-      setCurrentLap(prev => prev + 1);
+    // Race order: everyone further round the lap, or already home, is ahead
+    if (racing.length > 0 && !lapTimer.finished) {
+      const progress = getRaceProgress(lapTimer, trackGeometry, player.x, player.y);
+      setRacePosition(1 + racing.filter(opponent =>
+        getRaceProgress(opponent.lapTimer, trackGeometry, opponent.car.x, opponent.car.y) > progress).length);
     }
-  }, [currentLap, raceStartTime, perfectCheckpoints, selectedTrack]);
+  };
+
+  const showTrackMessage = (text: string, color: string) => {
+    setTrackMessage({ text, color });
+    clearTimeout(trackMessageTimeoutRef.current);
+    trackMessageTimeoutRef.current = setTimeout(() => setTrackMessage(null), 1500);
+  };
 
   // Finish race
-  const finishRace = useCallback((finalTime: number) => {
+  const finishRace = useCallback((finalTime: number, laps: LapTime[], splits: number[]) => {
     setRaceFinished(true);
-
-    // Save ghost if it's a personal best
-    const savedBestTime = localStorage.getItem(`best-time-${selectedTrack.id}`);
-    if (!savedBestTime || finalTime < parseFloat(savedBestTime)) {
-      localStorage.setItem(`best-time-${selectedTrack.id}`, finalTime.toString());
-      localStorage.setItem(`ghost-${selectedTrack.id}`, JSON.stringify(ghostRecordingRef.current));
+    const previousBest = getDriftRecord(selectedTrack.id)?.bestTime ?? null;
+
+    // Save ghost and splits if it's a personal best; the results screen submits online
+    saveDriftRecord(selectedTrack.id, finalTime, ghostRecordingRef.current, splits);
+    const medal = getMedalForTime(selectedTrack, finalTime);
+    const isNewMedal = medal !== null && awardDriftMedal(selectedTrack.id, medal);
+    const racing = opponentsRef.current;
+    const position = racing.length > 0
+      ? 1 + racing.filter(opponent => opponent.finishTime !== null && opponent.finishTime < finalTime).length
+      : null;
+
+    // Championship rounds score the whole field: finishers by time, the rest by how far round they got
+    let championshipRound: ChampionshipRound | null = null;
+    if (championship) {
+      const finished = [
+        { driverId: PLAYER_DRIVER_ID, time: finalTime },
+        ...racing
+          .filter(opponent => opponent.finishTime !== null)
+          .map(opponent => ({ driverId: opponent.character.id, time: opponent.finishTime }))
+      ].sort((a, b) => a.time - b.time);
+      const stillRacing = racing
+        .filter(opponent => opponent.finishTime === null)
+        .map(opponent => ({ opponent, progress: getRaceProgress(opponent.lapTimer, trackGeometry, opponent.car.x, opponent.car.y) }))
+        .sort((a, b) => b.progress - a.progress)
+        .map(({ opponent }) => ({ driverId: opponent.character.id, time: null }));
+      championshipRound = scoreRound(championship, [...finished, ...stillRacing], medal);
+      saveDriftChampionship(addRound(championship, championshipRound));
     }
-
-    // TODO: Submit to Supabase leaderboard
-  }, [selectedTrack.id]);
+    setRaceResult({ totalTime: finalTime, laps, previousBest, position, medal, isNewMedal, championshipRound });
+  }, [selectedTrack, championship]);
 
   // Animation loop
   useEffect(() => {
-    const animate = () => {
-      updateGame();
+    const animate = (now: number) => {
+      updateGame(now);
       renderGame();
       animationFrameRef.current = requestAnimationFrame(animate);
     };
 
     if (gameStarted) {
-      animate();
+      animate(performance.now());
     }
 
     return () => {
@@ -383,76 +444,176 @@ const DriftAttackGame: React.FC<DriftAttackGameProps> = ({
     if (!ctx) return;
 
     // Clear canvas
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
     ctx.fillStyle = selectedTrack.colors.background;
     ctx.fillRect(0, 0, canvas.width, canvas.height);
 
-    // Draw track
-    ctx.fillStyle = selectedTrack.colors.track;
-    ctx.fillRect(50, 50, selectedTrack.width - 100, selectedTrack.height - 100);
+    // Cars and camera are drawn part way between the last two physics steps
+    const player = playerRef.current;
+    const racing = opponentsRef.current;
+    const clock = clockRef.current;
+    const alpha = getStepAlpha(clock);
+    const from = renderFromRef.current;
+    const drawnPose = (car: DriftCar, index: number): DriftPose => {
+      const to = { x: car.x, y: car.y, angle: car.angle + car.driftAngle };
+      const previous = from?.cars[index];
+      return previous ? interpolatePose(previous, to, alpha) : to;
+    };
+    const camera = from ? interpolateDriftCamera(from.camera, cameraRef.current, alpha) : cameraRef.current;
 
-    // Draw racing line
-    ctx.strokeStyle = selectedTrack.colors.accent + '40';
-    ctx.lineWidth = 3;
-    ctx.setLineDash([10, 10]);
+    // Everything up to the minimap is drawn in track coordinates through the camera
+    applyDriftCamera(ctx, camera, canvas.width, canvas.height);
+
+    // Draw track as layered strokes along the centerline: walls, run-off, road edge, road
     ctx.beginPath();
-    selectedTrack.racingLine.forEach((point, index) => {
+    trackGeometry.samples.forEach((sample, index) => {
       if (index === 0) {
-        ctx.moveTo(point.x, point.y);
+        ctx.moveTo(sample.x, sample.y);
       } else {
-        ctx.lineTo(point.x, point.y);
+        ctx.lineTo(sample.x, sample.y);
       }
     });
+    ctx.closePath();
+    const wallOffset = getWallOffset(trackGeometry);
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = selectedTrack.colors.primary;
+    ctx.lineWidth = wallOffset * 2 + 8;
+    ctx.stroke();
+    ctx.strokeStyle = '#1f2937';
+    ctx.lineWidth = wallOffset * 2;
+    ctx.stroke();
+    ctx.strokeStyle = selectedTrack.colors.accent + '80';
+    ctx.lineWidth = trackGeometry.roadWidth + 4;
+    ctx.stroke();
+    ctx.strokeStyle = selectedTrack.colors.track;
+    ctx.lineWidth = trackGeometry.roadWidth;
+    ctx.stroke();
+
+    // Draw racing line
+    ctx.strokeStyle = selectedTrack.colors.accent + '40';
+    ctx.lineWidth = 3;
+    ctx.setLineDash([10, 10]);
     ctx.stroke();
     ctx.setLineDash([]);
 
-    // Draw checkpoints
-    selectedTrack.checkpoints.forEach((checkpoint, index) => {
-      const isPassed = checkpointsPassed.has(index);
-      const isPerfect = perfectCheckpoints.has(index);
+    // Start/finish line
+    const start = trackGeometry.samples[0];
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = 6;
+    ctx.beginPath();
+    ctx.moveTo(start.x + start.tangentY * trackGeometry.roadWidth / 2, start.y - start.tangentX * trackGeometry.roadWidth / 2);
+    ctx.lineTo(start.x - start.tangentY * trackGeometry.roadWidth / 2, start.y + start.tangentX * trackGeometry.roadWidth / 2);
+    ctx.stroke();
+
+    // Draw checkpoint gates across the road; the next one is highlighted
+    const lapTimer = lapTimerRef.current;
+    lapTimer.gates.forEach((gate, index) => {
+      if (gate.isFinish) return;
+      const isPassed = index < lapTimer.nextGate;
+      const isNext = index === lapTimer.nextGate;
+      const halfRoad = trackGeometry.roadWidth / 2;
 
-      ctx.fillStyle = isPassed
-        ? isPerfect
-          ? '#10b981'
-          : '#3b82f6'
-        : selectedTrack.colors.primary + '40';
+      ctx.strokeStyle = isPassed ? '#3b82f6' : isNext ? selectedTrack.colors.primary : selectedTrack.colors.primary + '40';
+      ctx.lineWidth = isNext ? 4 : 2;
       ctx.beginPath();
-      ctx.arc(checkpoint.x, checkpoint.y, checkpoint.width / 2, 0, Math.PI * 2);
-      ctx.fill();
+      ctx.moveTo(gate.x + gate.dirY * halfRoad, gate.y - gate.dirX * halfRoad);
+      ctx.lineTo(gate.x - gate.dirY * halfRoad, gate.y + gate.dirX * halfRoad);
+      ctx.stroke();
 
       // Perfect window
-      if (!isPassed) {
-        ctx.fillStyle = selectedTrack.colors.accent + '80';
+      if (isNext) {
+        const halfWindow = gate.perfectWindow / 2;
+        ctx.strokeStyle = '#10b981';
+        ctx.lineWidth = 6;
         ctx.beginPath();
-        ctx.arc(checkpoint.x, checkpoint.y, checkpoint.perfectWindow / 2, 0, Math.PI * 2);
-        ctx.fill();
+        ctx.moveTo(gate.x + gate.dirY * halfWindow, gate.y - gate.dirX * halfWindow);
+        ctx.lineTo(gate.x - gate.dirY * halfWindow, gate.y + gate.dirX * halfWindow);
+        ctx.stroke();
       }
     });
 
-    // Draw hazards
+    // Shortcut zones, tinted by how hard they are to take
+    ctx.setLineDash([8, 6]);
+    ctx.lineWidth = 3;
+    ctx.font = 'bold 12px monospace';
+    ctx.textAlign = 'center';
+    selectedTrack.shortcuts.forEach((shortcut) => {
+      const color = shortcut.difficulty === 'easy' ? '#22c55e' : shortcut.difficulty === 'medium' ? '#f59e0b' : '#ef4444';
+      ctx.fillStyle = color + '20';
+      ctx.fillRect(shortcut.x, shortcut.y, shortcut.width, shortcut.height);
+      ctx.strokeStyle = color;
+      ctx.strokeRect(shortcut.x, shortcut.y, shortcut.width, shortcut.height);
+      ctx.fillStyle = color;
+      ctx.fillText(`⚡ ${SHORTCUT_RULES[shortcut.difficulty].drift ? 'DRIFT' : 'FAST'}`, shortcut.x + shortcut.width / 2, shortcut.y + shortcut.height / 2);
+    });
+    ctx.setLineDash([]);
+
+    // Draw hazards. Cones are loose and drawn from their live positions.
     selectedTrack.hazards.forEach((hazard) => {
-      ctx.fillStyle = hazard.type === 'oil' ? '#fbbf24' : '#ef4444';
-      ctx.fillRect(hazard.x, hazard.y, hazard.width, hazard.height);
+      if (hazard.type === 'oil') {
+        ctx.fillStyle = '#fbbf24a0';
+        ctx.beginPath();
+        ctx.ellipse(hazard.x + hazard.width / 2, hazard.y + hazard.height / 2, hazard.width / 2, hazard.height / 2, 0, 0, Math.PI * 2);
+        ctx.fill();
+      } else if (hazard.type === 'barrier') {
+        ctx.fillStyle = '#ef4444';
+        ctx.fillRect(hazard.x, hazard.y, hazard.width, hazard.height);
+        ctx.strokeStyle = '#ffffff';
+        ctx.lineWidth = 2;
+        ctx.strokeRect(hazard.x, hazard.y, hazard.width, hazard.height);
+      }
+    });
+    conesRef.current.forEach((cone) => {
+      ctx.save();
+      ctx.translate(cone.x, cone.y);
+      ctx.rotate(cone.angle);
+      ctx.fillStyle = '#f97316';
+      ctx.beginPath();
+      ctx.moveTo(0, -CONE_RADIUS);
+      ctx.lineTo(CONE_RADIUS, CONE_RADIUS);
+      ctx.lineTo(-CONE_RADIUS, CONE_RADIUS);
+      ctx.closePath();
+      ctx.fill();
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(-CONE_RADIUS / 2, 0, CONE_RADIUS, 4);
+      ctx.restore();
     });
 
-    // Draw ghosts
-    const currentGhostTime = (Date.now() - raceStartTime) / 1000;
-
-    // Personal best ghost
-    if (personalBestGhost.length > 0) {
-      const ghostFrame = personalBestGhost.find(
-        (frame, i) =>
-          frame.timestamp <= currentGhostTime &&
-          (i === personalBestGhost.length - 1 || personalBestGhost[i + 1].timestamp > currentGhostTime)
-      );
-      if (ghostFrame) {
-        drawCar(ctx, ghostFrame.x, ghostFrame.y, ghostFrame.angle, '#ffffff40', true);
+    // Draw ghosts on the race clock, in step with the interpolated cars; they hold still while paused
+    const ghostTime = Math.max(0, getRenderTime(clock));
+    const mode = ghostModeRef.current;
+    const ghostDots: { x: number; y: number; color: string }[] = [];
+
+    if (mode !== 'wr') {
+      const frame = sampleGhost(personalBestGhostRef.current, ghostTime);
+      if (frame) {
+        drawCar(ctx, frame.x, frame.y, frame.angle, '#ffffff40', null);
+        drawNameTag(ctx, frame.x, frame.y, 'PB', '#ffffffa0', camera);
+        ghostDots.push({ x: frame.x, y: frame.y, color: '#ffffffa0' });
       }
     }
 
+    const rival = rivalGhostRef.current;
+    if (mode !== 'pb' && rival) {
+      const frame = sampleGhost(rival.ghost, ghostTime);
+      if (frame) {
+        drawCar(ctx, frame.x, frame.y, frame.angle, '#facc1540', null);
+        drawNameTag(ctx, frame.x, frame.y, rival.isRecord ? `WR ${rival.name}` : rival.name, '#facc15c0', camera);
+        ghostDots.push({ x: frame.x, y: frame.y, color: '#facc15c0' });
+      }
+    }
+
+    // CPU cars
+    racing.forEach(({ car, character }, index) => {
+      const pose = drawnPose(car, index + 1);
+      drawCar(ctx, pose.x, pose.y, pose.angle, car.isDrifting ? '#f59e0b' : character.color, character);
+      drawNameTag(ctx, pose.x, pose.y, character.name, '#ffffffc0', camera);
+    });
+
     // Player car
-    const player = playerRef.current;
+    const playerPose = drawnPose(player, 0);
     const carColor = player.isDrifting ? '#f59e0b' : selectedCharacter.color;
-    drawCar(ctx, player.x, player.y, player.angle + player.driftAngle, carColor, false);
+    drawCar(ctx, playerPose.x, playerPose.y, playerPose.angle, carColor, selectedCharacter);
 
     // Drift particles
     if (player.isDrifting) {
@@ -461,20 +622,87 @@ const DriftAttackGame: React.FC<DriftAttackGameProps> = ({
         const offsetX = Math.cos(player.angle + Math.PI) * (20 + i * 10);
         const offsetY = Math.sin(player.angle + Math.PI) * (20 + i * 10);
         ctx.beginPath();
-        ctx.arc(player.x + offsetX, player.y + offsetY, 3 - i, 0, Math.PI * 2);
+        ctx.arc(playerPose.x + offsetX, playerPose.y + offsetY, 3 - i, 0, Math.PI * 2);
         ctx.fill();
       }
     }
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    drawMinimap(ctx, canvas.width, canvas.height, ghostDots);
+  };
+
+  // Whole track in the corner: racing line, gates, ghosts and every car
+  const drawMinimap = (
+    ctx: CanvasRenderingContext2D,
+    canvasWidth: number,
+    canvasHeight: number,
+    ghostDots: { x: number; y: number; color: string }[]
+  ) => {
+    const scale = MINIMAP_SIZE / Math.max(selectedTrack.width, selectedTrack.height);
+    const width = selectedTrack.width * scale;
+    const height = selectedTrack.height * scale;
+    const left = canvasWidth - width - 24;
+    const top = canvasHeight - height - 24;
+    const dot = (x: number, y: number, radius: number, color: string) => {
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.arc(left + x * scale, top + y * scale, radius, 0, Math.PI * 2);
+      ctx.fill();
+    };
+
+    ctx.fillStyle = '#000000b0';
+    ctx.fillRect(left - 8, top - 8, width + 16, height + 16);
+
+    // Racing line
+    ctx.beginPath();
+    trackGeometry.samples.forEach((sample, index) => {
+      if (index === 0) {
+        ctx.moveTo(left + sample.x * scale, top + sample.y * scale);
+      } else {
+        ctx.lineTo(left + sample.x * scale, top + sample.y * scale);
+      }
+    });
+    ctx.closePath();
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = selectedTrack.colors.primary + '80';
+    ctx.lineWidth = Math.max(3, trackGeometry.roadWidth * scale);
+    ctx.stroke();
+
+    // Checkpoints, the next one larger
+    const lapTimer = lapTimerRef.current;
+    lapTimer.gates.forEach((gate, index) => {
+      const isNext = index === lapTimer.nextGate;
+      dot(gate.x, gate.y, isNext ? 4 : 2, gate.isFinish ? '#ffffff' : isNext ? '#10b981' : '#3b82f6');
+    });
+
+    ghostDots.forEach(ghost => dot(ghost.x, ghost.y, 3, ghost.color));
+    opponentsRef.current.forEach(({ car, character }) => dot(car.x, car.y, 3, character.color));
+
+    const player = playerRef.current;
+    dot(player.x, player.y, 5, '#ffffff');
+    dot(player.x, player.y, 3.5, selectedCharacter.color);
+  };
+
+  // Name tag above a ghost or CPU car, kept upright however the camera turns
+  const drawNameTag = (ctx: CanvasRenderingContext2D, x: number, y: number, label: string, color: string, camera: DriftCamera) => {
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.rotate(-camera.rotation);
+    ctx.fillStyle = color;
+    ctx.font = 'bold 12px monospace';
+    ctx.textAlign = 'center';
+    ctx.fillText(label, 0, -CAR_HEIGHT / 2 - 8);
+    ctx.restore();
   };
 
-  // Draw car helper
+  // Draw car helper. Ghosts (no driver) are drawn as a plain silhouette.
   const drawCar = (
     ctx: CanvasRenderingContext2D,
     x: number,
     y: number,
     angle: number,
     color: string,
-    isGhost: boolean
+    driver: Character | null
   ) => {
     ctx.save();
     ctx.translate(x, y);
@@ -485,14 +713,14 @@ const DriftAttackGame: React.FC<DriftAttackGameProps> = ({
     ctx.fillRect(-CAR_WIDTH / 2, -CAR_HEIGHT / 2, CAR_WIDTH, CAR_HEIGHT);
 
     // Car details (skip for ghost)
-    if (!isGhost) {
-      ctx.fillStyle = selectedCharacter.accentColor || '#ffffff';
+    if (driver) {
+      ctx.fillStyle = driver.accentColor || '#ffffff';
       ctx.fillRect(-CAR_WIDTH / 2 + 5, -CAR_HEIGHT / 2 + 5, CAR_WIDTH - 10, 15);
 
       // Character avatar
-      if (selectedCharacter.avatarUrl) {
+      if (driver.avatarUrl) {
         const img = new Image();
-        img.src = selectedCharacter.avatarUrl;
+        img.src = driver.avatarUrl;
         ctx.drawImage(img, -15, -15, 30, 30);
       }
     }
@@ -501,15 +729,25 @@ const DriftAttackGame: React.FC<DriftAttackGameProps> = ({
   };
 
   return (
-    <div className="relative w-full h-screen bg-slate-900 overflow-hidden">
+    <div className="absolute inset-0 z-20 bg-slate-900 overflow-hidden">
       {/* HUD */}
       <div className="absolute top-4 left-4 right-4 z-10 flex justify-between items-start">
         {/* Left side - Lap & Time */}
         <div className="bg-black/70 backdrop-blur-md rounded-xl p-4 border border-white/10">
+          {opponents.count > 0 && (
+            <div className="text-2xl font-black text-yellow-400 font-mono">
+              {ordinal(racePosition)}<span className="text-sm text-white/50">/{opponents.count + 1}</span>
+            </div>
+          )}
           <div className="text-white/60 text-xs uppercase tracking-wider mb-1">Lap {currentLap}/{selectedTrack.laps}</div>
           <div className="text-3xl font-bold text-white font-mono">
             {currentTime.toFixed(2)}s
           </div>
+          {splitDelta !== null && (
+            <div className={`text-sm font-mono font-bold ${splitDelta <= 0 ? 'text-green-400' : 'text-red-400'}`}>
+              {splitDelta <= 0 ? '-' : '+'}{Math.abs(splitDelta).toFixed(2)}s PB
+            </div>
+          )}
           {lapTimes.length > 0 && (
             <div className="text-xs text-cyan-400 mt-1">
               Last: {lapTimes[lapTimes.length - 1].time.toFixed(2)}s
@@ -532,6 +770,17 @@ const DriftAttackGame: React.FC<DriftAttackGameProps> = ({
             />
           </div>
           {isBoosting && <div className="text-xs text-orange-400 mt-1 font-bold">BOOSTING!</div>}
+          <button
+            onClick={cycleGhostMode}
+            className="mt-3 w-full text-left text-xs text-white/60 hover:text-white"
+          >
+            <div className="font-bold tracking-wider">{GHOST_MODE_LABELS[ghostMode]}</div>
+            {ghostMode !== 'pb' && (
+              <div className="text-yellow-400/80 font-mono truncate">
+                {rivalGhost ? `${rivalGhost.isRecord ? 'WR ' : ''}${rivalGhost.name} ${rivalGhost.time.toFixed(2)}s` : 'No online ghost'}
+              </div>
+            )}
+          </button>
         </div>
       </div>
 
@@ -539,11 +788,24 @@ const DriftAttackGame: React.FC<DriftAttackGameProps> = ({
       <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 z-10">
         <div className="bg-black/70 backdrop-blur-md rounded-xl px-6 py-3 border border-white/10">
           <div className="text-white/60 text-xs text-center">
-            WASD / Arrows: Move • SPACE: Drift • ESC: Pause
+            WASD / Arrows: Move • SPACE: Drift • G: Ghosts • C: {CAMERA_MODE_LABELS[nextCameraMode(cameraMode)]} • ESC: Pause
           </div>
         </div>
       </div>
 
+      {/* Wrong way warning */}
+      {trackMessage && !wrongWay && !raceFinished && (
+        <div className={`absolute top-1/3 left-1/2 -translate-x-1/2 z-10 px-6 py-3 rounded-xl text-white text-2xl font-black tracking-widest ${trackMessage.color}`}>
+          {trackMessage.text}
+        </div>
+      )}
+
+      {wrongWay && !raceFinished && (
+        <div className="absolute top-1/3 left-1/2 -translate-x-1/2 z-10 px-6 py-3 rounded-xl bg-red-600/80 text-white text-2xl font-black tracking-widest animate-pulse">
+          WRONG WAY
+        </div>
+      )}
+
       {/* Countdown */}
       {!gameStarted && countdown > 0 && (
         <div className="absolute inset-0 flex items-center justify-center z-20 bg-black/50">
@@ -554,10 +816,31 @@ const DriftAttackGame: React.FC<DriftAttackGameProps> = ({
       )}
 
       {/* Pause Menu */}
-      {isPaused && (
+      {isPaused && !raceFinished && (
         <div className="absolute inset-0 flex items-center justify-center z-20 bg-black/70 backdrop-blur-sm">
           <div className="bg-slate-800 rounded-2xl p-8 border-2 border-white/20">
             <h2 className="text-4xl font-black text-white mb-6">PAUSED</h2>
+            {rivals.length > 0 && (
+              <div className="mb-6">
+                <div className="text-white/60 text-xs uppercase tracking-wider mb-2">Race a ghost</div>
+                <div className="space-y-1 max-h-48 overflow-y-auto">
+                  {rivals.map((entry, index) => (
+                    <button
+                      key={entry.id}
+                      onClick={() => raceAgainst(entry, index)}
+                      className={`w-full flex justify-between gap-6 px-3 py-1 rounded-lg text-sm ${
+                        rivalGhost?.id === entry.id || (!rivalGhost?.id && rivalGhost?.isRecord && index === 0)
+                          ? 'bg-yellow-500/20 text-yellow-300'
+                          : 'text-white hover:bg-white/10'
+                      }`}
+                    >
+                      <span>{index + 1}. {entry.name}</span>
+                      <span className="font-mono">{entry.total_time.toFixed(2)}s</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
             <div className="flex gap-4">
               <button
                 onClick={() => setIsPaused(false)}
@@ -577,46 +860,31 @@ const DriftAttackGame: React.FC<DriftAttackGameProps> = ({
       )}
 
       {/* Race Finished */}
-      {raceFinished && (
-        <div className="absolute inset-0 flex items-center justify-center z-20 bg-black/70 backdrop-blur-sm">
-          <div className="bg-slate-800 rounded-2xl p-8 border-2 border-cyan-500/50">
-            <h2 className="text-4xl font-black text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-blue-400 mb-6">
-              RACE COMPLETE!
-            </h2>
-            <div className="space-y-3 mb-6">
-              {lapTimes.map((lap, index) => (
-                <div key={index} className="flex justify-between items-center text-white">
-                  <span className="text-white/60">Lap {lap.lap}:</span>
-                  <span className="font-mono font-bold">
-                    {lap.time.toFixed(2)}s {lap.isPerfect && '⭐'}
-                  </span>
-                </div>
-              ))}
-            </div>
-            <div className="flex gap-4">
-              <button
-                onClick={() => window.location.reload()}
-                className="px-6 py-3 rounded-xl bg-gradient-to-r from-cyan-600 to-blue-600 text-white font-bold"
-              >
-                Race Again
-              </button>
-              <button
-                onClick={onBack}
-                className="px-6 py-3 rounded-xl bg-slate-700 text-white font-bold"
-              >
-                Track Select
-              </button>
-            </div>
-          </div>
-        </div>
+      {raceResult && (
+        <DriftResults
+          track={selectedTrack}
+          character={selectedCharacter}
+          totalTime={raceResult.totalTime}
+          laps={raceResult.laps}
+          ghost={ghostRecordingRef.current}
+          previousBest={raceResult.previousBest}
+          position={raceResult.position}
+          setup={setup}
+          medal={raceResult.medal}
+          isNewMedal={raceResult.isNewMedal}
+          fieldSize={opponents.count + 1}
+          championshipRound={raceResult.championshipRound}
+          onRaceAgain={onRestart}
+          onTrackSelect={onBack}
+        />
       )}
 
       {/* Canvas */}
       <canvas
         ref={canvasRef}
-        width={selectedTrack.width}
-        height={selectedTrack.height}
-        className="absolute inset-0 m-auto"
+        width={viewport.width}
+        height={viewport.height}
+        className="absolute inset-0"
       />
     </div>
   );
@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from 'react';
+import { TRACKS } from '../lib/tracks';
+import { resolveTrack } from '../lib/trackGenerator';
+import { leaderboardStore } from '../lib/stores';
+import { DriftTimeEntry, StoredRow } from '../lib/storage';
+import { CAR_CLASSES, CAR_CLASS_LABELS, CarClass, describeCarSetup, readCarSetup } from '../lib/driftCar';
+import { decodeGhost } from '../lib/ghost';
+import { LapTime } from '../lib/lapTimer';
+import DriftReplayViewer from './DriftReplayViewer';
+
+interface DriftLeaderboardProps {
+  initialTrackId: string;
+  highlightSubmissionId?: string | null; // The player's own run, if just submitted
+  onBack: () => void;
+}
+
+const MAX_ENTRIES = 25;
+
+const formatRaceTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = (seconds - minutes * 60).toFixed(2).padStart(5, '0');
+  return minutes > 0 ? `${minutes}:${rest}` : `${rest}s`;
+};
+
+// Lap rows come from every client version; laps without a time are left out
+const readLaps = (lapTimes: unknown): LapTime[] =>
+  (Array.isArray(lapTimes) ? lapTimes : []).flatMap((item: unknown, index) => {
+    const lap = item && typeof item === 'object' ? item as Record<string, unknown> : {};
+    if (typeof lap.time !== 'number' || !Number.isFinite(lap.time)) return [];
+    return [{
+      lap: typeof lap.lap === 'number' ? lap.lap : index + 1,
+      time: lap.time,
+      sectors: Array.isArray(lap.sectors) ? lap.sectors.filter((sector): sector is number => typeof sector === 'number') : [],
+      isPerfect: lap.isPerfect === true
+    }];
+  });
+
+const DriftLeaderboard: React.FC<DriftLeaderboardProps> = ({ initialTrackId, highlightSubmissionId, onBack }) => {
+  const [trackId, setTrackId] = useState(initialTrackId);
+  const [entries, setEntries] = useState<StoredRow<DriftTimeEntry>[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [carClass, setCarClass] = useState<CarClass | null>(null); // null ranks every class together
+  const [replayEntryId, setReplayEntryId] = useState<number | null | undefined>(undefined); // Set while the replay viewer is open
+
+  // Generated tracks get a tab of their own next to the built-in ones
+  const initialTrack = resolveTrack(initialTrackId);
+  const tabs = initialTrack && !TRACKS.includes(initialTrack) ? [...TRACKS, initialTrack] : TRACKS;
+  const track = tabs.find(t => t.id === trackId) ?? TRACKS[0];
+
+  useEffect(() => {
+    let isMounted = true;
+    const loadLeaderboard = async () => {
+      try {
+        setLoading(true);
+        setError(false);
+        const data = await leaderboardStore.fetchDriftLeaderboard(trackId, carClass ?? undefined);
+        if (isMounted) setEntries(data.slice(0, MAX_ENTRIES));
+      } catch (err) {
+        console.error('Failed to fetch drift leaderboard:', err);
+        if (isMounted) {
+          setError(true);
+          setEntries([]);
+        }
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    };
+
+    loadLeaderboard();
+    return () => { isMounted = false; };
+  }, [trackId, carClass]);
+
+  const best = entries[0]?.total_time;
+
+  if (replayEntryId !== undefined) {
+    return <DriftReplayViewer track={track} initialEntryId={replayEntryId} onBack={() => setReplayEntryId(undefined)} />;
+  }
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center bg-slate-900 z-30 overflow-y-auto py-12 px-4">
+      <div className="w-full max-w-2xl">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h2 className="text-4xl font-black text-transparent bg-clip-text bg-gradient-to-r from-orange-300 via-yellow-400 to-orange-300">
+              DRIFT RANKING
+            </h2>
+            {error && (
+              <p className="text-yellow-500 text-sm mt-1">Leaderboard unavailable (offline)</p>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setReplayEntryId(null)}
+              className="text-orange-300 hover:text-white font-bold uppercase tracking-wider text-sm border border-orange-400/50 px-4 py-2 rounded hover:bg-slate-800 transition-colors"
+            >
+              🎬 Replays
+            </button>
+            <button
+              onClick={onBack}
+              className="text-slate-400 hover:text-white font-bold uppercase tracking-wider text-sm border border-slate-600 px-4 py-2 rounded hover:bg-slate-800 transition-colors"
+            >
+              Back
+            </button>
+          </div>
+        </div>
+
+        {/* Track tabs */}
+        <div className="flex gap-2 mb-6">
+          {tabs.map(t => (
+            <button
+              key={t.id}
+              onClick={() => {
+                setTrackId(t.id);
+                setExpandedId(null);
+              }}
+              className={`flex-1 px-3 py-2 rounded-lg text-xs font-bold border transition-colors ${
+                t.id === trackId ? 'bg-slate-700 text-white' : 'bg-slate-800/50 text-white/50 border-slate-700 hover:text-white'
+              }`}
+              style={{ borderColor: t.id === trackId ? t.colors.primary : undefined }}
+            >
+              {t.name}
+            </button>
+          ))}
+        </div>
+
+        {/* Car class filter */}
+        <div className="flex gap-2 mb-4">
+          {[null, ...CAR_CLASSES].map(option => (
+            <button
+              key={option ?? 'all'}
+              onClick={() => {
+                setCarClass(option);
+                setExpandedId(null);
+              }}
+              className={`px-3 py-1 rounded-full text-xs font-bold uppercase transition-colors ${
+                option === carClass ? 'bg-orange-500 text-white' : 'bg-slate-800 text-white/50 hover:text-white'
+              }`}
+            >
+              {option ? CAR_CLASS_LABELS[option] : 'All classes'}
+            </button>
+          ))}
+        </div>
+
+        <p className="text-white/40 text-xs font-mono mb-4">
+          {track.laps} LAPS • TRACK RECORD {formatRaceTime(track.worldRecord)}
+        </p>
+
+        {loading ? (
+          <div className="text-center text-slate-500 py-20 font-mono">
+            <div className="animate-pulse">LOADING...</div>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="text-center text-slate-500 py-20 font-mono">
+            NO TIMES SET. BE THE FIRST.
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {entries.map((entry, index) => {
+              const isExpanded = expandedId === entry.id;
+              const isOwn = !!highlightSubmissionId && entry.client_submission_id === highlightSubmissionId;
+              const laps = readLaps(entry.lap_times);
+
+              return (
+                <div
+                  key={entry.id}
+                  className={`rounded-lg border transition-colors ${
+                    isOwn ? 'bg-orange-500/10 border-orange-400/60' : 'bg-slate-800/50 border-slate-700 hover:border-orange-400/40'
+                  }`}
+                >
+                  <button
+                    onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                    className="w-full flex items-center gap-4 p-3 text-left"
+                  >
+                    <div className={`w-8 h-8 flex items-center justify-center rounded-full font-bold shrink-0 ${
+                      index === 0 ? 'bg-gradient-to-br from-yellow-400 to-yellow-600 text-slate-900' :
+                      index === 1 ? 'bg-gradient-to-br from-slate-300 to-slate-500 text-slate-900' :
+                      index === 2 ? 'bg-gradient-to-br from-amber-600 to-amber-800 text-slate-900' :
+                      'bg-slate-700 text-slate-400'
+                    }`}>
+                      {index + 1}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="text-lg font-mono font-bold text-white truncate">{entry.name}</div>
+                      <div className="text-[10px] text-white/40 uppercase tracking-wider truncate">
+                        {entry.character_used && `${entry.character_used} • `}
+                        {/* Times from before car classes ran the stock grip car */}
+                        {describeCarSetup(readCarSetup(entry.car_setup ?? { carClass: entry.car_class }))}
+                      </div>
+                    </div>
+                    {entry.perfect_laps > 0 && (
+                      <div className="text-xs text-yellow-400">{'⭐'.repeat(entry.perfect_laps)}</div>
+                    )}
+                    <div className="text-right">
+                      <div className="text-xl font-mono font-bold text-orange-300">{formatRaceTime(entry.total_time)}</div>
+                      {index > 0 && best !== undefined && (
+                        <div className="text-[10px] font-mono text-white/40">+{(entry.total_time - best).toFixed(2)}s</div>
+                      )}
+                    </div>
+                    <span className="text-white/30 text-xs">{isExpanded ? '▲' : '▼'}</span>
+                  </button>
+
+                  {/* Lap breakdown */}
+                  {isExpanded && (
+                    <div className="px-4 pb-3 pt-1 border-t border-white/5 space-y-1">
+                      {laps.length === 0 ? (
+                        <div className="text-xs text-white/40 font-mono">No lap data</div>
+                      ) : laps.map((lap, lapIndex) => (
+                        <div key={lapIndex} className="flex items-center gap-4 text-xs font-mono">
+                          <span className="text-white/50 w-12">LAP {lap.lap}</span>
+                          <span className="text-white font-bold w-20">
+                            {lap.time.toFixed(2)}s {lap.isPerfect && '⭐'}
+                          </span>
+                          {lap.sectors.length > 0 && (
+                            <span className="text-white/40 truncate">
+                              {lap.sectors.map(sector => sector.toFixed(2)).join(' / ')}
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                      <div className="flex justify-between items-center pt-1">
+                        <span className="text-[10px] text-white/30">
+                          {new Date(entry.created_at).toLocaleDateString()}
+                        </span>
+                        {decodeGhost(entry.ghost_data).length > 0 && (
+                          <button
+                            onClick={() => setReplayEntryId(entry.id)}
+                            className="px-3 py-1 rounded-full bg-orange-500/80 hover:bg-orange-500 text-white text-xs font-bold"
+                          >
+                            ▶ WATCH REPLAY
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DriftLeaderboard;
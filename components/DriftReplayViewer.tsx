@@ -0,0 +1,384 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Track, GhostFrame } from '../lib/tracks';
+import { getTrackGeometry } from '../lib/trackGeometry';
+import { CAR_HEIGHT, CAR_WIDTH, MAX_SPEED } from '../lib/driftCar';
+import { decodeGhost, sampleGhost } from '../lib/ghost';
+import { getDriftRecord } from '../lib/saveProfile';
+import { leaderboardStore } from '../lib/stores';
+import {
+  MAX_REPLAY_GHOSTS,
+  REPLAY_GHOST_COLORS,
+  REPLAY_SPEEDS,
+  SpeedTracePoint,
+  getGhostDuration,
+  getSpeedTrace,
+  sampleSpeedTrace
+} from '../lib/driftReplay';
+
+interface DriftReplayViewerProps {
+  track: Track;
+  initialEntryId?: number | null; // Leaderboard run to load first, alongside the personal best
+  onBack: () => void;
+}
+
+// A stored run that can be played back
+interface ReplayGhost {
+  key: string;
+  label: string;
+  time: number;
+  frames: GhostFrame[];
+}
+
+const MAX_ENTRIES = 25;
+const CANVAS_WIDTH = 800;
+const CANVAS_HEIGHT = 500;
+const CHART_WIDTH = 800;
+const CHART_HEIGHT = 160;
+
+const DriftReplayViewer: React.FC<DriftReplayViewerProps> = ({ track, initialEntryId, onBack }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const geometry = getTrackGeometry(track);
+
+  const [ghosts, setGhosts] = useState<ReplayGhost[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [shownKeys, setShownKeys] = useState<string[]>([]); // Order sets each ghost's colour
+  const traceCacheRef = useRef<Map<string, SpeedTracePoint[]>>(new Map());
+
+  // Playback. The loop reads the ref; the controls and drawing read the state.
+  const [time, setTime] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const timeRef = useRef(0);
+
+  const shown = shownKeys
+    .map(key => ghosts.find(ghost => ghost.key === key))
+    .filter((ghost): ghost is ReplayGhost => !!ghost);
+  const duration = Math.max(0, ...shown.map(ghost => getGhostDuration(ghost.frames)));
+
+  const getTrace = (ghost: ReplayGhost) => {
+    let trace = traceCacheRef.current.get(ghost.key);
+    if (!trace) {
+      trace = getSpeedTrace(ghost.frames, geometry);
+      traceCacheRef.current.set(ghost.key, trace);
+    }
+    return trace;
+  };
+
+  // Personal best from the save profile, then every leaderboard run that kept its ghost
+  useEffect(() => {
+    let isMounted = true;
+    const loadGhosts = async () => {
+      const loaded: ReplayGhost[] = [];
+      const record = getDriftRecord(track.id);
+      const personalBest = record ? decodeGhost(record.ghost) : [];
+      if (personalBest.length > 0) {
+        loaded.push({ key: 'pb', label: 'Personal best', time: record!.bestTime, frames: personalBest });
+      }
+
+      try {
+        const entries = await leaderboardStore.fetchDriftLeaderboard(track.id);
+        entries.slice(0, MAX_ENTRIES).forEach((entry, index) => {
+          const frames = decodeGhost(entry.ghost_data);
+          if (frames.length > 0) {
+            loaded.push({ key: `entry-${entry.id}`, label: `${index + 1}. ${entry.name}`, time: entry.total_time, frames });
+          }
+        });
+      } catch (err) {
+        console.error('Failed to load leaderboard ghosts:', err);
+      }
+      if (!isMounted) return;
+
+      // Start on the requested run against the personal best, or the two quickest
+      const requested = loaded.find(ghost => ghost.key === `entry-${initialEntryId}`);
+      const initial = requested
+        ? [requested.key, ...(personalBest.length > 0 ? ['pb'] : [])]
+        : loaded.slice(0, 2).map(ghost => ghost.key);
+      setGhosts(loaded);
+      setShownKeys(initial);
+      setLoading(false);
+    };
+
+    loadGhosts();
+    return () => { isMounted = false; };
+  }, [track.id, initialEntryId]);
+
+  const seek = (value: number) => {
+    timeRef.current = Math.max(0, Math.min(duration, value));
+    setTime(timeRef.current);
+  };
+
+  const togglePlaying = () => {
+    // Playing from the end starts over
+    if (!playing && timeRef.current >= duration) seek(0);
+    setPlaying(!playing);
+  };
+
+  const toggleGhost = (key: string) => {
+    if (shownKeys.includes(key)) {
+      setShownKeys(shownKeys.filter(shownKey => shownKey !== key));
+    } else if (shownKeys.length < MAX_REPLAY_GHOSTS) {
+      setShownKeys([...shownKeys, key]);
+    }
+  };
+
+  // Advance the playhead in real time, scaled by the playback speed
+  useEffect(() => {
+    if (!playing) return;
+    let frame: number;
+    let lastFrame = performance.now();
+    const tick = (now: number) => {
+      timeRef.current = Math.min(duration, timeRef.current + (now - lastFrame) / 1000 * speed);
+      lastFrame = now;
+      setTime(timeRef.current);
+      if (timeRef.current >= duration) {
+        setPlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, speed, duration]);
+
+  // Space plays and pauses, arrows step a second
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === ' ') {
+        e.preventDefault();
+        togglePlaying();
+      } else if (e.key === 'ArrowLeft') {
+        seek(timeRef.current - 1);
+      } else if (e.key === 'ArrowRight') {
+        seek(timeRef.current + 1);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Whole track from above with every shown ghost at the playhead
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const scale = Math.min(canvas.width / track.width, canvas.height / track.height);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = track.colors.background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.translate((canvas.width - track.width * scale) / 2, (canvas.height - track.height * scale) / 2);
+    ctx.scale(scale, scale);
+
+    // Road along the centerline
+    ctx.beginPath();
+    geometry.samples.forEach((sample, index) => {
+      if (index === 0) {
+        ctx.moveTo(sample.x, sample.y);
+      } else {
+        ctx.lineTo(sample.x, sample.y);
+      }
+    });
+    ctx.closePath();
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = track.colors.accent + '80';
+    ctx.lineWidth = geometry.roadWidth + 4;
+    ctx.stroke();
+    ctx.strokeStyle = track.colors.track;
+    ctx.lineWidth = geometry.roadWidth;
+    ctx.stroke();
+
+    // Start/finish line
+    const start = geometry.samples[0];
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = 6;
+    ctx.beginPath();
+    ctx.moveTo(start.x + start.tangentY * geometry.roadWidth / 2, start.y - start.tangentX * geometry.roadWidth / 2);
+    ctx.lineTo(start.x - start.tangentY * geometry.roadWidth / 2, start.y + start.tangentX * geometry.roadWidth / 2);
+    ctx.stroke();
+
+    shown.forEach((ghost, slot) => {
+      const color = REPLAY_GHOST_COLORS[slot];
+
+      // Trail over the last two seconds
+      ctx.strokeStyle = color + '80';
+      ctx.lineWidth = 4;
+      ctx.beginPath();
+      ghost.frames
+        .filter(frame => frame.timestamp > time - 2 && frame.timestamp <= time)
+        .forEach((frame, index) => index === 0 ? ctx.moveTo(frame.x, frame.y) : ctx.lineTo(frame.x, frame.y));
+      ctx.stroke();
+
+      // Cars that have finished wait on the line; ones yet to start sit on the grid
+      const frame = sampleGhost(ghost.frames, time) ?? (time <= 0 ? ghost.frames[0] : ghost.frames[ghost.frames.length - 1]);
+      ctx.save();
+      ctx.translate(frame.x, frame.y);
+      ctx.rotate(frame.angle);
+      ctx.fillStyle = color;
+      ctx.fillRect(-CAR_WIDTH / 2, -CAR_HEIGHT / 2, CAR_WIDTH, CAR_HEIGHT);
+      ctx.restore();
+
+      ctx.fillStyle = color;
+      ctx.font = `bold ${Math.round(14 / scale)}px monospace`;
+      ctx.textAlign = 'center';
+      ctx.fillText(ghost.label, frame.x, frame.y - CAR_HEIGHT / 2 - 8);
+    });
+  }, [time, shownKeys, ghosts, track.id]);
+
+  // Speed traces against race distance, scaled to the longest shown run
+  const traces = shown.map(ghost => getTrace(ghost));
+  const maxDistance = Math.max(1, ...traces.map(trace => trace[trace.length - 1]?.distance ?? 0));
+  const maxSpeed = Math.max(1, ...traces.flatMap(trace => trace.map(point => point.speed))) * 1.1;
+  const chartX = (distance: number) => (distance / maxDistance) * CHART_WIDTH;
+  const chartY = (speed: number) => CHART_HEIGHT - (speed / maxSpeed) * CHART_HEIGHT;
+  const lapLines = Array.from({ length: Math.max(0, Math.floor(maxDistance / geometry.length)) }, (_, index) => (index + 1) * geometry.length);
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center bg-slate-900 z-30 overflow-y-auto py-8 px-4">
+      <div className="w-full max-w-4xl">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-4xl font-black text-transparent bg-clip-text bg-gradient-to-r from-orange-300 via-yellow-400 to-orange-300">
+              REPLAY
+            </h2>
+            <p className="text-white/40 text-xs font-mono">{track.name.toUpperCase()} • {track.laps} LAPS</p>
+          </div>
+          <button
+            onClick={onBack}
+            className="text-slate-400 hover:text-white font-bold uppercase tracking-wider text-sm border border-slate-600 px-4 py-2 rounded hover:bg-slate-800 transition-colors"
+          >
+            Back
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="text-center text-slate-500 py-20 font-mono">
+            <div className="animate-pulse">LOADING...</div>
+          </div>
+        ) : ghosts.length === 0 ? (
+          <div className="text-center text-slate-500 py-20 font-mono">
+            NO GHOSTS ON THIS TRACK YET. SET A TIME FIRST.
+          </div>
+        ) : (
+          <>
+            <canvas
+              ref={canvasRef}
+              width={CANVAS_WIDTH}
+              height={CANVAS_HEIGHT}
+              className="w-full rounded-lg border border-slate-700 mb-3"
+            />
+
+            {/* Transport */}
+            <div className="flex items-center gap-3 mb-4">
+              <button
+                onClick={togglePlaying}
+                disabled={shown.length === 0}
+                className="w-12 h-10 rounded-lg bg-orange-500 text-white font-black disabled:opacity-40"
+              >
+                {playing ? '❚❚' : '▶'}
+              </button>
+              <input
+                type="range"
+                min={0}
+                max={duration}
+                step={0.01}
+                value={time}
+                onChange={(e) => seek(Number(e.target.value))}
+                className="flex-1 accent-orange-500"
+              />
+              <span className="text-white font-mono text-sm w-32 text-right">
+                {time.toFixed(2)}s / {duration.toFixed(2)}s
+              </span>
+              <div className="flex gap-1">
+                {REPLAY_SPEEDS.map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setSpeed(option)}
+                    className={`px-2 py-1 rounded text-xs font-bold font-mono ${
+                      option === speed ? 'bg-orange-500 text-white' : 'bg-slate-800 text-white/50 hover:text-white'
+                    }`}
+                  >
+                    {option}x
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Speed traces */}
+            <div className="rounded-lg bg-slate-800/50 border border-slate-700 p-3 mb-4">
+              <div className="flex justify-between text-[10px] text-white/40 uppercase tracking-wider mb-1">
+                <span>Speed</span>
+                <span>Distance round the race →</span>
+              </div>
+              <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-40">
+                {lapLines.map(distance => (
+                  <line key={distance} x1={chartX(distance)} x2={chartX(distance)} y1={0} y2={CHART_HEIGHT} stroke="#ffffff30" strokeDasharray="4 4" />
+                ))}
+                {traces.map((trace, slot) => (
+                  <polyline
+                    key={shown[slot].key}
+                    points={trace.map(point => `${chartX(point.distance)},${chartY(point.speed)}`).join(' ')}
+                    fill="none"
+                    stroke={REPLAY_GHOST_COLORS[slot]}
+                    strokeWidth={2}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                ))}
+                {traces.map((trace, slot) => {
+                  const point = sampleSpeedTrace(trace, time);
+                  return point && (
+                    <line
+                      key={shown[slot].key}
+                      x1={chartX(point.distance)}
+                      x2={chartX(point.distance)}
+                      y1={0}
+                      y2={CHART_HEIGHT}
+                      stroke={REPLAY_GHOST_COLORS[slot]}
+                      strokeWidth={1}
+                      vectorEffect="non-scaling-stroke"
+                    />
+                  );
+                })}
+              </svg>
+            </div>
+
+            {/* Ghost picker */}
+            <div className="text-white/60 text-xs font-bold uppercase tracking-wider mb-2">
+              Ghosts ({shown.length}/{MAX_REPLAY_GHOSTS})
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {ghosts.map(ghost => {
+                const slot = shownKeys.indexOf(ghost.key);
+                const point = slot >= 0 ? sampleSpeedTrace(getTrace(ghost), time) : null;
+                const isFull = slot < 0 && shownKeys.length >= MAX_REPLAY_GHOSTS;
+                return (
+                  <button
+                    key={ghost.key}
+                    onClick={() => toggleGhost(ghost.key)}
+                    disabled={isFull}
+                    className={`flex items-center gap-3 p-2 rounded-lg border text-left transition-colors disabled:opacity-40 ${
+                      slot >= 0 ? 'bg-slate-700/70' : 'bg-slate-800/50 border-slate-700 hover:border-white/30'
+                    }`}
+                    style={{ borderColor: slot >= 0 ? REPLAY_GHOST_COLORS[slot] : undefined }}
+                  >
+                    <span
+                      className="w-3 h-3 rounded-full shrink-0 border border-white/30"
+                      style={{ backgroundColor: slot >= 0 ? REPLAY_GHOST_COLORS[slot] : 'transparent' }}
+                    />
+                    <span className="flex-1 text-white font-mono font-bold truncate">{ghost.label}</span>
+                    {/* Speed at the playhead, against the grip car's top speed */}
+                    {point && (
+                      <span className="text-xs font-mono text-white/50">{Math.round(point.speed / MAX_SPEED * 100)}%</span>
+                    )}
+                    <span className="text-orange-300 font-mono font-bold">{ghost.time.toFixed(2)}s</span>
+                  </button>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DriftReplayViewer;
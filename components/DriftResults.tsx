@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import { Track, GhostFrame, parseGeneratedTrackId } from '../lib/tracks';
+import { LapTime } from '../lib/lapTimer';
+import { encodeGhost } from '../lib/ghost';
+import { isCustomTrack } from '../lib/trackEditor';
+import { SubmissionStatus, createSubmissionId, submitScore } from '../lib/submissionOutbox';
+import { formatSeed } from '../lib/rng';
+import { CarSetup, describeCarSetup } from '../lib/driftCar';
+import { DriftMedal, MEDAL_COLORS, MEDAL_ICONS, MEDAL_LABELS, getMedalTime, getNextMedal } from '../lib/driftMedals';
+import { ChampionshipRound, PLAYER_DRIVER_ID } from '../lib/driftChampionship';
+import { Character } from '../types';
+import DriftLeaderboard from './DriftLeaderboard';
+
+interface DriftResultsProps {
+  track: Track;
+  character: Character;
+  totalTime: number;
+  laps: LapTime[];
+  ghost: GhostFrame[]; // Recording of this run, uploaded with the time
+  previousBest: number | null; // Personal best before this run
+  position: number | null; // Finishing position against CPU cars, null when racing alone
+  fieldSize: number;
+  setup: CarSetup; // Car the run was set in, submitted with the time
+  medal: DriftMedal | null; // Earned by this run
+  isNewMedal: boolean; // Better than any medal held before on this track
+  championshipRound?: ChampionshipRound | null; // Scored round, when the race was part of a championship
+  onRaceAgain: () => void;
+  onTrackSelect: () => void;
+}
+
+const DriftResults: React.FC<DriftResultsProps> = ({
+  track,
+  character,
+  totalTime,
+  laps,
+  ghost,
+  previousBest,
+  position,
+  fieldSize,
+  setup,
+  medal,
+  isNewMedal,
+  championshipRound,
+  onRaceAgain,
+  onTrackSelect,
+}) => {
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [submissionId, setSubmissionId] = useState<string | null>(null);
+  const [uploadStatus, setUploadStatus] = useState<SubmissionStatus>('sent');
+  const [showLeaderboard, setShowLeaderboard] = useState(false);
+
+  const isPersonalBest = previousBest === null || totalTime < previousBest;
+  // The leaderboard server only knows the built-in and generated tracks
+  const isRanked = !isCustomTrack(track);
+  const generated = parseGeneratedTrackId(track.id);
+  const perfectLaps = laps.filter(lap => lap.isPerfect).length;
+  const bestLap = laps.length > 0 ? Math.min(...laps.map(lap => lap.time)) : null;
+  const nextMedal = getNextMedal(medal);
+  const championshipPoints = championshipRound?.results.find(result => result.driverId === PLAYER_DRIVER_ID)?.points ?? 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || saving || submissionId) return;
+
+    setSaving(true);
+    const id = createSubmissionId();
+
+    // Failed uploads go to the outbox and are retried later
+    const status = await submitScore('drift', {
+      name: name.toUpperCase().slice(0, 5),
+      character_used: character.name,
+      track_id: track.id,
+      total_time: totalTime,
+      lap_times: laps,
+      perfect_laps: perfectLaps,
+      ghost_data: encodeGhost(ghost),
+      car_class: setup.carClass,
+      car_setup: setup,
+      client_submission_id: id
+    });
+    setUploadStatus(status);
+    setSubmissionId(id);
+    setSaving(false);
+  };
+
+  if (showLeaderboard) {
+    return (
+      <DriftLeaderboard
+        initialTrackId={track.id}
+        highlightSubmissionId={submissionId}
+        onBack={() => setShowLeaderboard(false)}
+      />
+    );
+  }
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center z-20 bg-black/70 backdrop-blur-sm p-6">
+      <div className="bg-slate-800 rounded-2xl p-8 border-2 border-cyan-500/50 w-full max-w-lg">
+        <h2 className="text-4xl font-black text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-blue-400 mb-1">
+          {position === 1 ? 'VICTORY!' : 'RACE COMPLETE!'}
+        </h2>
+        {position !== null && (
+          <div className={`text-2xl font-black font-mono ${position === 1 ? 'text-yellow-400' : 'text-white/80'}`}>
+            FINISHED P{position} OF {fieldSize}
+          </div>
+        )}
+        <p className="text-white/50 text-sm mb-6">
+          {track.name}
+          {generated && (
+            <span className="ml-2 font-mono text-xs text-orange-300">SEED #{formatSeed(generated.seed)} • {generated.difficulty.toUpperCase()}</span>
+          )}
+          <span className="ml-2 font-mono text-xs text-white/40">{describeCarSetup(setup)}</span>
+        </p>
+
+        {/* Total time */}
+        <div className="flex items-end justify-between mb-6">
+          <div>
+            <div className="text-white/60 text-xs uppercase tracking-wider">Total</div>
+            <div className="text-5xl font-mono font-bold text-white">{totalTime.toFixed(2)}s</div>
+          </div>
+          <div className="text-right">
+            {isPersonalBest ? (
+              <div className="text-green-400 font-bold text-sm animate-pulse">NEW PERSONAL BEST!</div>
+            ) : (
+              <div className="text-red-400 font-mono text-sm">+{(totalTime - previousBest).toFixed(2)}s PB</div>
+            )}
+            {previousBest !== null && isPersonalBest && (
+              <div className="text-green-400/70 font-mono text-xs">-{(previousBest - totalTime).toFixed(2)}s</div>
+            )}
+            <div className="text-white/40 font-mono text-xs mt-1">WR {track.worldRecord.toFixed(2)}s</div>
+          </div>
+        </div>
+
+        {/* Medal */}
+        <div className="flex items-center justify-between mb-6 px-4 py-3 rounded-xl bg-slate-900/60 border border-white/10">
+          {medal ? (
+            <div className="flex items-center gap-3">
+              <span className="text-3xl">{MEDAL_ICONS[medal]}</span>
+              <div>
+                <div className="font-black uppercase" style={{ color: MEDAL_COLORS[medal] }}>{MEDAL_LABELS[medal]} medal</div>
+                {isNewMedal && <div className="text-green-400 text-xs font-bold animate-pulse">NEW MEDAL!</div>}
+              </div>
+            </div>
+          ) : (
+            <div className="text-white/50 text-sm font-bold">NO MEDAL</div>
+          )}
+          {nextMedal && (
+            <div className="text-right font-mono text-xs text-white/60">
+              <div>{MEDAL_ICONS[nextMedal]} {MEDAL_LABELS[nextMedal].toUpperCase()} {getMedalTime(track, nextMedal).toFixed(2)}s</div>
+              <div className="text-red-400">+{(totalTime - getMedalTime(track, nextMedal)).toFixed(2)}s</div>
+            </div>
+          )}
+        </div>
+
+        {/* Championship points */}
+        {championshipRound && (
+          <div className="flex items-center justify-between mb-6 px-4 py-3 rounded-xl bg-orange-500/10 border border-orange-400/40">
+            <div className="text-orange-300 font-black uppercase">🏆 Championship</div>
+            <div className="font-mono font-bold text-white text-xl">+{championshipPoints} PTS</div>
+          </div>
+        )}
+
+        {/* Lap breakdown */}
+        <div className="space-y-2 mb-6">
+          {laps.map((lap) => (
+            <div key={lap.lap} className="flex justify-between items-center text-white">
+              <span className="text-white/60">Lap {lap.lap}:</span>
+              <span className={`font-mono font-bold ${lap.time === bestLap ? 'text-purple-300' : ''}`}>
+                {lap.time.toFixed(2)}s {lap.isPerfect && '⭐'}
+              </span>
+              <span className="font-mono text-[10px] text-white/40 ml-4">
+                {lap.sectors.map(sector => sector.toFixed(2)).join(' / ')}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {/* Name entry */}
+        {!isRanked ? (
+          <div className="mb-6 font-mono text-sm text-white/50">
+            [ CUSTOM TRACK - TIMES ARE KEPT ON THIS DEVICE ONLY ]
+          </div>
+        ) : !submissionId ? (
+          <form onSubmit={handleSubmit} className="mb-6">
+            <label className="block text-sm text-white/60 mb-2">SUBMIT TO THE LEADERBOARD (MAX 5)</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                maxLength={5}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="flex-1 bg-slate-900 border-2 border-cyan-600 rounded-lg p-3 text-center font-mono text-2xl text-white uppercase tracking-widest focus:outline-none focus:border-cyan-400"
+                placeholder="NAME"
+                autoFocus
+              />
+              <button
+                type="submit"
+                disabled={name.length < 1 || saving}
+                className="bg-cyan-600 text-white px-6 rounded-lg font-bold disabled:opacity-50 disabled:cursor-not-allowed hover:bg-cyan-500 transition-colors"
+              >
+                {saving ? '...' : 'GO'}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <div className={`mb-6 font-mono text-sm ${uploadStatus === 'sent' ? 'text-green-400' : uploadStatus === 'queued' ? 'text-amber-400' : 'text-red-400'}`}>
+            {uploadStatus === 'sent' && '[ TIME UPLOADED TO GLOBAL LEADERBOARD ]'}
+            {uploadStatus === 'queued' && '[ OFFLINE - TIME QUEUED, WILL UPLOAD WHEN ONLINE ]'}
+            {uploadStatus === 'rejected' && '[ TIME REJECTED BY LEADERBOARD SERVER ]'}
+          </div>
+        )}
+
+        <div className="flex gap-4">
+          {/* A championship round counts once, so there's no racing it again */}
+          {!championshipRound && (
+            <button
+              onClick={onRaceAgain}
+              className="px-6 py-3 rounded-xl bg-gradient-to-r from-cyan-600 to-blue-600 text-white font-bold"
+            >
+              Race Again
+            </button>
+          )}
+          {isRanked && (
+            <button
+              onClick={() => setShowLeaderboard(true)}
+              className="px-6 py-3 rounded-xl bg-slate-700 text-orange-300 font-bold"
+            >
+              Leaderboard
+            </button>
+          )}
+          <button
+            onClick={onTrackSelect}
+            className={`px-6 py-3 rounded-xl text-white font-bold ${
+              championshipRound ? 'bg-gradient-to-r from-orange-500 to-yellow-500' : 'bg-slate-700'
+            }`}
+          >
+            {championshipRound ? 'Standings' : 'Track Select'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DriftResults;
@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { Track, TRACKS } from '../lib/tracks';
+import { AI_SKILL_LABELS, DriftOpponentSettings } from '../lib/driftAI';
+import {
+  DriftChampionship,
+  PLAYER_DRIVER_ID,
+  createChampionship,
+  describeScoring,
+  getNextRoundTrack,
+  getRivalCharacters,
+  getStandings,
+  isChampionshipOver
+} from '../lib/driftChampionship';
+import { getDriftChampionship, saveDriftChampionship } from '../lib/saveProfile';
+import { Character } from '../types';
+
+interface DriftStandingsProps {
+  selectedCharacter: Character;
+  opponents: DriftOpponentSettings; // Field for a new championship, as set on track selection
+  onRaceRound: (track: Track) => void;
+  onBack: () => void;
+}
+
+const ordinal = (position: number) => {
+  const suffix = position % 100 >= 11 && position % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][position % 10] ?? 'th';
+  return `${position}${suffix}`;
+};
+
+const DriftStandings: React.FC<DriftStandingsProps> = ({ selectedCharacter, opponents, onRaceRound, onBack }) => {
+  const [championship, setChampionship] = useState<DriftChampionship | null>(getDriftChampionship);
+
+  const startChampionship = () => {
+    const created = createChampionship(opponents, selectedCharacter.id);
+    saveDriftChampionship(created);
+    setChampionship(created);
+  };
+
+  const abandonChampionship = () => {
+    if (!window.confirm('Abandon this championship? Its results are lost.')) return;
+    saveDriftChampionship(null);
+    setChampionship(null);
+  };
+
+  const renderStart = () => (
+    <div className="max-w-xl w-full p-6 rounded-2xl bg-slate-800/50 border border-white/10 text-center">
+      <p className="text-white/70 mb-4">
+        Race all {TRACKS.length} circuits back to back. The same rivals line up every round and the most points takes the cup.
+      </p>
+      <p className="text-white/50 text-sm font-mono mb-6">
+        {opponents.count > 0
+          ? `${opponents.count} CPU ${opponents.count === 1 ? 'RIVAL' : 'RIVALS'} • ${AI_SKILL_LABELS[opponents.skill].toUpperCase()}`
+          : 'SOLO • POINTS BY MEDAL'}
+      </p>
+      <button
+        onClick={startChampionship}
+        className="px-10 py-3 rounded-full bg-gradient-to-r from-orange-500 to-yellow-500 text-white font-black text-lg hover:scale-105 active:scale-95 transition-transform"
+      >
+        START CHAMPIONSHIP
+      </button>
+      <p className="text-white/30 text-[10px] font-mono mt-4">Change the CPU cars on track selection before starting</p>
+    </div>
+  );
+
+  const renderChampionship = (current: DriftChampionship) => {
+    const rivals = getRivalCharacters(current);
+    const standings = getStandings(current);
+    const nextTrack = getNextRoundTrack(current);
+    const isOver = isChampionshipOver(current);
+    const playerPosition = standings.findIndex(standing => standing.driverId === PLAYER_DRIVER_ID) + 1;
+    const driverOf = (driverId: string) => driverId === PLAYER_DRIVER_ID
+      ? { name: selectedCharacter.name, color: selectedCharacter.color }
+      : rivals.find(rival => rival.id === driverId) ?? { name: driverId, color: '#64748b' };
+
+    return (
+      <div className="max-w-3xl w-full space-y-6">
+        {isOver && (
+          <div className="p-4 rounded-2xl bg-orange-500/10 border border-orange-400/50 text-center">
+            <div className="text-3xl font-black text-yellow-400">
+              {playerPosition === 1 ? '🏆 CHAMPION!' : `FINISHED ${ordinal(playerPosition).toUpperCase()}`}
+            </div>
+            <div className="text-white/60 text-sm">Final standings after {current.rounds.length} rounds</div>
+          </div>
+        )}
+
+        {/* Rounds */}
+        <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${current.trackIds.length}, minmax(0, 1fr))` }}>
+          {current.trackIds.map((trackId, index) => {
+            const track = TRACKS.find(t => t.id === trackId);
+            const round = current.rounds[index];
+            const playerIndex = round?.results.findIndex(result => result.driverId === PLAYER_DRIVER_ID) ?? -1;
+            const isNext = index === current.rounds.length;
+            return (
+              <div
+                key={trackId}
+                className={`p-3 rounded-xl border text-center ${
+                  isNext ? 'bg-slate-700/70 border-orange-400' : 'bg-slate-800/50 border-white/10'
+                }`}
+              >
+                <div className="text-[10px] text-white/40 uppercase tracking-wider">Round {index + 1}</div>
+                <div className="text-sm font-bold truncate" style={{ color: track?.colors.primary }}>{track?.name ?? trackId}</div>
+                <div className="text-xs font-mono text-white/60 mt-1">
+                  {round && playerIndex >= 0
+                    ? `${round.results.length > 1 ? `${ordinal(playerIndex + 1)} • ` : ''}+${round.results[playerIndex].points}`
+                    : isNext ? 'NEXT' : '—'}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Standings */}
+        <div className="rounded-2xl bg-slate-800/50 border border-white/10 overflow-hidden">
+          <div className="flex px-4 py-2 text-[10px] text-white/40 uppercase tracking-wider border-b border-white/10">
+            <span className="w-10">Pos</span>
+            <span className="flex-1">Driver</span>
+            <span className="w-14 text-right">Wins</span>
+            <span className="w-16 text-right">Points</span>
+          </div>
+          {standings.map((standing, index) => {
+            const driver = driverOf(standing.driverId);
+            const isPlayer = standing.driverId === PLAYER_DRIVER_ID;
+            return (
+              <div
+                key={standing.driverId}
+                className={`flex items-center px-4 py-2 font-mono ${isPlayer ? 'bg-orange-500/10' : ''}`}
+              >
+                <span className="w-10 font-bold text-white/70">{index + 1}</span>
+                <span className="flex-1 flex items-center gap-2 min-w-0">
+                  <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: driver.color }} />
+                  <span className={`truncate font-bold ${isPlayer ? 'text-orange-300' : 'text-white'}`}>
+                    {driver.name}{isPlayer && ' (YOU)'}
+                  </span>
+                </span>
+                <span className="w-14 text-right text-white/60">{standing.wins}</span>
+                <span className="w-16 text-right text-white font-bold">{standing.points}</span>
+              </div>
+            );
+          })}
+        </div>
+
+        <p className="text-white/40 text-xs font-mono text-center">
+          {describeScoring(current)}
+          {current.rivalIds.length > 0 && ` • ${AI_SKILL_LABELS[current.skill].toUpperCase()} RIVALS`}
+        </p>
+
+        <div className="flex justify-center gap-4">
+          {nextTrack ? (
+            <button
+              onClick={() => onRaceRound(nextTrack)}
+              className="px-8 py-3 rounded-full bg-gradient-to-r from-orange-500 to-yellow-500 text-white font-black hover:scale-105 active:scale-95 transition-transform"
+            >
+              RACE ROUND {current.rounds.length + 1}: {nextTrack.name.toUpperCase()}
+            </button>
+          ) : (
+            <button
+              onClick={startChampionship}
+              className="px-8 py-3 rounded-full bg-gradient-to-r from-orange-500 to-yellow-500 text-white font-black hover:scale-105 active:scale-95 transition-transform"
+            >
+              NEW CHAMPIONSHIP
+            </button>
+          )}
+          {!isOver && (
+            <button
+              onClick={abandonChampionship}
+              className="px-6 py-3 rounded-full bg-slate-700 text-white/70 hover:text-white font-bold"
+            >
+              ABANDON
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center z-10 p-6 bg-gradient-to-br from-slate-900 via-slate-900 to-orange-900/20 overflow-y-auto">
+      <button
+        onClick={onBack}
+        className="absolute top-6 left-6 px-4 py-2 rounded-full bg-slate-800/80 border border-white/20 text-white/80 hover:text-white hover:border-white/40 transition-all backdrop-blur-md"
+      >
+        ← BACK
+      </button>
+
+      <div className="relative mb-8 text-center">
+        <h1 className="text-5xl md:text-6xl font-black mb-2 tracking-tight drop-shadow-2xl select-none">
+          <span className="text-transparent bg-clip-text bg-gradient-to-r from-orange-300 via-yellow-400 to-orange-300">
+            CHAMPIONSHIP
+          </span>
+        </h1>
+        {championship && (
+          <p className="text-white/60 text-sm">
+            {isChampionshipOver(championship)
+              ? 'Complete'
+              : `Round ${championship.rounds.length + 1} of ${championship.trackIds.length}`}
+          </p>
+        )}
+      </div>
+
+      {championship ? renderChampionship(championship) : renderStart()}
+    </div>
+  );
+};
+
+export default DriftStandings;
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { Track } from '../lib/tracks';
+import {
+  CarClass,
+  CarSetup,
+  CarSpec,
+  CAR_CLASSES,
+  CAR_CLASS_DESCRIPTIONS,
+  CAR_CLASS_LABELS,
+  DEFAULT_SETUP,
+  TUNING_RANGE,
+  TUNING_SLIDERS,
+  TuningSlider,
+  getCarSpec
+} from '../lib/driftCar';
+import { saveDriftSetup } from '../lib/saveProfile';
+
+interface DriftTuningProps {
+  track: Track;
+  initialSetup: CarSetup; // Last setup raced on this track
+  onStart: (setup: CarSetup) => void;
+  onBack: () => void;
+}
+
+const CLASS_ICONS: Record<CarClass, string> = {
+  grip: '🏎️',
+  drift: '💨',
+  heavy: '🚚'
+};
+
+// What each slider trades, low end first
+const SLIDER_INFO: Record<TuningSlider, { label: string; low: string; high: string }> = {
+  steering: { label: 'Steering', low: 'Stable', high: 'Quick' },
+  grip: { label: 'Grip', low: 'Loose', high: 'Grippy' },
+  boost: { label: 'Boost', low: 'Long', high: 'Hard' }
+};
+
+// Stat bars, each scaled between the weakest and strongest any setup can reach
+const STATS: { label: string; value: (spec: CarSpec) => number; min: number; max: number }[] = [
+  { label: 'Top speed', value: spec => spec.maxSpeed, min: 10.5, max: 13.5 },
+  { label: 'Acceleration', value: spec => spec.acceleration, min: 0.3, max: 0.55 },
+  { label: 'Steering', value: spec => spec.turnSpeed, min: 0.05, max: 0.1 },
+  { label: 'Drift angle', value: spec => spec.driftTurnSpeed, min: 0.08, max: 0.2 },
+  { label: 'Drift speed', value: spec => spec.driftSpeedMultiplier, min: 0.7, max: 1 },
+  { label: 'Boost power', value: spec => spec.boostSpeedMultiplier, min: 1.2, max: 1.7 },
+  { label: 'Boost length', value: spec => spec.boostFrames, min: 50, max: 160 }
+];
+
+const DriftTuning: React.FC<DriftTuningProps> = ({ track, initialSetup, onStart, onBack }) => {
+  const [setup, setSetup] = useState<CarSetup>(initialSetup);
+  const spec = getCarSpec(setup);
+  const stockSpec = getCarSpec({ ...DEFAULT_SETUP, carClass: setup.carClass });
+  const isStock = TUNING_SLIDERS.every(slider => setup[slider] === 0);
+
+  const handleStart = () => {
+    saveDriftSetup(track.id, setup);
+    onStart(setup);
+  };
+
+  const barWidth = (stat: typeof STATS[number], value: number) =>
+    `${Math.max(4, Math.min(100, ((value - stat.min) / (stat.max - stat.min)) * 100))}%`;
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center z-10 p-6 bg-gradient-to-br from-slate-900 via-slate-900 to-orange-900/20 overflow-y-auto">
+      <button
+        onClick={onBack}
+        className="absolute top-6 left-6 px-4 py-2 rounded-full bg-slate-800/80 border border-white/20 text-white/80 hover:text-white hover:border-white/40 transition-all backdrop-blur-md"
+      >
+        ← BACK
+      </button>
+
+      <div className="relative mb-6 text-center">
+        <h1 className="text-5xl md:text-6xl font-black mb-2 tracking-tight drop-shadow-2xl select-none">
+          <span className="text-transparent bg-clip-text bg-gradient-to-r from-orange-300 via-yellow-400 to-orange-300">
+            GARAGE
+          </span>
+        </h1>
+        <p className="text-white/60 text-sm">
+          Setup for <span className="font-bold" style={{ color: track.colors.primary }}>{track.name}</span>
+        </p>
+      </div>
+
+      {/* Car class */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 max-w-4xl w-full mb-6">
+        {CAR_CLASSES.map(carClass => (
+          <button
+            key={carClass}
+            onClick={() => setSetup({ ...setup, carClass })}
+            className={`p-4 rounded-2xl border-2 text-center transition-all ${
+              carClass === setup.carClass
+                ? 'bg-slate-700/70 border-orange-400'
+                : 'bg-slate-800/50 border-white/10 hover:border-white/30'
+            }`}
+          >
+            <div className="text-3xl mb-1">{CLASS_ICONS[carClass]}</div>
+            <div className="text-lg font-black text-white uppercase">{CAR_CLASS_LABELS[carClass]}</div>
+            <div className="text-xs text-white/60 mt-1">{CAR_CLASS_DESCRIPTIONS[carClass]}</div>
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 max-w-4xl w-full">
+        {/* Tuning sliders */}
+        <div className="p-5 rounded-2xl bg-slate-800/50 border border-white/10 space-y-5">
+          <div className="flex justify-between items-center">
+            <span className="text-white/60 text-xs font-bold uppercase tracking-wider">🔧 Tuning</span>
+            <button
+              onClick={() => setSetup({ ...DEFAULT_SETUP, carClass: setup.carClass })}
+              disabled={isStock}
+              className="px-3 py-1 rounded-full bg-slate-700 text-white/70 hover:text-white text-xs font-bold disabled:opacity-40"
+            >
+              RESET
+            </button>
+          </div>
+          {TUNING_SLIDERS.map(slider => (
+            <div key={slider}>
+              <div className="flex justify-between text-sm mb-1">
+                <span className="text-white font-bold">{SLIDER_INFO[slider].label}</span>
+                <span className="font-mono text-orange-300">{setup[slider] > 0 ? `+${setup[slider]}` : setup[slider]}</span>
+              </div>
+              <input
+                type="range"
+                min={-TUNING_RANGE}
+                max={TUNING_RANGE}
+                step={1}
+                value={setup[slider]}
+                onChange={(e) => setSetup({ ...setup, [slider]: Number(e.target.value) })}
+                className="w-full accent-orange-500"
+              />
+              <div className="flex justify-between text-[10px] text-white/40 uppercase">
+                <span>{SLIDER_INFO[slider].low}</span>
+                <span>{SLIDER_INFO[slider].high}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Resulting handling, against the stock car of the class */}
+        <div className="p-5 rounded-2xl bg-slate-800/50 border border-white/10 space-y-2">
+          <span className="text-white/60 text-xs font-bold uppercase tracking-wider">📊 Handling</span>
+          {STATS.map(stat => {
+            const value = stat.value(spec);
+            const stockValue = stat.value(stockSpec);
+            return (
+              <div key={stat.label}>
+                <div className="text-[10px] text-white/60 uppercase mb-0.5">{stat.label}</div>
+                <div className="relative h-2 rounded-full bg-slate-900">
+                  <div
+                    className={`absolute inset-y-0 left-0 rounded-full ${
+                      value > stockValue ? 'bg-green-400' : value < stockValue ? 'bg-red-400' : 'bg-orange-400'
+                    }`}
+                    style={{ width: barWidth(stat, value) }}
+                  />
+                  <div className="absolute inset-y-0 w-0.5 bg-white/70" style={{ left: barWidth(stat, stockValue) }} />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <button
+        onClick={handleStart}
+        className="mt-8 px-10 py-3 rounded-full bg-gradient-to-r from-orange-500 to-yellow-500 text-white font-black text-lg hover:scale-105 active:scale-95 transition-transform"
+      >
+        RACE
+      </button>
+    </div>
+  );
+};
+
+export default DriftTuning;
@@ -1,32 +1,28 @@
 
 import React, { useRef, useEffect, useCallback } from 'react';
-import { GameState, Entity, Particle, Decor, ThemeConfig, EntityType, Character } from '../types';
+import { GameState, Particle, Decor, ThemeConfig, Character } from '../types';
 import { 
   CANVAS_WIDTH, 
   CANVAS_HEIGHT, 
   LANE_COUNT, 
   LANE_HEIGHT, 
   PLAYER_SIZE, 
-  OBSTACLE_SIZE, 
-  COIN_SIZE, 
-  POWERUP_SIZE,
-  INITIAL_SPEED, 
-  MAX_SPEED, 
-  SPEED_INCREMENT,
-  LANE_TRANSITION_SPEED,
-  LEVEL_SCORE_THRESHOLD,
-  DAY_NIGHT_CYCLE_FRAMES,
-  CHARACTERS
+  DAY_NIGHT_CYCLE_FRAMES
 } from '../constants';
+import { RacingSimulation, RacingAction, COMBO_DURATION_FRAMES } from '../lib/racingSimulation';
+import { RacingReplay, ReplayInput, REPLAY_VERSION, indexInputsByFrame } from '../lib/replay';
 
 interface GameCanvasProps {
   gameState: GameState;
   theme: ThemeConfig;
   character: Character;
-  onGameOver: (score: number, time: number) => void;
+  seed: number; // Run seed handed to the simulation on start
+  replay?: RacingReplay | null; // When set (GameState.REPLAY), inputs come from the recording
+  onGameOver: (score: number, time: number, replay: RacingReplay) => void;
   onScoreUpdate: (score: number) => void;
   onLevelUpdate: (level: number) => void;
   onLifetimePointsUpdate: (gameScore: number) => void;
+  onReplayEnd?: () => void;
 }
 
 interface FloatingText {
@@ -38,65 +34,34 @@ interface FloatingText {
   color: string;
 }
 
-const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, theme, character, onGameOver, onScoreUpdate, onLevelUpdate, onLifetimePointsUpdate }) => {
+const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, theme, character, seed, replay, onGameOver, onScoreUpdate, onLevelUpdate, onLifetimePointsUpdate, onReplayEnd }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
   // Callbacks Ref
-  const callbacksRef = useRef({ onGameOver, onScoreUpdate, onLevelUpdate, onLifetimePointsUpdate });
+  const callbacksRef = useRef({ onGameOver, onScoreUpdate, onLevelUpdate, onLifetimePointsUpdate, onReplayEnd });
   useEffect(() => {
-    callbacksRef.current = { onGameOver, onScoreUpdate, onLevelUpdate, onLifetimePointsUpdate };
-  }, [onGameOver, onScoreUpdate, onLevelUpdate, onLifetimePointsUpdate]);
+    callbacksRef.current = { onGameOver, onScoreUpdate, onLevelUpdate, onLifetimePointsUpdate, onReplayEnd };
+  }, [onGameOver, onScoreUpdate, onLevelUpdate, onLifetimePointsUpdate, onReplayEnd]);
 
   // Game State
   const reqRef = useRef<number>();
-  const scoreRef = useRef(0);
+  const simRef = useRef<RacingSimulation | null>(null);
+  const pendingInputRef = useRef<RacingAction[]>([]);
+  const inputLogRef = useRef<ReplayInput[]>([]); // Every applied action, for the replay file
+  const replayInputsRef = useRef<Map<number, RacingAction[]> | null>(null);
   const startTimeRef = useRef(0);
-  
-  const levelRef = useRef(1);
-  const speedRef = useRef(INITIAL_SPEED);
-  const slowMoTimerRef = useRef(0);
-  const shieldActiveRef = useRef(false);
   const pausedRef = useRef(false);
 
-  // Combo System
-  const comboCountRef = useRef(0);
-  const comboMultiplierRef = useRef(1);
-  const comboTimerRef = useRef(0);
-  
-  // Player Physics - NOW DISCRETE LANES
-  const playerLaneRef = useRef(2); // Start in middle (0-4)
-  const playerYRef = useRef(2.5 * LANE_HEIGHT); // Visual Y position
-  const playerXRef = useRef(150); // Fixed X position (can move left/right)
-  const playerOffsetXRef = useRef(0); // Horizontal offset within lane
-
-  // Jump Physics
-  const isJumpingRef = useRef(false);
-  const jumpVelocityRef = useRef(0);
-  const jumpOffsetYRef = useRef(0);
-
   const bgOffsetRef = useRef(0);
   
-  const entitiesRef = useRef<Entity[]>([]);
-  const decorRef = useRef<Decor[]>([]); 
   const particlesRef = useRef<Particle[]>([]);
   const floatingTextsRef = useRef<FloatingText[]>([]);
-  const framesRef = useRef(0);
-
-  // Rivals State
-  const rivalsRef = useRef<Character[]>([]);
-  const introducedRivalsRef = useRef<Set<string>>(new Set());
+  const framesRef = useRef(0); // Render frames, drives animations and the day/night cycle
 
   // Texture Caches
   const roadPatternRef = useRef<CanvasPattern | null>(null);
   const avatarImagesRef = useRef<Map<string, HTMLImageElement>>(new Map());
 
-  // --- Initialization ---
-  useEffect(() => {
-    // Filter out the player's character to get the list of rivals
-    rivalsRef.current = CHARACTERS.filter(c => c.id !== character.id);
-    introducedRivalsRef.current.clear();
-  }, [character]);
-
   // --- Texture Generation ---
   const generateTextures = useCallback(() => {
     const ctx = canvasRef.current?.getContext('2d');
@@ -184,7 +149,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, theme, character, on
     ctx.rotate(tilt * Math.PI / 180);
 
     // Shield Visual
-    if (isPlayer && shieldActiveRef.current) {
+    if (isPlayer && simRef.current?.getState().shieldActive) {
       ctx.save();
       ctx.shadowColor = '#06b6d4';
       ctx.shadowBlur = 8;
@@ -454,9 +419,10 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, theme, character, on
   };
 
   // --- EVENT DRIVEN INPUT FOR LANE HOPPING ---
+  // Key presses are queued and handed to the simulation on the next frame
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (gameState !== GameState.PLAYING) return;
+      if (gameState !== GameState.PLAYING && gameState !== GameState.REPLAY) return;
 
       const key = e.key.toLowerCase();
 
@@ -466,30 +432,21 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, theme, character, on
         return;
       }
 
-      // Don't allow movement when paused
-      if (pausedRef.current) return;
+      // Don't allow movement when paused or watching a replay
+      if (pausedRef.current || gameState === GameState.REPLAY) return;
 
       // Lane switching
-      if (key === 'arrowup' || key === 'w') {
-        playerLaneRef.current = Math.max(0, playerLaneRef.current - 1);
-      }
-      if (key === 'arrowdown' || key === 's') {
-        playerLaneRef.current = Math.min(LANE_COUNT - 1, playerLaneRef.current + 1);
-      }
+      if (key === 'arrowup' || key === 'w') pendingInputRef.current.push('lane_up');
+      if (key === 'arrowdown' || key === 's') pendingInputRef.current.push('lane_down');
 
       // Horizontal movement within lane
-      if (key === 'arrowleft' || key === 'a') {
-        playerOffsetXRef.current = Math.max(-60, playerOffsetXRef.current - 15);
-      }
-      if (key === 'arrowright' || key === 'd') {
-        playerOffsetXRef.current = Math.min(60, playerOffsetXRef.current + 15);
-      }
+      if (key === 'arrowleft' || key === 'a') pendingInputRef.current.push('nudge_left');
+      if (key === 'arrowright' || key === 'd') pendingInputRef.current.push('nudge_right');
 
       // Jump
-      if (key === ' ' && !isJumpingRef.current) {
+      if (key === ' ') {
         e.preventDefault(); // Prevent page scroll
-        isJumpingRef.current = true;
-        jumpVelocityRef.current = -15; // Initial upward velocity (increased for higher jump)
+        pendingInputRef.current.push('jump');
       }
     };
 
@@ -504,134 +461,20 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, theme, character, on
     const touchY = e.touches[0].clientY;
     const height = window.innerHeight;
     
-    if (touchY < height * 0.5) {
-      playerLaneRef.current = Math.max(0, playerLaneRef.current - 1);
-    } else {
-      playerLaneRef.current = Math.min(LANE_COUNT - 1, playerLaneRef.current + 1);
-    }
+    pendingInputRef.current.push(touchY < height * 0.5 ? 'lane_up' : 'lane_down');
   };
   
-  const showFloatingText = (text: string, color: string = '#fff') => {
+  const showFloatingText = (x: number, y: number, text: string, color: string) => {
     floatingTextsRef.current.push({
       id: Math.random().toString(),
-      x: playerXRef.current,
-      y: playerYRef.current - 40,
+      x,
+      y,
       text,
       life: 1.5,
       color
     });
   };
 
-  // Spawn Logic
-  const spawnEntity = () => {
-    const lane = Math.floor(Math.random() * LANE_COUNT);
-    const laneY = lane * LANE_HEIGHT + (LANE_HEIGHT / 2);
-    
-    let type: EntityType = 'obstacle';
-    const rand = Math.random();
-    
-    // Adjusted Rarity
-    if (rand > 0.99) type = 'powerup_blast'; // 1%
-    else if (rand > 0.98) type = 'powerup_shield'; // 1%
-    else if (rand > 0.97) type = 'powerup_slow'; // 1%
-    else if (rand > 0.94) type = 'coin'; // 6%
-    
-    let size = OBSTACLE_SIZE;
-    let color = theme.colors.obstacle;
-    let accentColor = theme.colors.obstacleAccent;
-    let isRival = false;
-    let name = undefined;
-    let avatarUrl = undefined;
-
-    if (type === 'coin') {
-      size = COIN_SIZE;
-      color = theme.colors.coin;
-    }
-    if (type.startsWith('powerup')) size = POWERUP_SIZE;
-    
-    // Rival & NPC Car Spawning Logic
-    if (type === 'obstacle') {
-      // Logic: Unlock 1 rival every 2 levels (2, 4, 6, 8)
-      // Available rivals index = Floor(Level / 2) - 1
-      const unlockedCount = Math.floor(levelRef.current / 2);
-
-      if (unlockedCount > 0 && Math.random() > 0.3) { // 70% chance for obstacle to be a Rival if unlocked (increased from 30%)
-        const maxIndex = Math.min(unlockedCount - 1, rivalsRef.current.length - 1);
-        const rivalIndex = Math.floor(Math.random() * (maxIndex + 1));
-        const rival = rivalsRef.current[rivalIndex];
-
-        if (rival) {
-          isRival = true;
-          color = rival.color;
-          accentColor = rival.accentColor;
-          name = rival.name;
-          avatarUrl = rival.avatarUrl;
-
-          // New Rival Discovery Alert
-          if (!introducedRivalsRef.current.has(rival.id)) {
-            introducedRivalsRef.current.add(rival.id);
-            showFloatingText(`CHALLENGER: ${rival.name}`, rival.color);
-          }
-        }
-      } else {
-        // Non-rival NPC cars: Assign random avatar from ALL characters
-        // All obstacles are now cars with character avatars for variety
-        const randomChar = CHARACTERS[Math.floor(Math.random() * CHARACTERS.length)];
-        avatarUrl = randomChar.avatarUrl;
-        // Give them random colors for variety
-        const npcColors = [
-          { color: '#ef4444', accent: '#991b1b' },  // red
-          { color: '#f59e0b', accent: '#92400e' },  // orange
-          { color: '#10b981', accent: '#065f46' },  // green
-          { color: '#3b82f6', accent: '#1e3a8a' },  // blue
-          { color: '#8b5cf6', accent: '#5b21b6' },  // purple
-          { color: '#ec4899', accent: '#9f1239' },  // pink
-        ];
-        const randomColor = npcColors[Math.floor(Math.random() * npcColors.length)];
-        color = randomColor.color;
-        accentColor = randomColor.accent;
-      }
-    }
-
-    const entity: Entity = {
-      id: Math.random().toString(36).substr(2, 9),
-      type,
-      lane,
-      x: CANVAS_WIDTH + 100,
-      y: laneY,
-      width: size,
-      height: size,
-      color,
-      accentColor,
-      isRival,
-      name,
-      avatarUrl
-    };
-    
-    // Check collision with existing entities in same lane at spawn (basic overlap)
-    const tooClose = entitiesRef.current.some(e => e.lane === lane && Math.abs(e.x - entity.x) < 300);
-    if (!tooClose) {
-      entitiesRef.current.push(entity);
-    }
-  };
-
-  const spawnDecor = () => {
-    const side = Math.random() > 0.5 ? 'top' : 'bottom';
-    const y = side === 'top' ? -40 : CANVAS_HEIGHT + 40;
-    
-    let type: Decor['type'] = 'tree';
-    if (theme.scenery === 'city') type = 'light';
-    if (theme.scenery === 'palm') type = 'column';
-
-    decorRef.current.push({
-      id: Math.random().toString(),
-      x: CANVAS_WIDTH + 50,
-      y: y,
-      type,
-      scale: 1
-    });
-  };
-
   const createExplosion = (x: number, y: number, color: string, count = 8) => {
     for (let i = 0; i < count; i++) {
       particlesRef.current.push({
@@ -649,10 +492,11 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, theme, character, on
 
   // Main Loop
   const gameLoop = useCallback(() => {
-    if (gameState !== GameState.PLAYING) return;
+    if (gameState !== GameState.PLAYING && gameState !== GameState.REPLAY) return;
     
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    const sim = simRef.current;
+    if (!canvas || !sim) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
@@ -664,187 +508,53 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, theme, character, on
     const isNight = theme.dayNightEnabled ? (cyclePos > 0.3 && cyclePos < 0.8) : false;
 
     // --- PAUSE LOGIC: Skip game updates when paused ---
-    let effectiveSpeed = speedRef.current;
-    let effectiveTilt = 0;
-
     if (!pausedRef.current) {
-      // --- Level & Score Logic ---
-      if (slowMoTimerRef.current > 0) {
-        slowMoTimerRef.current--;
-        effectiveSpeed = speedRef.current * 0.5;
-      }
-
-      // SLOWER CLIMB: Score based on distance/survival
-      if (framesRef.current % 20 === 0) {
-        scoreRef.current += 10;
-        callbacksRef.current.onScoreUpdate(scoreRef.current);
-
-        // Level Up Check
-        const requiredScore = levelRef.current * LEVEL_SCORE_THRESHOLD;
-        if (scoreRef.current >= requiredScore) {
-          levelRef.current++;
-          speedRef.current = Math.min(MAX_SPEED, speedRef.current + SPEED_INCREMENT);
-          callbacksRef.current.onLevelUpdate(levelRef.current);
-          showFloatingText(`LEVEL ${levelRef.current}`, '#facc15');
-        }
-      }
-
-      // --- Player Movement (Lerp to Lane Center) ---
-      const targetY = (playerLaneRef.current * LANE_HEIGHT) + (LANE_HEIGHT / 2);
-      // Simple Lerp for quick snapping
-      const diff = targetY - playerYRef.current;
-      playerYRef.current += diff * LANE_TRANSITION_SPEED;
-
-      // Tilt based on movement direction
-      if (Math.abs(diff) > 2) {
-        effectiveTilt = diff > 0 ? 5 : -5;
-      }
+      const prevScore = sim.getState().score;
+      const prevLevel = sim.getState().level;
 
-      // --- Jump Physics ---
-      if (isJumpingRef.current) {
-        jumpVelocityRef.current += 0.6; // Gravity
-        jumpOffsetYRef.current += jumpVelocityRef.current;
-
-        // Land when back at ground level
-        if (jumpOffsetYRef.current >= 0) {
-          jumpOffsetYRef.current = 0;
-          jumpVelocityRef.current = 0;
-          isJumpingRef.current = false;
-        }
-      }
-
-      // Horizontal offset decay (slide back to center)
-      if (playerOffsetXRef.current > 0) {
-        playerOffsetXRef.current = Math.max(0, playerOffsetXRef.current - 2);
-      } else if (playerOffsetXRef.current < 0) {
-        playerOffsetXRef.current = Math.min(0, playerOffsetXRef.current + 2);
+      let input = pendingInputRef.current;
+      if (replayInputsRef.current) {
+        input = replayInputsRef.current.get(sim.getState().frame + 1) ?? [];
       }
+      pendingInputRef.current = [];
 
-      // --- Spawning ---
-      const spawnRate = Math.max(50, Math.floor(1800 / (effectiveSpeed * 10 + 10)));
-      if (framesRef.current % spawnRate === 0) spawnEntity();
-      if (framesRef.current % 30 === 0) spawnDecor();
+      const events = sim.step(input);
+      const frame = sim.getState().frame;
+      input.forEach(action => inputLogRef.current.push({ frame, action }));
 
-      // --- Update Entities ---
-      entitiesRef.current.forEach(e => {
-        if (!e) return; // Safety check for undefined entities
-        e.x -= effectiveSpeed;
+      events.forEach(ev => {
+        if (ev.type === 'explosion') createExplosion(ev.x, ev.y, ev.color, ev.count);
+        else showFloatingText(ev.x, ev.y, ev.text, ev.color);
       });
-      decorRef.current.forEach(d => d.x -= effectiveSpeed);
-      entitiesRef.current = entitiesRef.current.filter(e => e && e.x > -100);
-      decorRef.current = decorRef.current.filter(d => d.x > -100);
-
-      // --- Combo Timer Decay ---
-      if (comboTimerRef.current > 0) {
-        comboTimerRef.current--;
-      } else if (comboCountRef.current > 0) {
-        // Reset combo if timer expires
-        comboCountRef.current = 0;
-        comboMultiplierRef.current = 1;
-      }
 
-      // --- Collision ---
-      const pRect = {
-        x: (playerXRef.current + playerOffsetXRef.current) - PLAYER_SIZE / 2 + 8,
-        y: (playerYRef.current + jumpOffsetYRef.current) - 12,
-        w: PLAYER_SIZE - 16,
-        h: 24
-      };
-
-      // Check if player is jumping high enough to clear obstacles
-      const jumpClearanceHeight = 50; // How high player needs to jump to clear obstacle
-      const isJumpingOverObstacles = jumpOffsetYRef.current < -jumpClearanceHeight;
-
-      for (let i = entitiesRef.current.length - 1; i >= 0; i--) {
-        const ent = entitiesRef.current[i];
-        const entRect = { x: ent.x - ent.width/2, y: ent.y - ent.height/2, w: ent.width, h: ent.height };
-
-        if (
-          pRect.x < entRect.x + entRect.w &&
-          pRect.x + pRect.w > entRect.x &&
-          pRect.y < entRect.y + entRect.h &&
-          pRect.y + pRect.h > entRect.y
-        ) {
-          // Skip obstacle collision if jumping high enough
-          if (ent.type === 'obstacle' && isJumpingOverObstacles) {
-            continue;
-          }
-
-          if (ent.type === 'obstacle') {
-            if (shieldActiveRef.current) {
-              shieldActiveRef.current = false;
-              createExplosion(ent.x, ent.y, '#06b6d4', 20);
-              entitiesRef.current.splice(i, 1);
-              showFloatingText("SHIELD BROKEN!", "#06b6d4");
-              // Reset combo on collision (even with shield)
-              comboCountRef.current = 0;
-              comboMultiplierRef.current = 1;
-              comboTimerRef.current = 0;
-            } else {
-              createExplosion(playerXRef.current, playerYRef.current, character.color);
-              createExplosion(ent.x, ent.y, ent.color);
-              const sessionTime = (Date.now() - startTimeRef.current) / 1000;
-              callbacksRef.current.onLifetimePointsUpdate(scoreRef.current);
-              callbacksRef.current.onGameOver(scoreRef.current, sessionTime);
-              return;
-            }
-          } else if (ent.type === 'coin') {
-            // Combo System
-            comboCountRef.current++;
-            comboTimerRef.current = 180; // 3 seconds at 60fps
-
-            // Update multiplier based on combo count
-            if (comboCountRef.current >= 20) {
-              comboMultiplierRef.current = 5;
-            } else if (comboCountRef.current >= 10) {
-              comboMultiplierRef.current = 3;
-            } else if (comboCountRef.current >= 5) {
-              comboMultiplierRef.current = 2;
-            } else {
-              comboMultiplierRef.current = 1;
-            }
-
-            const coinValue = 50 * comboMultiplierRef.current;
-            scoreRef.current += coinValue;
-            callbacksRef.current.onScoreUpdate(scoreRef.current);
-            createExplosion(ent.x, ent.y, theme.colors.coin, 8);
-            entitiesRef.current.splice(i, 1);
-
-            if (comboMultiplierRef.current > 1) {
-              showFloatingText(`+${coinValue} (x${comboMultiplierRef.current})`, theme.colors.coin);
-            }
-          } else if (ent.type === 'powerup_shield') {
-            shieldActiveRef.current = true;
-            scoreRef.current += 25;
-            createExplosion(ent.x, ent.y, '#06b6d4', 10);
-            entitiesRef.current.splice(i, 1);
-            showFloatingText("SHIELD ACTIVE", "#06b6d4");
-          } else if (ent.type === 'powerup_slow') {
-            slowMoTimerRef.current = 300;
-            scoreRef.current += 25;
-            createExplosion(ent.x, ent.y, '#a855f7', 10);
-            entitiesRef.current.splice(i, 1);
-            showFloatingText("TIME SLOW", "#a855f7");
-          } else if (ent.type === 'powerup_blast') {
-            scoreRef.current += 100;
-            entitiesRef.current = entitiesRef.current.filter(e => {
-              if (e.type === 'obstacle') {
-                createExplosion(e.x, e.y, e.color);
-                return false;
-              }
-              return e !== ent;
-            });
-            createExplosion(ent.x, ent.y, '#ef4444', 30);
-            showFloatingText("SONIC BLAST!", "#ef4444");
-            // Break out of collision loop since we've modified the entire entities array
-            break;
-          }
+      const state = sim.getState();
+      if (state.score !== prevScore) callbacksRef.current.onScoreUpdate(state.score);
+      if (state.level !== prevLevel) callbacksRef.current.onLevelUpdate(state.level);
+
+      if (state.gameOver) {
+        createExplosion(state.playerX, state.playerY, character.color);
+        if (replayInputsRef.current) {
+          callbacksRef.current.onReplayEnd?.();
+          return;
         }
+        const sessionTime = (Date.now() - startTimeRef.current) / 1000;
+        callbacksRef.current.onLifetimePointsUpdate(state.score);
+        callbacksRef.current.onGameOver(state.score, sessionTime, {
+          version: REPLAY_VERSION,
+          seed: sim.seed,
+          themeId: theme.id,
+          characterId: character.id,
+          score: state.score,
+          frames: state.frame,
+          inputs: inputLogRef.current,
+          recordedAt: new Date().toISOString()
+        });
+        return;
       }
 
       // Particles & Text
       particlesRef.current.forEach(p => {
-        p.x += p.vx - effectiveSpeed * 0.5;
+        p.x += p.vx - state.effectiveSpeed * 0.5;
         p.y += p.vy;
         p.life -= 0.05;
       });
@@ -855,7 +565,10 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, theme, character, on
         t.life -= 0.02;
       });
       floatingTextsRef.current = floatingTextsRef.current.filter(t => t.life > 0);
-  } // End of pause check - always render below
+    } // End of pause check - always render below
+
+    const state = sim.getState();
+    const effectiveSpeed = pausedRef.current ? 0 : state.effectiveSpeed;
 
     // --- RENDER ---
     ctx.fillStyle = getSkyGradient(ctx, cyclePos);
@@ -916,12 +629,9 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, theme, character, on
     }
     ctx.setLineDash([]);
 
-    decorRef.current.forEach(d => drawDecorElement(ctx, d, isNight));
-
-    entitiesRef.current.forEach(ent => {
-      // Safety check: skip undefined entities (can happen during power-up collection)
-      if (!ent) return;
+    state.decor.forEach(d => drawDecorElement(ctx, d, isNight));
 
+    state.entities.forEach(ent => {
       if (ent.type === 'coin') {
         const floatY = Math.sin(framesRef.current * 0.1) * 5;
         ctx.save();
@@ -947,11 +657,11 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, theme, character, on
     // Player (Use Character Color with jump and horizontal offset)
     drawCar(
       ctx,
-      playerXRef.current + playerOffsetXRef.current,
-      playerYRef.current + jumpOffsetYRef.current,
+      state.playerX + state.playerOffsetX,
+      state.playerY + state.jumpOffsetY,
       character.color,
       character.accentColor,
-      effectiveTilt,
+      state.tilt,
       true,
       isNight,
       character.avatarUrl
@@ -980,7 +690,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, theme, character, on
       ctx.restore();
     });
 
-    if (slowMoTimerRef.current > 0) {
+    if (state.slowMoTimer > 0) {
       ctx.fillStyle = 'rgba(168, 85, 247, 0.1)';
       ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
       ctx.fillStyle = '#fff';
@@ -988,7 +698,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, theme, character, on
       ctx.fillText('SLOW MOTION', CANVAS_WIDTH / 2 - 60, 40);
     }
 
-    if (shieldActiveRef.current) {
+    if (state.shieldActive) {
       ctx.fillStyle = '#06b6d4';
       ctx.font = 'bold 16px sans-serif';
       ctx.textAlign = 'left';
@@ -1002,7 +712,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, theme, character, on
     ctx.fillText('↑↓ Lanes  •  ←→ Dodge  •  SPACE Jump  •  ESC Pause', CANVAS_WIDTH / 2, CANVAS_HEIGHT - 15);
 
     // Combo UI
-    if (comboCountRef.current > 0) {
+    if (state.comboCount > 0) {
       const comboX = CANVAS_WIDTH - 150;
       const comboY = 40;
 
@@ -1015,17 +725,17 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, theme, character, on
       ctx.textAlign = 'right';
       ctx.shadowBlur = 5;
       ctx.shadowColor = theme.colors.coin;
-      ctx.fillText(`x${comboMultiplierRef.current}`, comboX + 120, comboY);
+      ctx.fillText(`x${state.comboMultiplier}`, comboX + 120, comboY);
 
       ctx.fillStyle = '#fff';
       ctx.font = '16px sans-serif';
       ctx.shadowBlur = 0;
-      ctx.fillText(`${comboCountRef.current} Coin Combo`, comboX + 120, comboY + 20);
+      ctx.fillText(`${state.comboCount} Coin Combo`, comboX + 120, comboY + 20);
 
       // Combo timer bar
       const timerWidth = 120;
       const timerHeight = 4;
-      const timerPercent = comboTimerRef.current / 180;
+      const timerPercent = state.comboTimer / COMBO_DURATION_FRAMES;
       ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
       ctx.fillRect(comboX, comboY + 28, timerWidth, timerHeight);
       ctx.fillStyle = theme.colors.coin;
@@ -1057,39 +767,24 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, theme, character, on
   }, [gameState, theme, character]); 
 
   useEffect(() => {
-    if (gameState === GameState.PLAYING) {
+    if (gameState === GameState.PLAYING || (gameState === GameState.REPLAY && replay)) {
       // RESET GAME STATE
-      scoreRef.current = 0;
+      const isReplay = gameState === GameState.REPLAY && !!replay;
+      simRef.current = new RacingSimulation({
+        theme,
+        characterId: isReplay ? replay.characterId : character.id,
+        seed: isReplay ? replay.seed : seed
+      });
+      pendingInputRef.current = [];
+      inputLogRef.current = [];
+      replayInputsRef.current = isReplay ? indexInputsByFrame(replay.inputs) : null;
       startTimeRef.current = Date.now();
       
-      levelRef.current = 1;
-      speedRef.current = INITIAL_SPEED;
-      
-      entitiesRef.current = [];
-      decorRef.current = [];
       particlesRef.current = [];
       floatingTextsRef.current = [];
-      
-      // Filter rivals again on start
-      rivalsRef.current = CHARACTERS.filter(c => c.id !== character.id);
-      introducedRivalsRef.current.clear();
-
-      playerLaneRef.current = 2;
-      playerYRef.current = 2.5 * LANE_HEIGHT;
-      playerXRef.current = 150;
-      playerOffsetXRef.current = 0;
-
-      isJumpingRef.current = false;
-      jumpVelocityRef.current = 0;
-      jumpOffsetYRef.current = 0;
 
       framesRef.current = 0;
-      slowMoTimerRef.current = 0;
-      shieldActiveRef.current = false;
       pausedRef.current = false;
-      comboCountRef.current = 0;
-      comboMultiplierRef.current = 1;
-      comboTimerRef.current = 0;
       callbacksRef.current.onLevelUpdate(1);
       
       if (reqRef.current) cancelAnimationFrame(reqRef.current);
@@ -1100,7 +795,7 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, theme, character, on
     return () => {
       if (reqRef.current) cancelAnimationFrame(reqRef.current);
     };
-  }, [gameState, gameLoop, character]); 
+  }, [gameState, gameLoop, character, seed, replay]); 
 
   return (
     <div className="w-full h-full flex justify-center items-center relative overflow-hidden outline-none" onTouchStart={handleTouch}>
@@ -5,11 +5,13 @@ import packageJson from '../package.json';
 interface GameModeSelectionProps {
   onSelectRacing: () => void;
   onSelectElimination: () => void;
+  onSelectDriftAttack: () => void;
 }
 
 const GameModeSelection: React.FC<GameModeSelectionProps> = ({
   onSelectRacing,
-  onSelectElimination
+  onSelectElimination,
+  onSelectDriftAttack
 }) => {
   return (
     <div className="absolute inset-0 flex flex-col items-center justify-center z-10 p-6 bg-gradient-to-br from-slate-900 via-slate-900 to-purple-900/20">
@@ -45,7 +47,7 @@ const GameModeSelection: React.FC<GameModeSelectionProps> = ({
       </div>
 
       {/* Game Mode Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 max-w-4xl w-full px-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 max-w-6xl w-full px-4">
         {/* Racing Mode */}
         <button
           onClick={onSelectRacing}
@@ -89,6 +91,28 @@ const GameModeSelection: React.FC<GameModeSelectionProps> = ({
           </div>
           <div className="absolute inset-0 bg-gradient-to-r from-red-500/20 to-purple-500/20 rounded-2xl opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none" />
         </button>
+
+        {/* Drift Attack Mode */}
+        <button
+          onClick={onSelectDriftAttack}
+          className="group relative p-6 rounded-2xl border-2 border-orange-500/30 bg-slate-800/50 backdrop-blur-md hover:border-orange-400 hover:bg-slate-700/50 transition-all duration-300 hover:scale-105 active:scale-95"
+        >
+          <div className="text-center">
+            <div className="text-5xl mb-3">🏁</div>
+            <h2 className="text-2xl font-black text-transparent bg-clip-text bg-gradient-to-r from-orange-400 to-yellow-400 mb-2">
+              DRIFT ATTACK
+            </h2>
+            <p className="text-white/70 text-xs mb-4 leading-relaxed">
+              Time trial on closed circuits. Drift through corners to charge boost and race your own ghost.
+            </p>
+            <div className="space-y-1 text-[10px] text-white/50">
+              <div>✓ 3 Circuits</div>
+              <div>✓ Ghost Racing</div>
+              <div>✓ Lap Splits</div>
+            </div>
+          </div>
+          <div className="absolute inset-0 bg-gradient-to-r from-orange-500/20 to-yellow-500/20 rounded-2xl opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none" />
+        </button>
       </div>
 
       <div className="mt-12 text-center">
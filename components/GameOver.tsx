@@ -2,23 +2,31 @@
 import React, { useState, useEffect } from 'react';
 import { LeaderboardEntry } from '../types';
 import { getScoreCommentary } from '../services/geminiService';
-import { saveRacingScore } from '../lib/supabase';
+import { SubmissionStatus, submitScore } from '../lib/submissionOutbox';
 import { getRankLevel } from '../utils/rankingSystem';
+import { formatSeed } from '../lib/rng';
+import { RacingReplay, downloadReplay, serializeReplay } from '../lib/replay';
+import { DailyChallenge } from '../lib/dailyChallenge';
 
 interface GameOverProps {
   score: number;
   time: number;
-  onRetry: () => void;
+  seed: number;
+  replay: RacingReplay | null;
+  dailyChallenge: DailyChallenge | null; // Set when this was a Daily Challenge run
+  onWatchReplay: (replay: RacingReplay) => void;
+  onRetry: (seed?: number) => void; // Pass a seed to replay the same run layout
   onMenu: () => void;
   onSubmitScore: (entry: LeaderboardEntry) => void;
 }
 
-const GameOver: React.FC<GameOverProps> = ({ score, time, onRetry, onMenu, onSubmitScore }) => {
+const GameOver: React.FC<GameOverProps> = ({ score, time, seed, replay, dailyChallenge, onWatchReplay, onRetry, onMenu, onSubmitScore }) => {
   const [name, setName] = useState('');
   const [commentary, setCommentary] = useState<{title: string, text: string} | null>(null);
   const [loading, setLoading] = useState(true);
   const [submitted, setSubmitted] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [uploadStatus, setUploadStatus] = useState<SubmissionStatus>('sent');
 
   useEffect(() => {
     let isMounted = true;
@@ -53,19 +61,30 @@ const GameOver: React.FC<GameOverProps> = ({ score, time, onRetry, onMenu, onSub
       rankTitle: commentary?.title
     };
 
-    try {
-      // Save to Supabase
-      await saveRacingScore({
-        name: entry.name,
-        score: entry.score,
-        rank_title: entry.rankTitle,
-        ai_comment: entry.aiComment
-      });
-      console.log('Score saved to Supabase!');
-    } catch (error) {
-      console.error('Failed to save to Supabase:', error);
-      // Continue anyway - will save locally
-    }
+    // The replay lets the score verifier re-simulate the run
+    const serializedReplay = replay ? serializeReplay(replay) : '';
+
+    // Failed uploads go to the outbox and are retried later
+    const status = dailyChallenge
+      ? await submitScore('daily', {
+          name: entry.name,
+          score: entry.score,
+          rank_title: entry.rankTitle,
+          ai_comment: entry.aiComment,
+          replay: serializedReplay,
+          challenge_date: dailyChallenge.date,
+          seed: dailyChallenge.seed,
+          theme_id: dailyChallenge.themeId,
+          character_used: dailyChallenge.characterId
+        })
+      : await submitScore('racing', {
+          name: entry.name,
+          score: entry.score,
+          rank_title: entry.rankTitle,
+          ai_comment: entry.aiComment,
+          replay: serializedReplay
+        });
+    setUploadStatus(status);
 
     // Save locally
     onSubmitScore(entry);
@@ -80,6 +99,9 @@ const GameOver: React.FC<GameOverProps> = ({ score, time, onRetry, onMenu, onSub
       <h2 className="text-5xl font-display font-bold text-red-500 mb-2 drop-shadow-[0_0_10px_rgba(239,68,68,0.8)]">
         SYSTEM CRASH
       </h2>
+      {dailyChallenge && (
+        <p className="text-amber-400 text-xs font-bold tracking-widest mb-3">📅 DAILY CHALLENGE • {dailyChallenge.date}</p>
+      )}
 
       {/* Rank Achievement Badge */}
       <div className={`
@@ -106,6 +128,25 @@ const GameOver: React.FC<GameOverProps> = ({ score, time, onRetry, onMenu, onSub
             <p className="text-3xl font-mono text-cyan-400">{time.toFixed(1)}s</p>
           </div>
         </div>
+        <div className="flex items-center justify-center gap-3 mb-4">
+          <p className="text-slate-500 text-xs font-mono">SEED #{formatSeed(seed)}</p>
+          {replay && (
+            <>
+              <button
+                onClick={() => onWatchReplay(replay)}
+                className="text-xs font-mono text-cyan-400 hover:text-cyan-300 underline underline-offset-2"
+              >
+                ▶ WATCH REPLAY
+              </button>
+              <button
+                onClick={() => downloadReplay(replay)}
+                className="text-xs font-mono text-slate-400 hover:text-white underline underline-offset-2"
+              >
+                ⬇ SAVE REPLAY
+              </button>
+            </>
+          )}
+        </div>
 
         {loading ? (
           <div className="animate-pulse text-yellow-500 font-mono text-sm border-t border-slate-700 pt-4">
@@ -142,18 +183,28 @@ const GameOver: React.FC<GameOverProps> = ({ score, time, onRetry, onMenu, onSub
           </div>
         </form>
       ) : (
-        <div className="mb-8 text-green-400 font-mono">
-          [ SCORE UPLOADED TO GLOBAL LEADERBOARD ]
+        <div className={`mb-8 font-mono ${uploadStatus === 'sent' ? 'text-green-400' : uploadStatus === 'queued' ? 'text-amber-400' : 'text-red-400'}`}>
+          {uploadStatus === 'sent' && '[ SCORE UPLOADED TO GLOBAL LEADERBOARD ]'}
+          {uploadStatus === 'queued' && '[ OFFLINE - SCORE QUEUED, WILL UPLOAD WHEN ONLINE ]'}
+          {uploadStatus === 'rejected' && '[ SCORE REJECTED BY LEADERBOARD SERVER ]'}
         </div>
       )}
 
       <div className="flex gap-4">
         <button
-          onClick={onRetry}
+          onClick={() => onRetry()}
           className="bg-white text-slate-900 px-8 py-3 rounded font-bold hover:bg-slate-200 transition-transform hover:scale-105"
         >
           RETRY
         </button>
+        {!dailyChallenge && (
+          <button
+            onClick={() => onRetry(seed)}
+            className="bg-transparent border border-cyan-600 text-cyan-300 px-8 py-3 rounded font-bold hover:bg-slate-800 transition-colors"
+          >
+            SAME SEED
+          </button>
+        )}
         <button
           onClick={onMenu}
           className="bg-transparent border border-slate-500 text-slate-300 px-8 py-3 rounded font-bold hover:bg-slate-800 transition-colors"
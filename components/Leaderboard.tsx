@@ -1,15 +1,19 @@
 import React, { useEffect, useState } from 'react';
 import { LeaderboardEntry } from '../types';
-import { fetchRacingLeaderboard } from '../lib/supabase';
+import { leaderboardStore } from '../lib/stores';
 import { getRankLevel } from '../utils/rankingSystem';
 
 interface LeaderboardProps {
   scores: LeaderboardEntry[];
+  challengeDate?: string | null; // Show this day's Daily Challenge board instead of racing
   onBack: () => void;
 }
 
-const Leaderboard: React.FC<LeaderboardProps> = ({ scores: localScores, onBack }) => {
-  const [scores, setScores] = useState<LeaderboardEntry[]>(localScores);
+const Leaderboard: React.FC<LeaderboardProps> = ({ scores: localScores, challengeDate, onBack }) => {
+  // There are no local scores for daily boards
+  const fallbackScores = challengeDate ? [] : localScores;
+
+  const [scores, setScores] = useState<LeaderboardEntry[]>(fallbackScores);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(false);
 
@@ -17,10 +21,12 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ scores: localScores, onBack }
     async function loadLeaderboard() {
       try {
         setLoading(true);
-        const data = await fetchRacingLeaderboard();
+        const data = challengeDate
+          ? await leaderboardStore.fetchDailyChallengeLeaderboard(challengeDate)
+          : await leaderboardStore.fetchRacingLeaderboard();
 
         if (data && data.length > 0) {
-          // Convert Supabase data to LeaderboardEntry format
+          // Convert store rows to LeaderboardEntry format
           const entries: LeaderboardEntry[] = data.map((item: any) => ({
             name: item.name,
             score: item.score,
@@ -31,20 +37,20 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ scores: localScores, onBack }
           setScores(entries);
         } else {
           // Fallback to local scores if no data
-          setScores(localScores);
+          setScores(fallbackScores);
         }
       } catch (err) {
         console.error('Failed to fetch leaderboard:', err);
         setError(true);
         // Fallback to local scores on error
-        setScores(localScores);
+        setScores(fallbackScores);
       } finally {
         setLoading(false);
       }
     }
 
     loadLeaderboard();
-  }, []);
+  }, [challengeDate]);
 
   const sortedScores = [...scores].sort((a, b) => b.score - a.score).slice(0, 10);
 
@@ -53,7 +59,12 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ scores: localScores, onBack }
       <div className="w-full max-w-2xl">
         <div className="flex justify-between items-center mb-8">
           <div>
-            <h2 className="text-4xl font-display font-bold text-cyan-400">GLOBAL RANKING</h2>
+            <h2 className="text-4xl font-display font-bold text-cyan-400">
+              {challengeDate ? 'DAILY CHALLENGE' : 'GLOBAL RANKING'}
+            </h2>
+            {challengeDate && (
+              <p className="text-amber-400 text-sm font-mono mt-1">📅 {challengeDate}</p>
+            )}
             {loading && (
               <p className="text-slate-500 text-sm mt-1">Loading global scores...</p>
             )}
@@ -1,13 +1,18 @@
 
-import React, { useState } from 'react';
+import React, { useState, useRef } from 'react';
 import { THEMES } from '../constants';
 import { ThemeConfig, ThemeId, Character } from '../types';
 import packageJson from '../package.json';
 import AvatarUpload from './AvatarUpload';
+import { RacingReplay, parseReplay } from '../lib/replay';
+import { getDailyChallenge, getTimeUntilNextChallenge } from '../lib/dailyChallenge';
+import { SaveProfile, ImportMode, downloadSaveProfile, parseSaveFile, importSaveProfile, getNewerSaveVersion, replaceNewerSave } from '../lib/saveProfile';
 
 interface MainMenuProps {
   onStart: () => void;
+  onStartDailyChallenge: () => void;
   onShowLeaderboard: () => void;
+  onShowDailyLeaderboard: (challengeDate: string) => void;
   onStartElimination: () => void;
   currentTheme: ThemeConfig;
   onSelectTheme: (themeId: ThemeId) => void;
@@ -17,6 +22,9 @@ interface MainMenuProps {
   onSelectCharacter: (charId: string) => void;
   allCharacters: Character[]; // All available characters (default + community)
   onRefreshAvatars: () => void; // Refresh community avatars after upload
+  bestReplay: RacingReplay | null; // Highest scoring recorded run, if any
+  onWatchReplay: (replay: RacingReplay) => void;
+  onSaveImported: () => void; // Reload state after a save file was imported
 }
 
 // Helper component to handle image loading errors gracefully
@@ -50,7 +58,9 @@ const CharacterAvatar: React.FC<{ char: Character; size?: string; className?: st
 
 const MainMenu: React.FC<MainMenuProps> = ({
   onStart,
+  onStartDailyChallenge,
   onShowLeaderboard,
+  onShowDailyLeaderboard,
   onStartElimination,
   currentTheme,
   onSelectTheme,
@@ -59,12 +69,73 @@ const MainMenu: React.FC<MainMenuProps> = ({
   selectedCharacterId,
   onSelectCharacter,
   allCharacters,
-  onRefreshAvatars
+  onRefreshAvatars,
+  bestReplay,
+  onWatchReplay,
+  onSaveImported
 }) => {
   const themesList = Object.values(THEMES);
   const [activeIndex, setActiveIndex] = useState(themesList.findIndex(t => t.id === currentTheme.id));
   const [showCharacterSelect, setShowCharacterSelect] = useState(false);
   const [showAvatarUpload, setShowAvatarUpload] = useState(false);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const [pendingSave, setPendingSave] = useState<SaveProfile | null>(null); // Parsed save file awaiting merge/overwrite
+  const [saveMessage, setSaveMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [newerSaveVersion, setNewerSaveVersion] = useState(getNewerSaveVersion); // Save from a newer build, not yet replaced
+  const saveInputRef = useRef<HTMLInputElement>(null);
+
+  // Load a .replay.json file (e.g. one attached to a bug report) and play it
+  const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setReplayError(null);
+      onWatchReplay(parseReplay(await file.text()));
+    } catch (err: unknown) {
+      setReplayError(err instanceof Error && err.message ? err.message : 'Could not read replay file');
+    }
+  };
+
+  // Check a save file first, then ask whether to merge it or replace this device's save
+  const handleSaveFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setSaveMessage(null);
+      setPendingSave(await parseSaveFile(await file.text()));
+    } catch (err: unknown) {
+      setSaveMessage({ text: err instanceof Error && err.message ? err.message : 'Could not read save file', isError: true });
+    }
+  };
+
+  const handleImportSave = (mode: ImportMode) => {
+    if (!pendingSave) return;
+    importSaveProfile(pendingSave, mode);
+    setPendingSave(null);
+    setSaveMessage({ text: mode === 'merge' ? 'Save merged' : 'Save replaced', isError: false });
+    onSaveImported();
+  };
+
+  // Carry on with this version, saving over the newer build's save (a copy of it is kept)
+  const handleReplaceNewerSave = () => {
+    replaceNewerSave();
+    setNewerSaveVersion(null);
+    setSaveMessage({ text: 'Progress will be saved from now on', isError: false });
+  };
+
+  const handleExportSave = async () => {
+    try {
+      await downloadSaveProfile();
+      setSaveMessage(null);
+    } catch (err: unknown) {
+      setSaveMessage({ text: err instanceof Error && err.message ? err.message : 'Could not export save', isError: true });
+    }
+  };
 
   const handlePrev = () => {
     const next = activeIndex === 0 ? themesList.length - 1 : activeIndex - 1;
@@ -81,6 +152,12 @@ const MainMenu: React.FC<MainMenuProps> = ({
   const activeTheme = themesList[activeIndex];
   const isLocked = highScore < activeTheme.unlockScore;
 
+  // Today's shared challenge (theme and driver are fixed for everyone)
+  const daily = getDailyChallenge();
+  const dailyTheme = THEMES[daily.themeId];
+  const dailyDriver = allCharacters.find(c => c.id === daily.characterId);
+  const hoursLeft = Math.ceil(getTimeUntilNextChallenge() / (60 * 60 * 1000));
+
   // Check if all default characters are unlocked (community avatars are always unlocked)
   const defaultCharacters = allCharacters.filter(c => !c.id.startsWith('community-'));
   const communityCharacters = allCharacters.filter(c => c.id.startsWith('community-'));
@@ -293,6 +370,40 @@ const MainMenu: React.FC<MainMenuProps> = ({
           </button>
         )}
       </div>
+
+      {/* Daily Challenge */}
+      <div className="w-full max-w-sm p-4 rounded-2xl border border-amber-500/30 bg-slate-900/70 backdrop-blur-md shadow-xl mb-6">
+        <div className="flex items-center justify-between mb-3">
+          <div>
+            <div className="text-[10px] uppercase font-bold text-amber-400 tracking-widest">📅 Daily Challenge</div>
+            <div className="text-sm font-bold text-white">{dailyTheme.name}</div>
+          </div>
+          <div className="text-right">
+            <div className="text-[10px] text-white/40 font-mono">{daily.date}</div>
+            <div className="text-[10px] text-white/40 font-mono">NEW IN {hoursLeft}H</div>
+          </div>
+        </div>
+        {dailyDriver && (
+          <div className="flex items-center gap-3 mb-3">
+            <CharacterAvatar char={dailyDriver} size="w-8 h-8" />
+            <div className="text-xs text-white/70">Everyone drives <span className="font-bold text-white">{dailyDriver.name}</span> on the same course today</div>
+          </div>
+        )}
+        <div className="flex gap-2">
+          <button
+            onClick={onStartDailyChallenge}
+            className="flex-1 py-2 rounded-xl bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-500 hover:to-orange-500 text-white font-bold text-sm shadow-lg transition-all active:scale-[0.98]"
+          >
+            PLAY DAILY
+          </button>
+          <button
+            onClick={() => onShowDailyLeaderboard(daily.date)}
+            className="px-4 py-2 rounded-xl border border-white/20 hover:bg-white/10 text-white/80 font-bold text-sm transition-all"
+          >
+            🏆
+          </button>
+        </div>
+      </div>
       
       {/* Game Legend */}
       <div className="flex flex-col gap-3 mb-6">
@@ -349,7 +460,101 @@ const MainMenu: React.FC<MainMenuProps> = ({
           </div>
         </div>
       </div>
-      
+
+      {/* Replays */}
+      <div className="flex gap-3 items-center mt-4">
+        {bestReplay && (
+          <button
+            onClick={() => onWatchReplay(bestReplay)}
+            className="px-4 py-2 rounded-full border border-cyan-500/30 hover:bg-cyan-500/10 text-cyan-300 font-semibold text-xs transition-all backdrop-blur-md"
+          >
+            ▶ WATCH BEST RUN ({bestReplay.score.toLocaleString()})
+          </button>
+        )}
+        <button
+          onClick={() => replayInputRef.current?.click()}
+          className="px-4 py-2 rounded-full border border-white/10 hover:bg-white/10 text-white/60 hover:text-white font-semibold text-xs transition-all backdrop-blur-md"
+        >
+          📂 LOAD REPLAY
+        </button>
+        <input
+          ref={replayInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleReplayFile}
+          className="hidden"
+        />
+      </div>
+      {replayError && (
+        <p className="mt-2 text-red-400 text-xs font-mono">{replayError}</p>
+      )}
+
+      {/* Save data (move progress between browsers) */}
+      <div className="flex gap-3 items-center mt-3">
+        {newerSaveVersion !== null ? (
+          <>
+            <span className="text-yellow-300/80 text-xs font-mono">
+              SAVE IS FROM A NEWER VERSION (V{newerSaveVersion}) - PROGRESS ISN'T BEING SAVED
+            </span>
+            <button
+              onClick={handleReplaceNewerSave}
+              className="px-4 py-2 rounded-full border border-red-500/30 hover:bg-red-500/10 text-red-300 font-semibold text-xs transition-all backdrop-blur-md"
+            >
+              SAVE OVER IT
+            </button>
+          </>
+        ) : pendingSave ? (
+          <>
+            <span className="text-white/60 text-xs font-mono">
+              IMPORT {pendingSave.lifetimePoints.toLocaleString()} PTS SAVE:
+            </span>
+            <button
+              onClick={() => handleImportSave('merge')}
+              className="px-4 py-2 rounded-full border border-green-500/30 hover:bg-green-500/10 text-green-300 font-semibold text-xs transition-all backdrop-blur-md"
+            >
+              MERGE
+            </button>
+            <button
+              onClick={() => handleImportSave('overwrite')}
+              className="px-4 py-2 rounded-full border border-red-500/30 hover:bg-red-500/10 text-red-300 font-semibold text-xs transition-all backdrop-blur-md"
+            >
+              OVERWRITE
+            </button>
+            <button
+              onClick={() => setPendingSave(null)}
+              className="px-4 py-2 rounded-full border border-white/10 hover:bg-white/10 text-white/60 hover:text-white font-semibold text-xs transition-all backdrop-blur-md"
+            >
+              CANCEL
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              onClick={handleExportSave}
+              className="px-4 py-2 rounded-full border border-white/10 hover:bg-white/10 text-white/60 hover:text-white font-semibold text-xs transition-all backdrop-blur-md"
+            >
+              💾 EXPORT SAVE
+            </button>
+            <button
+              onClick={() => saveInputRef.current?.click()}
+              className="px-4 py-2 rounded-full border border-white/10 hover:bg-white/10 text-white/60 hover:text-white font-semibold text-xs transition-all backdrop-blur-md"
+            >
+              📥 IMPORT SAVE
+            </button>
+          </>
+        )}
+        <input
+          ref={saveInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleSaveFile}
+          className="hidden"
+        />
+      </div>
+      {saveMessage && (
+        <p className={`mt-2 text-xs font-mono ${saveMessage.isError ? 'text-red-400' : 'text-green-400'}`}>{saveMessage.text}</p>
+      )}
+
       <div className="mt-8 text-white/30 text-xs font-mono text-center">
         <div>↑↓ SWITCH LANES  •  ←→ DODGE  •  SPACE JUMP</div>
       </div>
@@ -0,0 +1,513 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Track, TRACKS, Hazard } from '../lib/tracks';
+import { getWallOffset } from '../lib/trackGeometry';
+import {
+  TRACK_LIMITS,
+  HAZARD_SIZES,
+  createBlankTrack,
+  createTrackId,
+  checkpointAt,
+  sortCheckpoints,
+  isLoopClosed,
+  tryBuildGeometry,
+  validateTrack,
+  readTrack,
+  parseTrackFile,
+  downloadTrackFile
+} from '../lib/trackEditor';
+import { getCustomTracks, saveCustomTrack, deleteCustomTrack } from '../lib/saveProfile';
+
+interface TrackEditorProps {
+  initialTrack: Track | null; // Track to keep editing, e.g. after a test drive
+  onTestDrive: (track: Track) => void;
+  onTracksChanged: (tracks: Track[]) => void; // Saved custom tracks changed
+  onBack: () => void;
+}
+
+type EditorTool = 'line' | 'start' | 'checkpoint' | 'hazard' | 'shortcut' | 'erase';
+
+const TOOLS: { id: EditorTool; label: string; hint: string }[] = [
+  { id: 'line', label: '✏️ LINE', hint: 'Click to add racing line points, drag to move them. Click the first point to close the loop.' },
+  { id: 'start', label: '🏁 START', hint: 'Click a racing line point to put the start/finish line there.' },
+  { id: 'checkpoint', label: '📍 CHECKPOINT', hint: 'Click on the road to place a checkpoint. They are kept in driving order.' },
+  { id: 'hazard', label: '⚠️ HAZARD', hint: 'Click to drop a hazard of the chosen type.' },
+  { id: 'shortcut', label: '⚡ SHORTCUT', hint: 'Click to mark a shortcut area.' },
+  { id: 'erase', label: '🗑️ ERASE', hint: 'Click a point, checkpoint, hazard or shortcut to remove it.' }
+];
+
+const HIT_RADIUS = 14;
+
+// The editor keeps the racing line open; the loop is closed when the track is built
+function toDraft(track: Track): { draft: Track; closed: boolean } {
+  const closed = isLoopClosed(track.racingLine);
+  return { draft: { ...track, racingLine: closed ? track.racingLine.slice(0, -1) : track.racingLine }, closed };
+}
+
+const TrackEditor: React.FC<TrackEditorProps> = ({ initialTrack, onTestDrive, onTracksChanged, onBack }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const dragIndexRef = useRef<number | null>(null);
+
+  const initial = toDraft(initialTrack ?? createBlankTrack());
+  const [draft, setDraft] = useState<Track>(initial.draft);
+  const [closed, setClosed] = useState(initial.closed);
+  const [tool, setTool] = useState<EditorTool>('line');
+  const [hazardType, setHazardType] = useState<Hazard['type']>('cone');
+  const [savedTracks, setSavedTracks] = useState<Track[]>(() => getCustomTracks());
+  const [message, setMessage] = useState<string | null>(null);
+
+  const track = useMemo<Track>(() => ({
+    ...draft,
+    racingLine: closed && draft.racingLine.length > 0 ? [...draft.racingLine, draft.racingLine[0]] : draft.racingLine
+  }), [draft, closed]);
+  const geometry = useMemo(() => tryBuildGeometry(track), [track]);
+  const problems = useMemo(() => validateTrack(track), [track]);
+  const isValid = problems.length === 0;
+  const isSaved = savedTracks.some(saved => saved.id === draft.id);
+
+  const loadTrack = (next: Track) => {
+    const { draft: nextDraft, closed: nextClosed } = toDraft(next);
+    setDraft(nextDraft);
+    setClosed(nextClosed);
+  };
+
+  const update = (changes: Partial<Track>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  // --- Canvas input ---
+  const toTrackPoint = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return {
+      x: Math.round((e.clientX - rect.left) * draft.width / rect.width),
+      y: Math.round((e.clientY - rect.top) * draft.height / rect.height)
+    };
+  };
+
+  const pointIndexAt = (x: number, y: number) =>
+    draft.racingLine.findIndex(point => Math.hypot(point.x - x, point.y - y) <= HIT_RADIUS);
+
+  const contains = (rect: { x: number; y: number; width: number; height: number }, x: number, y: number) =>
+    x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height;
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const { x, y } = toTrackPoint(e);
+    const pointIndex = pointIndexAt(x, y);
+
+    switch (tool) {
+      case 'line':
+        if (pointIndex === 0 && !closed && draft.racingLine.length >= TRACK_LIMITS.minPoints) {
+          setClosed(true);
+        } else if (pointIndex >= 0) {
+          dragIndexRef.current = pointIndex;
+        } else {
+          update({ racingLine: [...draft.racingLine, { x, y }] });
+        }
+        break;
+
+      case 'start':
+        if (pointIndex > 0) {
+          const racingLine = [...draft.racingLine.slice(pointIndex), ...draft.racingLine.slice(0, pointIndex)];
+          const rotated = tryBuildGeometry({ ...draft, racingLine });
+          update({ racingLine, checkpoints: rotated ? sortCheckpoints(rotated, draft.checkpoints) : draft.checkpoints });
+        }
+        break;
+
+      case 'checkpoint':
+        if (!geometry) {
+          setMessage(`Draw at least ${TRACK_LIMITS.minPoints} racing line points first`);
+          break;
+        }
+        update({ checkpoints: sortCheckpoints(geometry, [...draft.checkpoints, checkpointAt(geometry, x, y)]) });
+        break;
+
+      case 'hazard': {
+        const size = HAZARD_SIZES[hazardType];
+        update({ hazards: [...draft.hazards, { x: x - size.width / 2, y: y - size.height / 2, ...size, type: hazardType }] });
+        break;
+      }
+
+      case 'shortcut':
+        update({ shortcuts: [...draft.shortcuts, { x: x - 50, y: y - 75, width: 100, height: 150, timeSave: 0.5, difficulty: 'easy' }] });
+        break;
+
+      case 'erase': {
+        const checkpointIndex = draft.checkpoints.findIndex(c => Math.hypot(c.x - x, c.y - y) <= HIT_RADIUS * 2);
+        const hazardIndex = draft.hazards.findIndex(hazard => contains(hazard, x, y));
+        const shortcutIndex = draft.shortcuts.findIndex(shortcut => contains(shortcut, x, y));
+        if (pointIndex >= 0) {
+          update({ racingLine: draft.racingLine.filter((_, i) => i !== pointIndex) });
+        } else if (checkpointIndex >= 0) {
+          update({ checkpoints: draft.checkpoints.filter((_, i) => i !== checkpointIndex) });
+        } else if (hazardIndex >= 0) {
+          update({ hazards: draft.hazards.filter((_, i) => i !== hazardIndex) });
+        } else if (shortcutIndex >= 0) {
+          update({ shortcuts: draft.shortcuts.filter((_, i) => i !== shortcutIndex) });
+        }
+        break;
+      }
+    }
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const index = dragIndexRef.current;
+    if (index === null) return;
+    const point = toTrackPoint(e);
+    setDraft(prev => ({ ...prev, racingLine: prev.racingLine.map((p, i) => i === index ? point : p) }));
+  };
+
+  const stopDragging = () => {
+    dragIndexRef.current = null;
+  };
+
+  // Re-seat every checkpoint on the current line, e.g. after moving points
+  const snapCheckpoints = () => {
+    if (!geometry) return;
+    update({ checkpoints: sortCheckpoints(geometry, draft.checkpoints.map(c => checkpointAt(geometry, c.x, c.y, c.perfectWindow))) });
+  };
+
+  // --- Drawing ---
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!ctx) return;
+
+    ctx.fillStyle = draft.colors.background;
+    ctx.fillRect(0, 0, draft.width, draft.height);
+
+    // Grid
+    ctx.strokeStyle = '#ffffff10';
+    ctx.lineWidth = 1;
+    for (let gx = 0; gx <= draft.width; gx += 100) {
+      ctx.beginPath();
+      ctx.moveTo(gx, 0);
+      ctx.lineTo(gx, draft.height);
+      ctx.stroke();
+    }
+    for (let gy = 0; gy <= draft.height; gy += 100) {
+      ctx.beginPath();
+      ctx.moveTo(0, gy);
+      ctx.lineTo(draft.width, gy);
+      ctx.stroke();
+    }
+
+    // Road, as it will be driven
+    if (geometry) {
+      ctx.beginPath();
+      geometry.samples.forEach((sample, i) => (i === 0 ? ctx.moveTo(sample.x, sample.y) : ctx.lineTo(sample.x, sample.y)));
+      if (closed) ctx.closePath();
+      ctx.lineJoin = 'round';
+      ctx.strokeStyle = draft.colors.primary + '30';
+      ctx.lineWidth = getWallOffset(geometry) * 2;
+      ctx.stroke();
+      ctx.strokeStyle = draft.colors.track;
+      ctx.lineWidth = geometry.roadWidth;
+      ctx.stroke();
+
+      // Start/finish line
+      const start = geometry.samples[0];
+      const half = geometry.roadWidth / 2;
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = 6;
+      ctx.beginPath();
+      ctx.moveTo(start.x + start.tangentY * half, start.y - start.tangentX * half);
+      ctx.lineTo(start.x - start.tangentY * half, start.y + start.tangentX * half);
+      ctx.stroke();
+    }
+
+    // Control polygon
+    ctx.strokeStyle = draft.colors.accent + '80';
+    ctx.lineWidth = 1;
+    ctx.setLineDash([6, 6]);
+    ctx.beginPath();
+    draft.racingLine.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+    if (closed) ctx.closePath();
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    // Checkpoints, numbered in driving order
+    const half = draft.roadWidth / 2;
+    draft.checkpoints.forEach((checkpoint, i) => {
+      const radians = checkpoint.angle * Math.PI / 180;
+      const dirX = Math.cos(radians);
+      const dirY = -Math.sin(radians);
+      ctx.strokeStyle = draft.colors.primary;
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.moveTo(checkpoint.x + dirY * half, checkpoint.y - dirX * half);
+      ctx.lineTo(checkpoint.x - dirY * half, checkpoint.y + dirX * half);
+      ctx.stroke();
+      // Arrow in the direction it must be crossed
+      ctx.beginPath();
+      ctx.moveTo(checkpoint.x, checkpoint.y);
+      ctx.lineTo(checkpoint.x + dirX * 24, checkpoint.y + dirY * 24);
+      ctx.stroke();
+      ctx.fillStyle = '#ffffff';
+      ctx.font = 'bold 14px monospace';
+      ctx.textAlign = 'center';
+      ctx.fillText(String(i + 1), checkpoint.x - dirX * 16, checkpoint.y - dirY * 16 + 5);
+    });
+
+    // Hazards and shortcuts
+    draft.hazards.forEach(hazard => {
+      ctx.fillStyle = hazard.type === 'oil' ? '#fbbf24' : '#ef4444';
+      ctx.fillRect(hazard.x, hazard.y, hazard.width, hazard.height);
+    });
+    ctx.strokeStyle = '#10b981';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([8, 6]);
+    draft.shortcuts.forEach(shortcut => ctx.strokeRect(shortcut.x, shortcut.y, shortcut.width, shortcut.height));
+    ctx.setLineDash([]);
+
+    // Control points; the first one is the start
+    draft.racingLine.forEach((point, i) => {
+      ctx.fillStyle = i === 0 ? '#ffffff' : draft.colors.accent;
+      ctx.beginPath();
+      ctx.arc(point.x, point.y, i === 0 ? 9 : 6, 0, Math.PI * 2);
+      ctx.fill();
+    });
+  }, [draft, closed, geometry]);
+
+  // --- Actions ---
+  const handleNew = () => {
+    loadTrack(createBlankTrack());
+    setMessage(null);
+  };
+
+  // Built-in tracks are copied so the original is never replaced
+  const handleTemplate = (trackId: string) => {
+    const template = TRACKS.find(t => t.id === trackId);
+    if (!template) return;
+    loadTrack({ ...readTrack(template), id: createTrackId(), name: `${template.name} EDIT` });
+    setMessage(`Copied ${template.name}`);
+  };
+
+  const handleOpenSaved = (trackId: string) => {
+    const saved = savedTracks.find(t => t.id === trackId);
+    if (saved) loadTrack(saved);
+  };
+
+  const handleSave = () => {
+    if (!isValid) return;
+    const tracks = saveCustomTrack(track);
+    setSavedTracks(tracks);
+    onTracksChanged(tracks);
+    setMessage(`Saved ${track.name}`);
+  };
+
+  const handleDelete = () => {
+    if (!isSaved || !window.confirm(`Delete ${draft.name}? Its best time is deleted too.`)) return;
+    const tracks = deleteCustomTrack(draft.id);
+    setSavedTracks(tracks);
+    onTracksChanged(tracks);
+    loadTrack(createBlankTrack());
+    setMessage('Track deleted');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      loadTrack(parseTrackFile(await file.text()));
+      setMessage(`Imported ${file.name} - save it to race it from track select`);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Could not read that track file');
+    }
+  };
+
+  const numberField = (label: string, field: 'laps' | 'roadWidth' | 'runoffWidth' | 'width' | 'height' | 'worldRecord', step = 1) => (
+    <label className="flex items-center justify-between gap-2 text-xs text-white/60">
+      {label}
+      <input
+        type="number"
+        step={step}
+        value={draft[field]}
+        onChange={(e) => update({ [field]: Number(e.target.value) })}
+        className="w-24 bg-slate-900 border border-white/20 rounded px-2 py-1 text-white font-mono text-right"
+      />
+    </label>
+  );
+
+  const activeTool = TOOLS.find(t => t.id === tool)!;
+
+  return (
+    <div className="absolute inset-0 z-20 flex bg-slate-900 text-white">
+      {/* Canvas area */}
+      <div className="flex-1 flex flex-col p-4 min-w-0">
+        <div className="flex items-center gap-2 mb-3 flex-wrap">
+          <button
+            onClick={onBack}
+            className="px-4 py-2 rounded-full bg-slate-800/80 border border-white/20 text-white/80 hover:text-white text-sm"
+          >
+            ← BACK
+          </button>
+          {TOOLS.map(t => (
+            <button
+              key={t.id}
+              onClick={() => setTool(t.id)}
+              className={`px-3 py-2 rounded-lg text-xs font-bold border ${
+                tool === t.id ? 'bg-orange-500/20 border-orange-400 text-orange-200' : 'bg-slate-800 border-white/10 text-white/70 hover:text-white'
+              }`}
+            >
+              {t.label}
+            </button>
+          ))}
+          {tool === 'hazard' && (
+            <select
+              value={hazardType}
+              onChange={(e) => setHazardType(e.target.value as Hazard['type'])}
+              className="bg-slate-800 border border-white/20 rounded-lg px-2 py-2 text-xs"
+            >
+              {Object.keys(HAZARD_SIZES).map(type => <option key={type} value={type}>{type.toUpperCase()}</option>)}
+            </select>
+          )}
+        </div>
+        <p className="text-white/40 text-xs mb-2">{activeTool.hint}</p>
+        <div className="flex-1 min-h-0 flex items-center justify-center">
+          <canvas
+            ref={canvasRef}
+            width={draft.width}
+            height={draft.height}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={stopDragging}
+            onMouseLeave={stopDragging}
+            className="max-w-full max-h-full border border-white/10 rounded-lg cursor-crosshair"
+          />
+        </div>
+      </div>
+
+      {/* Side panel */}
+      <div className="w-80 shrink-0 bg-slate-800/80 border-l border-white/10 p-4 overflow-y-auto space-y-4">
+        <h2 className="text-2xl font-black text-transparent bg-clip-text bg-gradient-to-r from-orange-300 to-yellow-400">
+          TRACK EDITOR
+        </h2>
+
+        <div className="flex gap-2 flex-wrap">
+          <button onClick={handleNew} className="px-3 py-1 rounded bg-slate-700 text-xs font-bold">NEW</button>
+          <select
+            value=""
+            onChange={(e) => handleTemplate(e.target.value)}
+            className="bg-slate-700 rounded px-2 py-1 text-xs"
+          >
+            <option value="">COPY BUILT-IN…</option>
+            {TRACKS.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </select>
+          {savedTracks.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => handleOpenSaved(e.target.value)}
+              className="bg-slate-700 rounded px-2 py-1 text-xs"
+            >
+              <option value="">OPEN SAVED…</option>
+              {savedTracks.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </select>
+          )}
+        </div>
+
+        {/* Track details */}
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={draft.name}
+            maxLength={24}
+            onChange={(e) => update({ name: e.target.value.toUpperCase() })}
+            className="w-full bg-slate-900 border border-white/20 rounded px-2 py-1 font-bold"
+            placeholder="TRACK NAME"
+          />
+          <input
+            type="text"
+            value={draft.description}
+            maxLength={80}
+            onChange={(e) => update({ description: e.target.value })}
+            className="w-full bg-slate-900 border border-white/20 rounded px-2 py-1 text-xs"
+            placeholder="Description"
+          />
+          <div className="flex gap-2">
+            <select
+              value={draft.difficulty}
+              onChange={(e) => update({ difficulty: e.target.value as Track['difficulty'] })}
+              className="flex-1 bg-slate-900 border border-white/20 rounded px-2 py-1 text-xs"
+            >
+              <option value="beginner">BEGINNER</option>
+              <option value="intermediate">INTERMEDIATE</option>
+              <option value="expert">EXPERT</option>
+            </select>
+            <select
+              value={draft.theme}
+              onChange={(e) => {
+                const palette = TRACKS.find(t => t.theme === e.target.value) ?? TRACKS[0];
+                update({ theme: palette.theme, colors: { ...palette.colors } });
+              }}
+              className="flex-1 bg-slate-900 border border-white/20 rounded px-2 py-1 text-xs"
+            >
+              {TRACKS.map(t => <option key={t.theme} value={t.theme}>{t.theme.toUpperCase()}</option>)}
+            </select>
+          </div>
+          {numberField('Laps', 'laps')}
+          {numberField('Road width', 'roadWidth', 5)}
+          {numberField('Run-off width', 'runoffWidth', 5)}
+          {numberField('Area width', 'width', 100)}
+          {numberField('Area height', 'height', 100)}
+          {numberField('Target time (s)', 'worldRecord', 0.5)}
+        </div>
+
+        <div className="flex gap-2 flex-wrap">
+          <button
+            onClick={() => setClosed(!closed)}
+            className="px-3 py-1 rounded bg-slate-700 text-xs font-bold"
+          >
+            {closed ? 'OPEN LOOP' : 'CLOSE LOOP'}
+          </button>
+          <button
+            onClick={snapCheckpoints}
+            disabled={!geometry || draft.checkpoints.length === 0}
+            className="px-3 py-1 rounded bg-slate-700 text-xs font-bold disabled:opacity-40"
+          >
+            SNAP CHECKPOINTS
+          </button>
+        </div>
+
+        <div className="text-[10px] text-white/40 font-mono">
+          {draft.racingLine.length} points • {draft.checkpoints.length} checkpoints • {draft.hazards.length} hazards • {draft.shortcuts.length} shortcuts
+        </div>
+
+        {/* Validation */}
+        <div className={`rounded-lg p-3 text-xs border ${isValid ? 'border-green-500/40 bg-green-500/10 text-green-300' : 'border-red-500/40 bg-red-500/10 text-red-300'}`}>
+          {isValid ? '✓ Track is ready to race' : (
+            <ul className="space-y-1 list-disc list-inside">
+              {problems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => onTestDrive(track)}
+            disabled={!isValid}
+            className="col-span-2 px-4 py-2 rounded-xl bg-gradient-to-r from-orange-500 to-red-500 font-bold disabled:opacity-40"
+          >
+            🏎️ TEST DRIVE
+          </button>
+          <button onClick={handleSave} disabled={!isValid} className="px-3 py-2 rounded-lg bg-cyan-600 text-xs font-bold disabled:opacity-40">
+            💾 SAVE
+          </button>
+          <button onClick={handleDelete} disabled={!isSaved} className="px-3 py-2 rounded-lg bg-slate-700 text-xs font-bold disabled:opacity-40">
+            DELETE
+          </button>
+          <button onClick={() => downloadTrackFile(track)} disabled={!isValid} className="px-3 py-2 rounded-lg bg-slate-700 text-xs font-bold disabled:opacity-40">
+            ⬇ EXPORT
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="px-3 py-2 rounded-lg bg-slate-700 text-xs font-bold">
+            ⬆ IMPORT
+          </button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+        </div>
+
+        {message && <p className="text-xs text-amber-300 font-mono">{message}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default TrackEditor;
@@ -1,19 +1,41 @@
-import React from 'react';
-import { Track, TRACKS, getUnlockedTracks } from '../lib/tracks';
+import React, { useState } from 'react';
+import { Track, TrackDifficulty, TRACKS, TRACK_DIFFICULTIES, getUnlockedTracks, getGeneratedTrackId } from '../lib/tracks';
+import { resolveTrack } from '../lib/trackGenerator';
+import { formatSeed, parseSeed, randomSeed } from '../lib/rng';
+import { AI_SKILLS, AI_SKILL_LABELS, DriftOpponentSettings, OPPONENT_COUNTS } from '../lib/driftAI';
+import { DRIFT_MEDALS, MEDAL_COLORS, MEDAL_ICONS, MEDAL_LABELS, getMedalTime, getMedalTotal, getMedalValue } from '../lib/driftMedals';
+import { getDriftMedals } from '../lib/saveProfile';
+import DriftLeaderboard from './DriftLeaderboard';
 
 interface TrackSelectionProps {
   onSelectTrack: (track: Track) => void;
   onBack: () => void;
-  playerHighScore: number;
+  onOpenEditor: () => void;
+  onOpenChampionship: () => void;
+  lifetimePoints: number; // Tracks unlock on lifetime points, like characters, and on medals
+  customTracks: Track[]; // Player-made tracks, always unlocked
+  opponents: DriftOpponentSettings;
+  onOpponentsChange: (opponents: DriftOpponentSettings) => void;
 }
 
 const TrackSelection: React.FC<TrackSelectionProps> = ({
   onSelectTrack,
   onBack,
-  playerHighScore,
+  onOpenEditor,
+  onOpenChampionship,
+  lifetimePoints,
+  customTracks,
+  opponents,
+  onOpponentsChange,
 }) => {
-  const unlockedTracks = getUnlockedTracks(playerHighScore);
+  const medals = getDriftMedals();
+  const medalTotal = getMedalTotal(medals);
+  const unlockedTracks = getUnlockedTracks(lifetimePoints, medalTotal);
   const unlockedTrackIds = new Set(unlockedTracks.map(t => t.id));
+  const [leaderboardTrackId, setLeaderboardTrackId] = useState<string | null>(null);
+  const [seedText, setSeedText] = useState(() => formatSeed(randomSeed()));
+  const [generatorDifficulty, setGeneratorDifficulty] = useState<TrackDifficulty>('intermediate');
+  const seed = parseSeed(seedText);
 
   const getDifficultyColor = (difficulty: string) => {
     switch (difficulty) {
@@ -33,6 +55,10 @@ const TrackSelection: React.FC<TrackSelectionProps> = ({
     }
   };
 
+  if (leaderboardTrackId) {
+    return <DriftLeaderboard initialTrackId={leaderboardTrackId} onBack={() => setLeaderboardTrackId(null)} />;
+  }
+
   return (
     <div className="absolute inset-0 flex flex-col items-center justify-center z-10 p-6 bg-gradient-to-br from-slate-900 via-slate-900 to-orange-900/20">
       {/* Back Button */}
@@ -43,6 +69,28 @@ const TrackSelection: React.FC<TrackSelectionProps> = ({
         ← BACK
       </button>
 
+      {/* Leaderboard & Editor Buttons */}
+      <div className="absolute top-6 right-6 flex gap-2">
+        <button
+          onClick={onOpenChampionship}
+          className="px-4 py-2 rounded-full bg-slate-800/80 border border-yellow-400/40 text-yellow-300 hover:text-yellow-200 hover:border-yellow-300 transition-all backdrop-blur-md"
+        >
+          🏁 CHAMPIONSHIP
+        </button>
+        <button
+          onClick={onOpenEditor}
+          className="px-4 py-2 rounded-full bg-slate-800/80 border border-white/20 text-white/80 hover:text-white hover:border-white/40 transition-all backdrop-blur-md"
+        >
+          ✏️ TRACK EDITOR
+        </button>
+        <button
+          onClick={() => setLeaderboardTrackId(TRACKS[0].id)}
+          className="px-4 py-2 rounded-full bg-slate-800/80 border border-orange-400/40 text-orange-300 hover:text-orange-200 hover:border-orange-300 transition-all backdrop-blur-md"
+        >
+          🏆 LEADERBOARD
+        </button>
+      </div>
+
       {/* Title */}
       <div className="relative mb-8">
         <h1 className="text-5xl md:text-7xl font-black mb-2 tracking-tight drop-shadow-2xl text-center select-none">
@@ -53,10 +101,44 @@ const TrackSelection: React.FC<TrackSelectionProps> = ({
         <p className="text-white/60 text-center text-sm">Choose your circuit and chase the fastest time</p>
       </div>
 
+      {/* CPU Opponents */}
+      <div className="mb-6 flex flex-wrap items-center justify-center gap-3">
+        <span className="text-white/60 text-xs font-bold uppercase tracking-wider">🏎️ CPU Cars</span>
+        <div className="flex gap-1">
+          {OPPONENT_COUNTS.map(count => (
+            <button
+              key={count}
+              onClick={() => onOpponentsChange({ ...opponents, count })}
+              className={`w-10 py-1 rounded-full text-xs font-bold transition-all ${
+                count === opponents.count ? 'bg-orange-500 text-white' : 'bg-slate-700 text-white/50 hover:text-white'
+              }`}
+            >
+              {count === 0 ? 'OFF' : count}
+            </button>
+          ))}
+        </div>
+        {opponents.count > 0 && (
+          <div className="flex gap-1">
+            {AI_SKILLS.map(skill => (
+              <button
+                key={skill}
+                onClick={() => onOpponentsChange({ ...opponents, skill })}
+                className={`px-3 py-1 rounded-full text-xs font-bold uppercase transition-all ${
+                  skill === opponents.skill ? 'bg-yellow-500 text-slate-900' : 'bg-slate-700 text-white/50 hover:text-white'
+                }`}
+              >
+                {AI_SKILL_LABELS[skill]}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Track Cards */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6 max-w-6xl w-full px-4">
-        {TRACKS.map((track) => {
-          const isUnlocked = unlockedTrackIds.has(track.id);
+        {[...TRACKS, ...customTracks].map((track) => {
+          const isCustom = customTracks.includes(track);
+          const isUnlocked = isCustom || unlockedTrackIds.has(track.id);
           const gradientClass = getDifficultyColor(track.difficulty);
 
           return (
@@ -81,6 +163,7 @@ const TrackSelection: React.FC<TrackSelectionProps> = ({
                     <div className="text-sm font-bold text-white">LOCKED</div>
                     <div className="text-xs text-white/60 mt-1">
                       Unlock at {track.unlockScore.toLocaleString()} pts
+                      {track.unlockMedals > 0 && ` + ${track.unlockMedals} medals`}
                     </div>
                   </div>
                 </div>
@@ -89,11 +172,16 @@ const TrackSelection: React.FC<TrackSelectionProps> = ({
               {/* Track Info */}
               <div className="text-center">
                 {/* Difficulty Badge */}
-                <div className="flex justify-center mb-3">
+                <div className="flex justify-center gap-2 mb-3">
                   <div className={`inline-flex items-center gap-2 px-3 py-1 rounded-full bg-gradient-to-r ${gradientClass} text-white text-xs font-bold uppercase`}>
                     <span>{getDifficultyIcon(track.difficulty)}</span>
                     <span>{track.difficulty}</span>
                   </div>
+                  {isCustom && (
+                    <div className="inline-flex items-center px-3 py-1 rounded-full bg-slate-700 text-white/80 text-xs font-bold">
+                      CUSTOM
+                    </div>
+                  )}
                 </div>
 
                 {/* Track Name */}
@@ -118,6 +206,23 @@ const TrackSelection: React.FC<TrackSelectionProps> = ({
                   <div>⚠️ {track.hazards.length} Hazards</div>
                   <div>🏆 WR: {track.worldRecord.toFixed(2)}s</div>
                 </div>
+
+                {/* Medal times, lit up once earned */}
+                <div className="flex justify-center gap-2 mt-3 font-mono text-[10px]">
+                  {DRIFT_MEDALS.map(medal => {
+                    const isEarned = getMedalValue(medals[track.id] ?? null) >= getMedalValue(medal);
+                    return (
+                      <div
+                        key={medal}
+                        title={`${MEDAL_LABELS[medal]}: ${getMedalTime(track, medal).toFixed(2)}s`}
+                        className={isEarned ? '' : 'opacity-30 grayscale'}
+                        style={{ color: isEarned ? MEDAL_COLORS[medal] : undefined }}
+                      >
+                        {MEDAL_ICONS[medal]} {getMedalTime(track, medal).toFixed(1)}
+                      </div>
+                    );
+                  })}
+                </div>
               </div>
 
               {/* Hover Glow Effect */}
@@ -134,13 +239,68 @@ const TrackSelection: React.FC<TrackSelectionProps> = ({
         })}
       </div>
 
+      {/* Generated Track - the same seed and difficulty give everyone the same circuit */}
+      <div className="mt-8 flex flex-wrap items-center justify-center gap-3 px-5 py-4 rounded-2xl bg-slate-800/50 border border-white/10 backdrop-blur-md">
+        <span className="text-white/60 text-xs font-bold uppercase tracking-wider">🎲 Generated</span>
+        <div className="flex items-center gap-1">
+          <span className="text-white/40 font-mono">#</span>
+          <input
+            type="text"
+            maxLength={8}
+            value={seedText}
+            onChange={(e) => setSeedText(e.target.value.toUpperCase())}
+            className={`w-28 bg-slate-900 border-2 rounded-lg px-2 py-1 font-mono text-white uppercase tracking-widest focus:outline-none ${
+              seed === null ? 'border-red-500' : 'border-slate-600 focus:border-orange-400'
+            }`}
+            placeholder="SEED"
+          />
+          <button
+            onClick={() => setSeedText(formatSeed(randomSeed()))}
+            className="px-2 py-1 rounded-lg bg-slate-700 text-white/80 hover:text-white text-sm"
+            title="Random seed"
+          >
+            🔀
+          </button>
+        </div>
+        <div className="flex gap-1">
+          {TRACK_DIFFICULTIES.map(difficulty => (
+            <button
+              key={difficulty}
+              onClick={() => setGeneratorDifficulty(difficulty)}
+              className={`px-3 py-1 rounded-full text-xs font-bold uppercase transition-all ${
+                difficulty === generatorDifficulty
+                  ? `bg-gradient-to-r ${getDifficultyColor(difficulty)} text-white`
+                  : 'bg-slate-700 text-white/50 hover:text-white'
+              }`}
+            >
+              {getDifficultyIcon(difficulty)} {difficulty}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => seed !== null && onSelectTrack(resolveTrack(getGeneratedTrackId(seed, generatorDifficulty))!)}
+          disabled={seed === null}
+          className="px-5 py-1.5 rounded-full bg-gradient-to-r from-orange-500 to-yellow-500 text-white font-bold text-sm disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          RACE
+        </button>
+        <button
+          onClick={() => seed !== null && setLeaderboardTrackId(getGeneratedTrackId(seed, generatorDifficulty))}
+          disabled={seed === null}
+          className="px-3 py-1.5 rounded-full bg-slate-700 text-orange-300 text-sm disabled:opacity-40 disabled:cursor-not-allowed"
+          title="Leaderboard for this seed"
+        >
+          🏆
+        </button>
+      </div>
+
       {/* Info Footer */}
       <div className="mt-8 text-center">
         <div className="text-white/40 text-xs font-mono mb-2">
-          Unlocked Tracks: {unlockedTracks.length}/{TRACKS.length}
+          Unlocked Tracks: {unlockedTracks.length}/{TRACKS.length} • 🏅 Medals: {medalTotal}/{TRACKS.length * DRIFT_MEDALS.length}
         </div>
         <div className="text-white/30 text-[10px] font-mono">
-          Earn points in Racing mode to unlock more tracks
+          Earn points in Racing mode and medals in Drift Attack to unlock more tracks
         </div>
       </div>
     </div>
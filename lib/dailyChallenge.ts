@@ -0,0 +1,36 @@
+import { ThemeId } from '../types';
+import { THEMES, CHARACTERS } from '../constants';
+import { createRng, seedFromString } from './rng';
+
+// Daily Challenge: everyone racing on the same UTC day gets the same seed,
+// theme and driver, and competes on that day's leaderboard.
+
+export interface DailyChallenge {
+  date: string; // UTC day, YYYY-MM-DD
+  seed: number;
+  themeId: ThemeId;
+  characterId: string;
+}
+
+export function getChallengeDate(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+export function getDailyChallenge(now: Date = new Date()): DailyChallenge {
+  const date = getChallengeDate(now);
+  const seed = seedFromString(`daily-${date}`);
+
+  // Derive the day's constraints from the seed so they can't drift from it
+  const random = createRng(seed);
+  const themeIds = Object.keys(THEMES) as ThemeId[];
+  const themeId = themeIds[Math.floor(random() * themeIds.length)];
+  const characterId = CHARACTERS[Math.floor(random() * CHARACTERS.length)].id;
+
+  return { date, seed, themeId, characterId };
+}
+
+// Milliseconds until the next challenge unlocks (UTC midnight)
+export function getTimeUntilNextChallenge(now: Date = new Date()): number {
+  const next = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return next - now.getTime();
+}
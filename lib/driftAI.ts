@@ -0,0 +1,316 @@
+import { Track, Shortcut } from './tracks';
+import { TrackGeometry, TrackPosition, TrackSample, locateOnTrack, getWallOffset } from './trackGeometry';
+import { LapTimer, TimingGate } from './lapTimer';
+import { DriftCar, DriftInput } from './driftCar';
+import { SHORTCUT_RULES } from './driftHazards';
+import { Rng, createRng } from './rng';
+
+// CPU drivers for Drift Attack. They only choose inputs - the car itself runs
+// on the same stepDriftCar physics as the player's - by steering at a point a
+// little way down the racing line, never past the next gate, easing off
+// before corners, steering round oil and barriers and drifting into shortcuts
+// that need it. A car that keeps getting pinned gives up and retires.
+
+export type DriftAISkill = 'rookie' | 'pro' | 'ace';
+
+export const AI_SKILLS: DriftAISkill[] = ['rookie', 'pro', 'ace'];
+
+export const AI_SKILL_LABELS: Record<DriftAISkill, string> = {
+  rookie: 'Rookie',
+  pro: 'Pro',
+  ace: 'Ace'
+};
+
+export interface DriftOpponentSettings {
+  count: number; // 0 races alone against ghosts
+  skill: DriftAISkill;
+}
+
+export const OPPONENT_COUNTS = [0, 1, 3, 5];
+
+export const DEFAULT_OPPONENTS: DriftOpponentSettings = { count: 3, skill: 'pro' };
+
+interface SkillSettings {
+  topSpeed: number; // Fraction of the car's top speed on the straights
+  cornerSpeed: number; // Fraction of the car's top speed through a right-angle bend
+  lookahead: number; // Px down the line to steer at, plus a little per unit of speed
+  brakeLookahead: number; // Px ahead to read the next corner from
+  steerDeadzone: number; // Radians of heading error ignored
+  driftAngle: number; // Heading error (radians) at which the driver drifts to tighten the turn
+  wander: number; // Px the car drifts off the ideal line
+  mistakeChance: number; // Per frame chance of a lift or a late turn-in
+}
+
+const SKILLS: Record<DriftAISkill, SkillSettings> = {
+  rookie: {
+    topSpeed: 0.72, cornerSpeed: 0.4, lookahead: 70, brakeLookahead: 160,
+    steerDeadzone: 0.12, driftAngle: 0.6, wander: 30, mistakeChance: 0.006
+  },
+  pro: {
+    topSpeed: 0.88, cornerSpeed: 0.5, lookahead: 80, brakeLookahead: 200,
+    steerDeadzone: 0.06, driftAngle: 0.4, wander: 18, mistakeChance: 0.002
+  },
+  ace: {
+    topSpeed: 1, cornerSpeed: 0.58, lookahead: 90, brakeLookahead: 240,
+    steerDeadzone: 0.03, driftAngle: 0.25, wander: 8, mistakeChance: 0
+  }
+};
+
+const MISTAKE_FRAMES = 30;
+const MIN_LOOKAHEAD = 40;
+const AVOID_RANGE = 250; // Px ahead a hazard starts to matter
+const AVOID_CLEARANCE = 30; // Px kept between the car's line and a hazard's edge
+const SHORTCUT_LOOKAHEAD = 40; // Px ahead at which to start a drift into a shortcut
+const STUCK_FRAMES = 40; // Crawling this long means the car is pinned on something
+const REVERSE_FRAMES = 45;
+const REVERSE_GATE_MARGIN = 20; // Px short of the gate behind at which reversing stops
+const SIDESTEP_DISTANCE = 200; // Px down the lap a pinned car holds its new line for
+const MAX_RECOVERIES = 5; // Times in a row a car can get pinned before it retires
+
+const COASTING: DriftInput = { accelerate: false, brake: false, left: false, right: false, drift: false };
+
+const wrapAngle = (angle: number) => Math.atan2(Math.sin(angle), Math.cos(angle));
+const wrapDistance = (geometry: TrackGeometry, distance: number) =>
+  ((distance % geometry.length) + geometry.length) % geometry.length;
+
+// Along-track distance of each timing gate
+const gateDistanceCache = new WeakMap<TimingGate, number>();
+
+function getGateDistance(geometry: TrackGeometry, gate: TimingGate): number {
+  let distance = gateDistanceCache.get(gate);
+  if (distance === undefined) {
+    distance = locateOnTrack(geometry, gate.x, gate.y).distance;
+    gateDistanceCache.set(gate, distance);
+  }
+  return distance;
+}
+
+// Centerline sample at a distance along the lap, wrapping past the finish
+function sampleAtDistance(geometry: TrackGeometry, distance: number): TrackSample {
+  const { samples } = geometry;
+  const wrapped = wrapDistance(geometry, distance);
+  let low = 0;
+  let high = samples.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (samples[mid].distance <= wrapped) low = mid;
+    else high = mid - 1;
+  }
+  return samples[low];
+}
+
+// Grid slots behind the start line, two abreast, for the CPU cars
+export function getGridPose(geometry: TrackGeometry, slot: number): { x: number; y: number; angle: number } {
+  const row = Math.floor(slot / 2) + 1;
+  const side = slot % 2 === 0 ? -1 : 1;
+  const sample = sampleAtDistance(geometry, -row * 80);
+  const lateral = side * geometry.roadWidth / 4;
+  return {
+    x: sample.x - sample.tangentY * lateral,
+    y: sample.y + sample.tangentX * lateral,
+    angle: Math.atan2(sample.tangentY, sample.tangentX)
+  };
+}
+
+// A hazard to steer round, placed along the lap
+interface Obstacle {
+  distance: number;
+  offset: number;
+  halfSize: number;
+}
+
+// A line off to one side, held after backing off whatever pinned the car
+interface Sidestep {
+  offset: number;
+  until: number; // Distance along the lap where the car rejoins its line
+}
+
+export class DriftAIDriver {
+  private readonly geometry: TrackGeometry;
+  private readonly settings: SkillSettings;
+  private readonly random: Rng;
+  private readonly obstacles: Obstacle[];
+  private readonly driftShortcuts: Shortcut[];
+  private lineOffset = 0; // Px right of the centerline the driver is aiming for
+  private lineOffsetTarget = 0;
+  private mistakeFrames = 0;
+  private stuckFrames = 0;
+  private reverseFrames = 0;
+  private reverseSteer = 0; // Which way the nose swings while reversing, 1 clockwise
+  private sidestep: Sidestep | null = null;
+  private recoveries = 0; // Times pinned since the car last got clear
+  private aimedGate: TimingGate | null = null;
+  private passedGateDistance = 0; // Where the last gate crossed sits, starting with the start line
+  retired = false; // Gave up after getting pinned too often; the car just rolls to a stop
+
+  // Oil and barriers are avoided; cones just get knocked aside
+  constructor(track: Track, geometry: TrackGeometry, skill: DriftAISkill, seed: number) {
+    this.geometry = geometry;
+    this.settings = SKILLS[skill];
+    this.random = createRng(seed);
+    this.driftShortcuts = track.shortcuts.filter(shortcut => SHORTCUT_RULES[shortcut.difficulty].drift);
+    this.obstacles = track.hazards
+      .filter(hazard => hazard.type !== 'cone')
+      .map(hazard => {
+        const position = locateOnTrack(geometry, hazard.x + hazard.width / 2, hazard.y + hazard.height / 2);
+        return { distance: position.distance, offset: position.offset, halfSize: Math.max(hazard.width, hazard.height) / 2 };
+      });
+  }
+
+  // Line offset that clears every hazard coming up, moving as little as
+  // possible. Passing one hazard on the wrong side can leave no room for the next.
+  private avoidObstacles(distance: number): number {
+    // Run-off is slow but better than a barrier
+    const halfRoad = getWallOffset(this.geometry) - 20;
+    const ahead = this.obstacles
+      .map(obstacle => {
+        // Keep clear until the car is past the hazard, not just level with it
+        const toObstacle = wrapDistance(this.geometry, obstacle.distance - distance);
+        const passed = this.geometry.length - toObstacle;
+        return { ...obstacle, ahead: passed < obstacle.halfSize + AVOID_CLEARANCE ? -passed : toObstacle };
+      })
+      .filter(obstacle => obstacle.ahead < AVOID_RANGE)
+      .sort((a, b) => a.ahead - b.ahead);
+    const blocks = (offset: number, obstacle: Obstacle) =>
+      Math.abs(obstacle.offset - offset) < obstacle.halfSize + AVOID_CLEARANCE;
+    if (!ahead.some(obstacle => blocks(this.lineOffset, obstacle))) return this.lineOffset;
+
+    // Try passing each hazard on either side, with a pixel spare so rounding can't count it as blocked
+    const candidates = ahead
+      .flatMap(obstacle => [-1, 1].map(side => obstacle.offset + side * (obstacle.halfSize + AVOID_CLEARANCE + 1)))
+      .map(offset => Math.max(-halfRoad, Math.min(halfRoad, offset)))
+      .sort((a, b) => Math.abs(a - this.lineOffset) - Math.abs(b - this.lineOffset));
+    const clear = candidates.find(offset => !ahead.some(obstacle => blocks(offset, obstacle)));
+    if (clear !== undefined) return clear;
+
+    // No line clears them all: get round the nearest on whichever side has more road
+    const nearest = ahead.find(obstacle => blocks(this.lineOffset, obstacle))!;
+    const clearance = nearest.halfSize + AVOID_CLEARANCE;
+    const offset = nearest.offset > 0 ? nearest.offset - clearance : nearest.offset + clearance;
+    return Math.max(-halfRoad, Math.min(halfRoad, offset));
+  }
+
+  // A line that gets round whatever the car is pinned on: the roomier side of
+  // a barrier or oil alongside, or else away from the wall it is against
+  private findSidestep(position: TrackPosition): Sidestep {
+    const wall = getWallOffset(this.geometry);
+    const halfRoad = wall - 20;
+    const alongside = this.obstacles.find(obstacle => {
+      const apart = Math.abs(obstacle.distance - position.distance);
+      return Math.min(apart, this.geometry.length - apart) < obstacle.halfSize + AVOID_CLEARANCE;
+    });
+    let offset = position.offset > 0 ? -this.geometry.roadWidth / 4 : this.geometry.roadWidth / 4;
+    if (alongside) {
+      // Halfway between its edge and the wall on whichever side has more room
+      const leftEdge = alongside.offset - alongside.halfSize;
+      const rightEdge = alongside.offset + alongside.halfSize;
+      offset = leftEdge + wall > wall - rightEdge ? (leftEdge - wall) / 2 : (rightEdge + wall) / 2;
+    }
+    return {
+      offset: Math.max(-halfRoad, Math.min(halfRoad, offset)),
+      until: wrapDistance(this.geometry, position.distance + SIDESTEP_DISTANCE)
+    };
+  }
+
+  // nextGate: the gate the car's lap timer is waiting for
+  getInput(car: DriftCar, nextGate: TimingGate): DriftInput {
+    const { geometry, settings, random } = this;
+    if (this.retired) return COASTING;
+    const position = locateOnTrack(geometry, car.x, car.y);
+    if (nextGate !== this.aimedGate) {
+      if (this.aimedGate) this.passedGateDistance = getGateDistance(geometry, this.aimedGate);
+      this.aimedGate = nextGate;
+    }
+
+    // Hold the sidestep line until the car is well past what pinned it
+    if (this.sidestep && wrapDistance(geometry, this.sidestep.until - position.distance) > geometry.length / 2) {
+      this.sidestep = null;
+      this.recoveries = 0;
+    }
+
+    // Wander slowly around the ideal line
+    if (random() < 0.01) this.lineOffsetTarget = (random() * 2 - 1) * settings.wander;
+    this.lineOffset += (this.lineOffsetTarget - this.lineOffset) * 0.02;
+    if (this.mistakeFrames > 0) {
+      this.mistakeFrames--;
+    } else if (random() < settings.mistakeChance) {
+      this.mistakeFrames = MISTAKE_FRAMES;
+    }
+    const isMistake = this.mistakeFrames > 0;
+
+    // Pinned against a barrier or wall: back off, then take a line that
+    // clears it. Backing into something is no reason to reverse again.
+    this.stuckFrames = Math.abs(car.speed) < 1 && this.reverseFrames === 0 ? this.stuckFrames + 1 : 0;
+    const isPinned = this.stuckFrames > STUCK_FRAMES;
+    if (isPinned) {
+      this.stuckFrames = 0;
+      if (++this.recoveries > MAX_RECOVERIES) {
+        this.retired = true;
+        return COASTING;
+      }
+      this.sidestep = this.findSidestep(position);
+      this.reverseFrames = REVERSE_FRAMES;
+    }
+
+    // Steer at a point down the line. Looking past the next gate would cut
+    // the corner it sits on and miss it. Sidestepping looks only just ahead,
+    // so the car keeps to its new line instead of cutting back across.
+    const toGate = wrapDistance(geometry, getGateDistance(geometry, nextGate) - position.distance);
+    const lookahead = this.sidestep
+      ? MIN_LOOKAHEAD
+      : Math.min(settings.lookahead + car.speed * 4, Math.max(toGate, MIN_LOOKAHEAD));
+    const target = sampleAtDistance(geometry, position.distance + lookahead);
+    const lineOffset = this.sidestep ? this.sidestep.offset : this.avoidObstacles(position.distance);
+    const targetX = target.x - target.tangentY * lineOffset;
+    const targetY = target.y + target.tangentX * lineOffset;
+    const headingError = wrapAngle(Math.atan2(targetY - car.y, targetX - car.x) - car.angle);
+
+    // Reverse with the wheel held one way, so the nose swings round towards
+    // the new line. Backing over the last gate would count as going the wrong way.
+    if (isPinned) this.reverseSteer = headingError >= 0 ? 1 : -1;
+    if (this.reverseFrames > 0 && wrapDistance(geometry, position.distance - this.passedGateDistance) < REVERSE_GATE_MARGIN) {
+      this.reverseFrames = 0;
+    }
+    if (this.reverseFrames > 0) {
+      this.reverseFrames--;
+      // Reversing turns the car the opposite way to the wheel
+      return { accelerate: false, brake: true, left: this.reverseSteer > 0, right: this.reverseSteer < 0, drift: false };
+    }
+    // A mistake turns in late
+    const deadzone = isMistake ? settings.steerDeadzone * 4 : settings.steerDeadzone;
+
+    // Read how sharp the coming bend is and pick a speed for it
+    const here = sampleAtDistance(geometry, position.distance);
+    const ahead = sampleAtDistance(geometry, position.distance + settings.brakeLookahead);
+    const bend = Math.abs(wrapAngle(Math.atan2(ahead.tangentY, ahead.tangentX) - Math.atan2(here.tangentY, here.tangentX)));
+    const sharpness = Math.min(1, bend / (Math.PI / 2));
+    const targetSpeed = car.spec.maxSpeed * (settings.topSpeed - (settings.topSpeed - settings.cornerSpeed) * sharpness);
+
+    return {
+      accelerate: !isMistake && car.speed < targetSpeed,
+      brake: car.speed > targetSpeed + 1,
+      left: headingError < -deadzone,
+      right: headingError > deadzone,
+      // The car turns on a fixed radius at any speed; only a drift tightens it
+      drift: Math.abs(headingError) > settings.driftAngle || this.isShortcutAhead(car)
+    };
+  }
+
+  private isShortcutAhead(car: DriftCar): boolean {
+    const x = car.x + Math.cos(car.angle) * SHORTCUT_LOOKAHEAD;
+    const y = car.y + Math.sin(car.angle) * SHORTCUT_LOOKAHEAD;
+    return this.driftShortcuts.some(shortcut =>
+      x > shortcut.x && x < shortcut.x + shortcut.width && y > shortcut.y && y < shortcut.y + shortcut.height);
+  }
+}
+
+// --- Race order ---
+
+// How far through the race a car is: gates crossed, then closeness to the next
+// gate. Only meaningful for comparing cars on the same track.
+export function getRaceProgress(timer: LapTimer, geometry: TrackGeometry, x: number, y: number): number {
+  if (timer.finished) return Infinity;
+  const gate = timer.gates[timer.nextGate];
+  const toNextGate = wrapDistance(geometry, getGateDistance(geometry, gate) - locateOnTrack(geometry, x, y).distance);
+  return timer.splits.length * geometry.length - toNextGate;
+}
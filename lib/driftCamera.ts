@@ -0,0 +1,79 @@
+import { DriftCar, MAX_SPEED } from './driftCar';
+
+// Follow camera for Drift Attack. The view centres a little ahead of the car,
+// pulls back as it speeds up, and in chase mode turns so the car faces up the
+// screen. Everything eases towards its target so bumps and drifts don't shake it.
+
+export type CameraMode = 'chase' | 'overhead';
+
+export const CAMERA_MODE_LABELS: Record<CameraMode, string> = {
+  chase: 'Chase cam',
+  overhead: 'Overhead cam'
+};
+
+export interface DriftCamera {
+  x: number; // World point at the centre of the screen
+  y: number;
+  rotation: number; // Radians the world is turned on screen
+  viewSize: number; // World px visible across the shorter screen side
+}
+
+const VIEW_SIZE_STOPPED = 700;
+const VIEW_SIZE_FLAT_OUT = 1000;
+const LOOK_AHEAD = 12; // World px ahead of the car per unit of speed
+const FOLLOW_RATE = 0.15;
+const ROTATE_RATE = 0.08;
+const ZOOM_RATE = 0.03;
+
+const wrapAngle = (angle: number) => Math.atan2(Math.sin(angle), Math.cos(angle));
+
+// Rotation that points a car heading along angle straight up the screen
+const chaseRotation = (angle: number) => -Math.PI / 2 - angle;
+
+export function createDriftCamera(car: DriftCar, mode: CameraMode): DriftCamera {
+  return {
+    x: car.x,
+    y: car.y,
+    rotation: mode === 'chase' ? chaseRotation(car.angle) : 0,
+    viewSize: VIEW_SIZE_STOPPED
+  };
+}
+
+export function nextCameraMode(mode: CameraMode): CameraMode {
+  return mode === 'chase' ? 'overhead' : 'chase';
+}
+
+// Ease the camera one step towards the car
+export function updateDriftCamera(camera: DriftCamera, car: DriftCar, mode: CameraMode): void {
+  const targetX = car.x + Math.cos(car.angle) * car.speed * LOOK_AHEAD;
+  const targetY = car.y + Math.sin(car.angle) * car.speed * LOOK_AHEAD;
+  camera.x += (targetX - camera.x) * FOLLOW_RATE;
+  camera.y += (targetY - camera.y) * FOLLOW_RATE;
+
+  const targetRotation = mode === 'chase' ? chaseRotation(car.angle) : 0;
+  camera.rotation += wrapAngle(targetRotation - camera.rotation) * ROTATE_RATE;
+
+  const speedRatio = Math.min(1, Math.abs(car.speed) / MAX_SPEED);
+  const targetViewSize = VIEW_SIZE_STOPPED + (VIEW_SIZE_FLAT_OUT - VIEW_SIZE_STOPPED) * speedRatio;
+  camera.viewSize += (targetViewSize - camera.viewSize) * ZOOM_RATE;
+}
+
+// Camera part way between two steps, for drawing frames in between
+export function interpolateDriftCamera(from: DriftCamera, to: DriftCamera, alpha: number): DriftCamera {
+  return {
+    x: from.x + (to.x - from.x) * alpha,
+    y: from.y + (to.y - from.y) * alpha,
+    rotation: from.rotation + wrapAngle(to.rotation - from.rotation) * alpha,
+    viewSize: from.viewSize + (to.viewSize - from.viewSize) * alpha
+  };
+}
+
+// Set the canvas transform so world coordinates draw through the camera
+export function applyDriftCamera(ctx: CanvasRenderingContext2D, camera: DriftCamera, width: number, height: number): void {
+  const zoom = Math.min(width, height) / camera.viewSize;
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.translate(width / 2, height / 2);
+  ctx.scale(zoom, zoom);
+  ctx.rotate(camera.rotation);
+  ctx.translate(-camera.x, -camera.y);
+}
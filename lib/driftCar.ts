@@ -0,0 +1,318 @@
+import { TrackGeometry, Surface, constrainToTrack } from './trackGeometry';
+
+// Drift Attack car physics, shared by the player and the CPU drivers. One call
+// to stepDriftCar is one 60fps frame; nothing in here touches React or a canvas.
+// How a car handles comes from its CarSpec: a class (grip, drift, heavy) with
+// the player's tuning applied on top.
+
+export const CAR_WIDTH = 40;
+export const CAR_HEIGHT = 60;
+export const MAX_SPEED = 12; // Top speed of the grip class; other speeds are scaled against it
+const REVERSE_MAX_SPEED = 3;
+const BOOST_DRAIN_RATE = 3;
+const BOOST_THRESHOLD = 30; // Meter needed for a drift to end in a boost
+const RUNOFF_MAX_SPEED = MAX_SPEED * 0.5; // Run-off bleeds speed down to this
+const RUNOFF_DRAG = 0.92;
+const WALL_SPEED_RETAIN = 0.3; // Fraction of speed kept after hitting a wall
+const SPIN_FRAMES = 45;
+const SPIN_RATE = 0.35; // Radians per frame at full speed when a spin starts
+const SPIN_DRAG = 0.98;
+
+// Car-to-car contact
+const CAR_RADIUS = CAR_WIDTH / 2 + 2;
+const MAX_PUSH = 4; // Px a car can be shoved per frame
+const BUMP_SPEED_RETAIN = 0.8; // The car that runs into another loses this much
+
+// --- Car classes and tuning ---
+
+export interface CarSpec {
+  maxSpeed: number; // Px per frame
+  acceleration: number;
+  friction: number; // Speed kept per frame when coasting
+  turnSpeed: number; // Radians per frame at top speed
+  driftTurnSpeed: number;
+  driftSpeedMultiplier: number; // Fraction of speed carried while drifting
+  driftMeterRate: number; // Boost meter gained per frame of drift
+  boostSpeedMultiplier: number;
+  boostFrames: number;
+  mass: number; // 1 for the grip class; heavier cars shove lighter ones and shrug off spins
+}
+
+export type CarClass = 'grip' | 'drift' | 'heavy';
+
+export const CAR_CLASSES: CarClass[] = ['grip', 'drift', 'heavy'];
+
+export const CAR_CLASS_LABELS: Record<CarClass, string> = {
+  grip: 'Grip',
+  drift: 'Drift',
+  heavy: 'Heavy'
+};
+
+export const CAR_CLASS_DESCRIPTIONS: Record<CarClass, string> = {
+  grip: 'Balanced and sharp on turn-in',
+  drift: 'Slides wide, holds speed sideways, builds boost fast',
+  heavy: 'Slow to get going, fastest flat out, hard to knock about'
+};
+
+export const CAR_SPECS: Record<CarClass, CarSpec> = {
+  grip: {
+    maxSpeed: MAX_SPEED, acceleration: 0.5, friction: 0.96, turnSpeed: 0.08, driftTurnSpeed: 0.12,
+    driftSpeedMultiplier: 0.85, driftMeterRate: 2, boostSpeedMultiplier: 1.5, boostFrames: 90, mass: 1
+  },
+  drift: {
+    maxSpeed: 11.5, acceleration: 0.5, friction: 0.97, turnSpeed: 0.07, driftTurnSpeed: 0.15,
+    driftSpeedMultiplier: 0.92, driftMeterRate: 2.6, boostSpeedMultiplier: 1.5, boostFrames: 90, mass: 0.9
+  },
+  heavy: {
+    maxSpeed: 13, acceleration: 0.35, friction: 0.975, turnSpeed: 0.075, driftTurnSpeed: 0.12,
+    driftSpeedMultiplier: 0.8, driftMeterRate: 1.6, boostSpeedMultiplier: 1.4, boostFrames: 110, mass: 1.5
+  }
+};
+
+// Tuning sliders, each from -TUNING_RANGE to TUNING_RANGE with 0 as the stock car
+export interface CarSetup {
+  carClass: CarClass;
+  steering: number; // Quicker steering for a little top speed
+  grip: number; // Carry more speed through drifts but rotate less in them
+  boost: number; // Harder boosts that run out sooner
+}
+
+export type TuningSlider = 'steering' | 'grip' | 'boost';
+
+export const TUNING_SLIDERS: TuningSlider[] = ['steering', 'grip', 'boost'];
+
+export const TUNING_RANGE = 3;
+
+export const DEFAULT_SETUP: CarSetup = { carClass: 'grip', steering: 0, grip: 0, boost: 0 };
+
+const clampTuning = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.max(-TUNING_RANGE, Math.min(TUNING_RANGE, Math.round(value))) : 0;
+
+// A valid setup from saved or submitted data, stock wherever it's unreadable
+export function readCarSetup(data: unknown): CarSetup {
+  const { carClass, steering, grip, boost } = data && typeof data === 'object' ? data as Record<string, unknown> : {};
+  return {
+    carClass: CAR_CLASSES.find(candidate => candidate === carClass) ?? DEFAULT_SETUP.carClass,
+    steering: clampTuning(steering),
+    grip: clampTuning(grip),
+    boost: clampTuning(boost)
+  };
+}
+
+// The class spec with the tuning applied
+export function getCarSpec(setup: CarSetup): CarSpec {
+  const base = CAR_SPECS[setup.carClass];
+  const { steering, grip, boost } = setup;
+  return {
+    ...base,
+    maxSpeed: base.maxSpeed * (1 - steering * 0.01),
+    turnSpeed: base.turnSpeed * (1 + steering * 0.08),
+    driftTurnSpeed: base.driftTurnSpeed * (1 + steering * 0.08) * (1 - grip * 0.05),
+    driftSpeedMultiplier: Math.min(0.98, base.driftSpeedMultiplier + grip * 0.03),
+    driftMeterRate: base.driftMeterRate * (1 - grip * 0.1),
+    boostSpeedMultiplier: base.boostSpeedMultiplier + boost * 0.05,
+    boostFrames: Math.round(base.boostFrames * (1 - boost * 0.12))
+  };
+}
+
+// Short label for leaderboards, e.g. "DRIFT S+1 G0 B-2"
+export function describeCarSetup(setup: CarSetup): string {
+  const signed = (value: number) => value > 0 ? `+${value}` : `${value}`;
+  return `${setup.carClass.toUpperCase()} S${signed(setup.steering)} G${signed(setup.grip)} B${signed(setup.boost)}`;
+}
+
+// --- Driving ---
+
+export interface DriftCar {
+  x: number;
+  y: number;
+  velocityX: number;
+  velocityY: number;
+  angle: number;
+  speed: number;
+  isDrifting: boolean;
+  driftAngle: number;
+  boostMeter: number; // 0-100
+  boostFrames: number; // Frames of boost left
+  spinFrames: number; // Frames left sliding without grip
+  spinRate: number; // Radians per frame the car turns while spinning
+  slideAngle: number; // Direction the car keeps sliding in while spinning
+  shortcut: number; // Index of the shortcut zone the car is in, -1 outside
+  spec: CarSpec; // Handling, fixed for the race
+}
+
+export interface DriftInput {
+  accelerate: boolean;
+  brake: boolean;
+  left: boolean;
+  right: boolean;
+  drift: boolean;
+}
+
+export interface DriftStepResult {
+  surface: Surface;
+  hitWall: boolean;
+  boostStarted: boolean;
+}
+
+export function createDriftCar(pose: { x: number; y: number; angle: number }, spec: CarSpec = CAR_SPECS.grip): DriftCar {
+  return {
+    x: pose.x,
+    y: pose.y,
+    velocityX: 0,
+    velocityY: 0,
+    angle: pose.angle,
+    speed: 0,
+    isDrifting: false,
+    driftAngle: 0,
+    boostMeter: 0,
+    boostFrames: 0,
+    spinFrames: 0,
+    spinRate: 0,
+    slideAngle: pose.angle,
+    shortcut: -1,
+    spec
+  };
+}
+
+// Lose grip: the car keeps sliding the way it was going while it spins round
+export function startSpin(car: DriftCar, direction: number): void {
+  car.spinFrames = Math.round(SPIN_FRAMES / car.spec.mass);
+  car.spinRate = Math.sign(direction || 1) * SPIN_RATE * Math.min(1, car.speed / MAX_SPEED) / car.spec.mass;
+  car.slideAngle = car.angle;
+  car.isDrifting = false;
+}
+
+export function stepDriftCar(car: DriftCar, input: DriftInput, geometry: TrackGeometry): DriftStepResult {
+  // No grip, no control until the spin is over
+  if (car.spinFrames > 0) {
+    car.spinFrames--;
+    car.angle += car.spinRate;
+    car.spinRate *= 0.95;
+    car.speed *= SPIN_DRAG;
+    car.driftAngle *= 0.9;
+    car.boostFrames = Math.max(0, car.boostFrames - 1);
+    return moveCar(car, car.slideAngle, car.speed, geometry, false);
+  }
+  return driveCar(car, input, geometry);
+}
+
+function driveCar(car: DriftCar, input: DriftInput, geometry: TrackGeometry): DriftStepResult {
+  const { spec } = car;
+  let boostStarted = false;
+
+  // Drift mechanics
+  if (input.drift && car.speed > 3) {
+    car.isDrifting = true;
+    // Build drift meter while drifting
+    car.boostMeter = Math.min(100, car.boostMeter + spec.driftMeterRate);
+  } else if (car.isDrifting) {
+    // Release drift - activate boost if meter is high enough
+    if (car.boostMeter > BOOST_THRESHOLD) {
+      car.boostFrames = spec.boostFrames;
+      boostStarted = true;
+    }
+    car.isDrifting = false;
+  }
+
+  // Boost drain
+  const isBoosting = car.boostFrames > 0;
+  if (isBoosting) {
+    car.boostFrames--;
+    car.boostMeter = Math.max(0, car.boostMeter - BOOST_DRAIN_RATE);
+  } else if (!car.isDrifting) {
+    // Slow decay when not drifting or boosting
+    car.boostMeter = Math.max(0, car.boostMeter - 0.5);
+  }
+
+  // Acceleration/Braking
+  if (input.accelerate) {
+    car.speed = Math.min(spec.maxSpeed, car.speed + spec.acceleration);
+  } else if (input.brake && car.speed > 0) {
+    car.speed = Math.max(0, car.speed - spec.acceleration * 1.5);
+  } else if (input.brake) {
+    // Holding brake at a standstill reverses, to back off walls and barriers
+    car.speed = Math.max(-REVERSE_MAX_SPEED, car.speed - spec.acceleration * 0.5);
+  } else {
+    car.speed *= spec.friction;
+  }
+
+  // Apply speed multipliers
+  let effectiveSpeed = car.speed;
+  if (car.isDrifting) effectiveSpeed *= spec.driftSpeedMultiplier;
+  if (isBoosting) effectiveSpeed *= spec.boostSpeedMultiplier;
+
+  // Turning
+  const turnSpeed = car.isDrifting ? spec.driftTurnSpeed : spec.turnSpeed;
+  if (input.left) car.angle -= turnSpeed * (car.speed / spec.maxSpeed);
+  if (input.right) car.angle += turnSpeed * (car.speed / spec.maxSpeed);
+
+  // Drift angle offset for the visual effect
+  if (car.isDrifting) {
+    if (input.left) {
+      car.driftAngle = -0.3;
+    } else if (input.right) {
+      car.driftAngle = 0.3;
+    }
+  } else {
+    car.driftAngle *= 0.9; // Smooth return to center
+  }
+
+  return moveCar(car, car.angle, effectiveSpeed, geometry, boostStarted);
+}
+
+function moveCar(car: DriftCar, heading: number, effectiveSpeed: number, geometry: TrackGeometry, boostStarted: boolean): DriftStepResult {
+  // Update position
+  car.velocityX = Math.cos(heading) * effectiveSpeed;
+  car.velocityY = Math.sin(heading) * effectiveSpeed;
+  car.x += car.velocityX;
+  car.y += car.velocityY;
+
+  // Track boundaries: walls stop the car, run-off slows it
+  const constrained = constrainToTrack(geometry, car.x, car.y);
+  if (constrained.hitWall) {
+    car.x = constrained.x;
+    car.y = constrained.y;
+    car.speed *= WALL_SPEED_RETAIN;
+  }
+  if (constrained.position.surface === 'runoff' && car.speed > RUNOFF_MAX_SPEED) {
+    car.speed = Math.max(RUNOFF_MAX_SPEED, car.speed * RUNOFF_DRAG);
+  }
+
+  return { surface: constrained.position.surface, hitWall: constrained.hitWall, boostStarted };
+}
+
+// Push overlapping cars apart, the lighter one further. The car that drove
+// into the other is slowed; nobody gains speed from contact, so bumps can't
+// make a lap faster.
+export function collideCars(cars: DriftCar[]): void {
+  for (let i = 0; i < cars.length; i++) {
+    for (let j = i + 1; j < cars.length; j++) {
+      const a = cars[i];
+      const b = cars[j];
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const distance = Math.hypot(dx, dy);
+      const overlap = CAR_RADIUS * 2 - distance;
+      if (overlap <= 0) continue;
+
+      const normalX = distance > 0 ? dx / distance : Math.cos(a.angle);
+      const normalY = distance > 0 ? dy / distance : Math.sin(a.angle);
+      const push = Math.min(MAX_PUSH, overlap / 2) * 2;
+      const aShare = b.spec.mass / (a.spec.mass + b.spec.mass);
+      a.x -= normalX * push * aShare;
+      a.y -= normalY * push * aShare;
+      b.x += normalX * push * (1 - aShare);
+      b.y += normalY * push * (1 - aShare);
+
+      // Whoever is moving towards the other is the one at fault
+      const aClosing = a.velocityX * normalX + a.velocityY * normalY;
+      const bClosing = -(b.velocityX * normalX + b.velocityY * normalY);
+      if (aClosing > bClosing) {
+        a.speed *= BUMP_SPEED_RETAIN;
+      } else {
+        b.speed *= BUMP_SPEED_RETAIN;
+      }
+    }
+  }
+}
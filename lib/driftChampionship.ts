@@ -0,0 +1,171 @@
+import { Character } from '../types';
+import { CHARACTERS } from '../constants';
+import { Track, TRACKS } from './tracks';
+import { AI_SKILLS, DriftAISkill, DriftOpponentSettings } from './driftAI';
+import { DriftMedal, MEDAL_LABELS } from './driftMedals';
+
+// Drift championship: the built-in tracks raced back to back as one cup. The
+// same CPU drivers line up every round. Points go by finishing position, or
+// by medal when racing alone, and the running total decides the champion.
+// Progress between rounds is kept in the save profile (lib/saveProfile.ts).
+
+export const PLAYER_DRIVER_ID = 'you'; // Stands in for the player in results; CPU drivers use their character id
+
+// Points for 1st to 6th
+export const POSITION_POINTS = [10, 7, 5, 3, 2, 1];
+
+// Points for a round raced without CPU cars
+export const MEDAL_POINTS: Record<DriftMedal, number> = {
+  bronze: 3,
+  silver: 5,
+  gold: 7,
+  platinum: 10
+};
+
+export interface ChampionshipResult {
+  driverId: string;
+  time: number | null; // Null for a CPU car still racing when the player finished
+  points: number;
+}
+
+export interface ChampionshipRound {
+  trackId: string;
+  results: ChampionshipResult[]; // Finishing order
+}
+
+export interface DriftChampionship {
+  trackIds: string[]; // Rounds, in racing order
+  rivalIds: string[]; // CPU characters, the same every round
+  skill: DriftAISkill;
+  rounds: ChampionshipRound[]; // Completed so far
+  startedAt: string;
+}
+
+export interface ChampionshipStanding {
+  driverId: string;
+  points: number;
+  wins: number;
+}
+
+// A new cup against the opponents currently set up, drawn from the other characters
+export function createChampionship(
+  opponents: DriftOpponentSettings,
+  playerCharacterId: string,
+  random: () => number = Math.random
+): DriftChampionship {
+  const pool = CHARACTERS.filter(character => character.id !== playerCharacterId);
+  const rivalIds: string[] = [];
+  while (rivalIds.length < Math.min(opponents.count, pool.length)) {
+    const [character] = pool.splice(Math.floor(random() * pool.length), 1);
+    rivalIds.push(character.id);
+  }
+  return {
+    trackIds: TRACKS.map(track => track.id),
+    rivalIds,
+    skill: opponents.skill,
+    rounds: [],
+    startedAt: new Date().toISOString()
+  };
+}
+
+export function getRivalCharacters(championship: DriftChampionship): Character[] {
+  return championship.rivalIds
+    .map(id => CHARACTERS.find(character => character.id === id))
+    .filter((character): character is Character => !!character);
+}
+
+// Track for the next round, or null once every round is run
+export function getNextRoundTrack(championship: DriftChampionship): Track | null {
+  const trackId = championship.trackIds[championship.rounds.length];
+  return TRACKS.find(track => track.id === trackId) ?? null;
+}
+
+export function isChampionshipOver(championship: DriftChampionship): boolean {
+  return championship.rounds.length >= championship.trackIds.length;
+}
+
+// Points for a finishing order. Alone on track, the player scores by medal instead.
+export function scoreRound(
+  championship: DriftChampionship,
+  order: { driverId: string; time: number | null }[],
+  medal: DriftMedal | null
+): ChampionshipRound {
+  const isSolo = order.length === 1;
+  return {
+    trackId: championship.trackIds[championship.rounds.length],
+    results: order.map((finisher, index) => ({
+      ...finisher,
+      points: isSolo ? (medal ? MEDAL_POINTS[medal] : 0) : POSITION_POINTS[index] ?? 0
+    }))
+  };
+}
+
+export function addRound(championship: DriftChampionship, round: ChampionshipRound): DriftChampionship {
+  return { ...championship, rounds: [...championship.rounds, round] };
+}
+
+// Table of every driver, leader first. Ties go to more wins, then to the player.
+export function getStandings(championship: DriftChampionship): ChampionshipStanding[] {
+  const driverIds = [PLAYER_DRIVER_ID, ...championship.rivalIds];
+  return driverIds
+    .map(driverId => {
+      const results = championship.rounds.flatMap(round => round.results.filter(result => result.driverId === driverId));
+      return {
+        driverId,
+        points: results.reduce((total, result) => total + result.points, 0),
+        wins: championship.rounds.filter(round => round.results.length > 1 && round.results[0].driverId === driverId).length
+      };
+    })
+    .sort((a, b) => b.points - a.points || b.wins - a.wins || driverIds.indexOf(a.driverId) - driverIds.indexOf(b.driverId));
+}
+
+// How the player scores, for the championship screen
+export function describeScoring(championship: DriftChampionship): string {
+  return championship.rivalIds.length > 0
+    ? `Points by position: ${POSITION_POINTS.slice(0, championship.rivalIds.length + 1).join(' / ')}`
+    : `Points by medal: ${(Object.keys(MEDAL_POINTS) as DriftMedal[]).map(medal => `${MEDAL_LABELS[medal]} ${MEDAL_POINTS[medal]}`).join(' / ')}`;
+}
+
+// Untrusted data as an object whose fields can be read, or an empty one
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+const asList = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+// A valid championship from saved data, or null if it can't be resumed
+export function readChampionship(data: unknown): DriftChampionship | null {
+  const championship = asRecord(data);
+  const trackIds = asList(championship.trackIds)
+    .filter((id): id is string => typeof id === 'string' && TRACKS.some(track => track.id === id));
+  if (trackIds.length === 0) return null;
+  const rivalIds = asList(championship.rivalIds)
+    .filter((id): id is string => typeof id === 'string' && CHARACTERS.some(character => character.id === id));
+  const driverIds = [PLAYER_DRIVER_ID, ...rivalIds];
+
+  const rounds: ChampionshipRound[] = asList(championship.rounds)
+    .slice(0, trackIds.length)
+    .map(item => {
+      const round = asRecord(item);
+      return {
+        trackId: typeof round.trackId === 'string' ? round.trackId : '',
+        results: asList(round.results)
+          .map(asRecord)
+          .filter(result => typeof result.driverId === 'string' && driverIds.includes(result.driverId))
+          .map(({ driverId, time, points }) => ({
+            driverId: String(driverId),
+            time: typeof time === 'number' && Number.isFinite(time) && time > 0 ? time : null,
+            points: typeof points === 'number' && Number.isInteger(points) && points >= 0 ? points : 0
+          }))
+      };
+    });
+  // Rounds must follow the track order; stop at the first that doesn't
+  const validRounds = rounds.findIndex((round, index) => round.trackId !== trackIds[index] || round.results.length === 0);
+
+  return {
+    trackIds,
+    rivalIds,
+    skill: AI_SKILLS.find(skill => skill === championship.skill) ?? AI_SKILLS[0],
+    rounds: validRounds >= 0 ? rounds.slice(0, validRounds) : rounds,
+    startedAt: typeof championship.startedAt === 'string' ? championship.startedAt : new Date().toISOString()
+  };
+}
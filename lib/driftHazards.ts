@@ -0,0 +1,165 @@
+import { Hazard, Shortcut } from './tracks';
+import { TrackGeometry, constrainToTrack } from './trackGeometry';
+import { DriftCar, MAX_SPEED, startSpin } from './driftCar';
+
+// What a Drift Attack track does to the cars on it, besides its walls: oil
+// spins them, barriers stop them, cones get knocked about, and shortcut
+// zones pay out a boost to cars that commit to them.
+
+// --- Oil and barriers ---
+
+const BARRIER_CLEARANCE = 16; // Px from a car's centre to its nose, for barrier contact
+
+export type HazardHit = 'oil' | 'barrier';
+
+const contains = (area: { x: number; y: number; width: number; height: number }, x: number, y: number, margin = 0) =>
+  x > area.x - margin &&
+  x < area.x + area.width + margin &&
+  y > area.y - margin &&
+  y < area.y + area.height + margin;
+
+// Oil and barriers for one car, after it has moved. Cones are handled by updateCones.
+export function applyHazards(car: DriftCar, hazards: Hazard[]): HazardHit | null {
+  let hit: HazardHit | null = null;
+  hazards.forEach((hazard) => {
+    if (hazard.type === 'oil' && car.spinFrames === 0 && car.speed > 2 && contains(hazard, car.x, car.y)) {
+      // Spin the way the car was already leaning
+      startSpin(car, car.driftAngle || 1);
+      hit = 'oil';
+    } else if (hazard.type === 'barrier' && contains(hazard, car.x, car.y, BARRIER_CLEARANCE)) {
+      // Back out the shortest way
+      const pushLeft = car.x - (hazard.x - BARRIER_CLEARANCE);
+      const pushRight = hazard.x + hazard.width + BARRIER_CLEARANCE - car.x;
+      const pushUp = car.y - (hazard.y - BARRIER_CLEARANCE);
+      const pushDown = hazard.y + hazard.height + BARRIER_CLEARANCE - car.y;
+      const shortest = Math.min(pushLeft, pushRight, pushUp, pushDown);
+      let normalX = 0;
+      let normalY = 0;
+      if (shortest === pushLeft) {
+        car.x -= pushLeft;
+        normalX = -1;
+      } else if (shortest === pushRight) {
+        car.x += pushRight;
+        normalX = 1;
+      } else if (shortest === pushUp) {
+        car.y -= pushUp;
+        normalY = -1;
+      } else {
+        car.y += pushDown;
+        normalY = 1;
+      }
+
+      // A head-on hit stops the car dead; a glancing one scrapes along the side
+      const speed = Math.hypot(car.velocityX, car.velocityY) || 1;
+      const headOn = Math.max(0, -(car.velocityX * normalX + car.velocityY * normalY) / speed);
+      car.speed *= 1 - headOn;
+      car.boostFrames = 0;
+      car.spinFrames = 0;
+      hit = 'barrier';
+    }
+  });
+  return hit;
+}
+
+// --- Cones ---
+
+export interface Cone {
+  x: number; // Centre
+  y: number;
+  velocityX: number;
+  velocityY: number;
+  angle: number;
+  spin: number;
+}
+
+export const CONE_RADIUS = 14;
+const CONE_FRICTION = 0.94;
+const CONE_KICK = 1.3; // Cone speed as a multiple of the car's on impact
+const CONE_HIT_SPEED_RETAIN = 0.9;
+
+// Loose cones for a race, from the track's cone hazards
+export function createCones(hazards: Hazard[]): Cone[] {
+  return hazards
+    .filter(hazard => hazard.type === 'cone')
+    .map(hazard => ({
+      x: hazard.x + hazard.width / 2,
+      y: hazard.y + hazard.height / 2,
+      velocityX: 0,
+      velocityY: 0,
+      angle: 0,
+      spin: 0
+    }));
+}
+
+// Knock cones out of the way of the cars, then let them slide to a stop inside the walls
+export function updateCones(cones: Cone[], cars: DriftCar[], geometry: TrackGeometry): void {
+  cones.forEach((cone) => {
+    cars.forEach((car) => {
+      const dx = cone.x - car.x;
+      const dy = cone.y - car.y;
+      const distance = Math.hypot(dx, dy);
+      if (distance >= CONE_RADIUS + BARRIER_CLEARANCE || Math.abs(car.speed) < 0.5) return;
+
+      const normalX = distance > 0 ? dx / distance : Math.cos(car.angle);
+      const normalY = distance > 0 ? dy / distance : Math.sin(car.angle);
+      const impact = Math.hypot(car.velocityX, car.velocityY) * CONE_KICK;
+      cone.velocityX = (car.velocityX + normalX * impact) / 2;
+      cone.velocityY = (car.velocityY + normalY * impact) / 2;
+      cone.spin = (Math.random() - 0.5) * 0.6;
+      cone.x = car.x + normalX * (CONE_RADIUS + BARRIER_CLEARANCE);
+      cone.y = car.y + normalY * (CONE_RADIUS + BARRIER_CLEARANCE);
+      car.speed *= CONE_HIT_SPEED_RETAIN;
+    });
+
+    if (cone.velocityX === 0 && cone.velocityY === 0) return;
+    cone.x += cone.velocityX;
+    cone.y += cone.velocityY;
+    cone.angle += cone.spin;
+    cone.velocityX *= CONE_FRICTION;
+    cone.velocityY *= CONE_FRICTION;
+    cone.spin *= CONE_FRICTION;
+    if (Math.hypot(cone.velocityX, cone.velocityY) < 0.05) {
+      cone.velocityX = 0;
+      cone.velocityY = 0;
+    }
+
+    // Walls stop cones too
+    const constrained = constrainToTrack(geometry, cone.x, cone.y);
+    if (constrained.hitWall) {
+      cone.x = constrained.x;
+      cone.y = constrained.y;
+      cone.velocityX = 0;
+      cone.velocityY = 0;
+    }
+  });
+}
+
+// --- Shortcuts ---
+
+// What a car needs going in for a shortcut to pay off
+export const SHORTCUT_RULES: Record<Shortcut['difficulty'], { minSpeed: number; drift: boolean }> = {
+  easy: { minSpeed: MAX_SPEED * 0.5, drift: false },
+  medium: { minSpeed: MAX_SPEED * 0.7, drift: false },
+  hard: { minSpeed: MAX_SPEED * 0.7, drift: true }
+};
+
+export interface ShortcutEntry {
+  shortcut: Shortcut;
+  taken: boolean; // Met the entry rules
+}
+
+// Reports a car entering a shortcut zone. A clean entry pays a boost worth
+// about the zone's timeSave: boosting at 1.5x for 2t seconds gains t seconds.
+// Zones can sit on the racing line, so missing the entry rules costs nothing.
+export function checkShortcuts(car: DriftCar, shortcuts: Shortcut[]): ShortcutEntry | null {
+  const index = shortcuts.findIndex(shortcut => contains(shortcut, car.x, car.y));
+  const entered = index >= 0 && index !== car.shortcut;
+  car.shortcut = index;
+  if (!entered) return null;
+
+  const shortcut = shortcuts[index];
+  const rules = SHORTCUT_RULES[shortcut.difficulty];
+  const taken = car.speed >= rules.minSpeed && (!rules.drift || car.isDrifting);
+  if (taken) car.boostFrames = Math.max(car.boostFrames, Math.round(shortcut.timeSave * 2 * 60));
+  return { shortcut, taken };
+}
@@ -0,0 +1,70 @@
+import { Track, TRACKS } from './tracks';
+
+// Drift Attack medals. Each track's medal times are set from its worldRecord,
+// so a track only needs a record time to have a full set. Medals on the
+// built-in tracks add up to the total that unlocks further tracks.
+
+export type DriftMedal = 'bronze' | 'silver' | 'gold' | 'platinum';
+
+// Lowest first
+export const DRIFT_MEDALS: DriftMedal[] = ['bronze', 'silver', 'gold', 'platinum'];
+
+export const MEDAL_LABELS: Record<DriftMedal, string> = {
+  bronze: 'Bronze',
+  silver: 'Silver',
+  gold: 'Gold',
+  platinum: 'Platinum'
+};
+
+export const MEDAL_ICONS: Record<DriftMedal, string> = {
+  bronze: '🥉',
+  silver: '🥈',
+  gold: '🥇',
+  platinum: '💎'
+};
+
+export const MEDAL_COLORS: Record<DriftMedal, string> = {
+  bronze: '#d97706',
+  silver: '#cbd5e1',
+  gold: '#facc15',
+  platinum: '#67e8f9'
+};
+
+// Time allowed for each medal, as a multiple of the track record
+const MEDAL_FACTORS: Record<DriftMedal, number> = {
+  bronze: 1.5,
+  silver: 1.25,
+  gold: 1.1,
+  platinum: 1
+};
+
+// Slowest race time (seconds) that still earns the medal
+export function getMedalTime(track: Pick<Track, 'worldRecord'>, medal: DriftMedal): number {
+  return Math.round(track.worldRecord * MEDAL_FACTORS[medal] * 100) / 100;
+}
+
+// Best medal a race time earns, or null if it's outside bronze
+export function getMedalForTime(track: Pick<Track, 'worldRecord'>, time: number): DriftMedal | null {
+  if (!(time > 0)) return null;
+  return [...DRIFT_MEDALS].reverse().find(medal => time <= getMedalTime(track, medal)) ?? null;
+}
+
+// Medals count cumulatively: a gold is worth bronze, silver and gold
+export function getMedalValue(medal: DriftMedal | null): number {
+  return medal ? DRIFT_MEDALS.indexOf(medal) + 1 : 0;
+}
+
+export function isBetterMedal(medal: DriftMedal | null, than: DriftMedal | null): boolean {
+  return getMedalValue(medal) > getMedalValue(than);
+}
+
+// Medal total for unlocks. Only the built-in tracks count: generated seeds are
+// endless and custom tracks set their own record time.
+export function getMedalTotal(medals: Record<string, DriftMedal>): number {
+  return TRACKS.reduce((total, track) => total + getMedalValue(medals[track.id] ?? null), 0);
+}
+
+// The next medal up from the one held, null once platinum is won
+export function getNextMedal(medal: DriftMedal | null): DriftMedal | null {
+  return DRIFT_MEDALS[getMedalValue(medal)] ?? null;
+}
@@ -0,0 +1,77 @@
+import { GhostFrame } from './tracks';
+import { TrackGeometry, locateOnTrack } from './trackGeometry';
+import { STEP_SECONDS } from './driftClock';
+
+// Analysis for the drift replay viewer. A speed trace plots how fast a ghost
+// went against how far round the race it was, so traces from different runs
+// line up corner by corner and a dip below the others shows where time went.
+
+export const MAX_REPLAY_GHOSTS = 4;
+
+// Colour of each ghost slot, in the order ghosts were picked
+export const REPLAY_GHOST_COLORS = ['#facc15', '#22d3ee', '#f472b6', '#a3e635'];
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+export interface SpeedTracePoint {
+  time: number; // Race time, seconds
+  distance: number; // Along the centerline since the start line, counting every lap
+  speed: number; // Px per physics step, the unit of DriftCar.speed
+}
+
+const SMOOTHING = 2; // Points either side averaged into each speed
+
+export function getGhostDuration(frames: GhostFrame[]): number {
+  return frames.length > 0 ? frames[frames.length - 1].timestamp : 0;
+}
+
+export function getSpeedTrace(frames: GhostFrame[], geometry: TrackGeometry): SpeedTracePoint[] {
+  if (frames.length < 2) return [];
+
+  // Race distance: centerline distance, unwrapped each time the ghost crosses the line
+  const { length } = geometry;
+  let lastDistance = 0;
+  let laps = 0;
+  const distances = frames.map((frame, index) => {
+    let distance = locateOnTrack(geometry, frame.x, frame.y).distance;
+    // Grid slots sit just behind the line, so the first frame may read as the end of a lap
+    if (index === 0 && distance > length / 2) laps = -1;
+    if (index > 0 && distance - lastDistance < -length / 2) laps++;
+    if (index > 0 && distance - lastDistance > length / 2) laps--;
+    lastDistance = distance;
+    return distance + laps * length;
+  });
+
+  const rawSpeeds = frames.map((frame, index) => {
+    const previous = frames[Math.max(0, index - 1)];
+    const next = frames[Math.min(frames.length - 1, index + 1)];
+    const dt = next.timestamp - previous.timestamp;
+    return dt > 0 ? Math.hypot(next.x - previous.x, next.y - previous.y) / dt * STEP_SECONDS : 0;
+  });
+
+  return frames.map((frame, index) => {
+    const nearby = rawSpeeds.slice(Math.max(0, index - SMOOTHING), index + SMOOTHING + 1);
+    return {
+      time: frame.timestamp,
+      distance: distances[index],
+      speed: nearby.reduce((sum, speed) => sum + speed, 0) / nearby.length
+    };
+  });
+}
+
+// Trace point at a race time, interpolated; held at the ends
+export function sampleSpeedTrace(trace: SpeedTracePoint[], time: number): SpeedTracePoint | null {
+  if (trace.length === 0) return null;
+  if (time <= trace[0].time) return trace[0];
+  if (time >= trace[trace.length - 1].time) return trace[trace.length - 1];
+
+  const index = trace.findIndex(point => point.time > time);
+  const from = trace[index - 1];
+  const to = trace[index];
+  const t = (time - from.time) / (to.time - from.time);
+  return {
+    time,
+    distance: from.distance + (to.distance - from.distance) * t,
+    speed: from.speed + (to.speed - from.speed) * t
+  };
+}
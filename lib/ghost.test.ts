@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { GHOST_SAMPLE_RATE, decodeGhost, encodeGhost } from './ghost';
+import { GhostFrame } from './tracks';
+
+// Frames already on the encoding's grid: one per sample, quarter pixels, 1/4096 turns
+const onGrid = (count: number, frame: (i: number) => Omit<GhostFrame, 'timestamp'>): GhostFrame[] =>
+  Array.from({ length: count }, (_, i) => ({ ...frame(i), timestamp: i / GHOST_SAMPLE_RATE }));
+
+const turns = (steps: number) => steps / 4096 * Math.PI * 2;
+
+function expectFramesClose(actual: GhostFrame[], expected: GhostFrame[], precision = 6) {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((frame, i) => {
+    expect(frame.x).toBeCloseTo(expected[i].x, precision);
+    expect(frame.y).toBeCloseTo(expected[i].y, precision);
+    expect(frame.angle).toBeCloseTo(expected[i].angle, precision);
+    expect(frame.timestamp).toBeCloseTo(expected[i].timestamp, precision);
+  });
+}
+
+// Re-encode a compact ghost with its last few bytes missing
+function truncate(encoded: string, bytes: number): string {
+  const binary = atob(encoded.slice('g1:'.length));
+  return 'g1:' + btoa(binary.slice(0, binary.length - bytes));
+}
+
+describe('encodeGhost / decodeGhost', () => {
+  it('round-trips a ghost recorded at the sample rate', () => {
+    const frames = onGrid(40, i => ({ x: 120 + i * 6.25, y: 300 + i * i * 0.5, angle: turns(i * 12) }));
+    const encoded = encodeGhost(frames);
+    expect(encoded.startsWith('g1:')).toBe(true);
+    expectFramesClose(decodeGhost(encoded), frames);
+  });
+
+  it('resamples faster recordings to within the stored precision', () => {
+    const frames = Array.from({ length: 121 }, (_, i) => ({
+      x: 200 + Math.cos(i / 30) * 150,
+      y: 200 + Math.sin(i / 30) * 150,
+      angle: i / 30 + Math.PI / 2,
+      timestamp: i / 60
+    }));
+    const decoded = decodeGhost(encodeGhost(frames));
+    expect(decoded).toHaveLength(2 * GHOST_SAMPLE_RATE + 1);
+    decoded.forEach(frame => {
+      const source = frames[Math.round(frame.timestamp * 60)];
+      expect(Math.abs(frame.x - source.x)).toBeLessThanOrEqual(1 / 8);
+      expect(Math.abs(frame.y - source.y)).toBeLessThanOrEqual(1 / 8);
+      expect(Math.abs(frame.angle - source.angle)).toBeLessThanOrEqual(Math.PI / 4096);
+    });
+  });
+
+  it('keeps negative deltas, coordinates and unwrapped angles', () => {
+    // Backing up and left, past zero, while spinning anticlockwise more than a full turn
+    const frames = onGrid(30, i => ({ x: 50 - i * 17.75, y: -i * i * 2.5, angle: turns(-i * 300) }));
+    frames.push({ x: 4000, y: -4000, angle: turns(-9000), timestamp: frames.length / GHOST_SAMPLE_RATE });
+    frames.push({ x: -4000, y: 4000, angle: turns(9000), timestamp: frames.length / GHOST_SAMPLE_RATE });
+    expectFramesClose(decodeGhost(encodeGhost(frames)), frames);
+  });
+
+  it('encodes no frames as an empty string and reads it back as no ghost', () => {
+    expect(encodeGhost([])).toBe('');
+    expect(decodeGhost('')).toEqual([]);
+  });
+
+  it('reads damaged or unknown data as no ghost', () => {
+    const encoded = encodeGhost(onGrid(20, i => ({ x: i * 10, y: i * 5, angle: 0 })));
+    expect(decodeGhost(truncate(encoded, 1))).toEqual([]);
+    expect(decodeGhost(truncate(encoded, 20))).toEqual([]);
+    expect(decodeGhost('g1:')).toEqual([]);
+    expect(decodeGhost('g1:not base64!')).toEqual([]);
+    expect(decodeGhost('g9:' + encoded.slice(3))).toEqual([]);
+    expect(decodeGhost(null)).toEqual([]);
+    expect(decodeGhost({ x: 1, y: 2, angle: 0, timestamp: 0 })).toEqual([]);
+  });
+
+  it('reads legacy arrays of frames, dropping broken ones', () => {
+    const frames: GhostFrame[] = [
+      { x: 10, y: 20, angle: 0.5, timestamp: 0 },
+      { x: 12.3, y: 21.7, angle: 0.55, timestamp: 0.016 }
+    ];
+    expect(decodeGhost(frames)).toEqual(frames);
+    expect(decodeGhost([
+      frames[0],
+      null,
+      { x: 11, y: 20, angle: 0.5 },
+      { x: NaN, y: 20, angle: 0.5, timestamp: 0.01 },
+      { x: '11', y: 20, angle: 0.5, timestamp: 0.01 },
+      frames[1]
+    ])).toEqual(frames);
+    expect(decodeGhost([])).toEqual([]);
+  });
+});
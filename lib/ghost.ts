@@ -0,0 +1,182 @@
+import { GhostFrame } from './tracks';
+
+// Ghost playback helpers. Older ghosts were recorded at whatever rate the game
+// ran, so positions are interpolated between the two frames around the given time.
+
+export type GhostMode = 'pb' | 'wr' | 'both';
+
+export const GHOST_MODES: GhostMode[] = ['both', 'pb', 'wr'];
+
+export const GHOST_MODE_LABELS: Record<GhostMode, string> = {
+  pb: 'PB GHOST',
+  wr: 'WR GHOST',
+  both: 'PB + WR GHOSTS'
+};
+
+export function nextGhostMode(mode: GhostMode): GhostMode {
+  return GHOST_MODES[(GHOST_MODES.indexOf(mode) + 1) % GHOST_MODES.length];
+}
+
+// Shortest way round from a to b
+export function lerpAngle(a: number, b: number, t: number): number {
+  let diff = (b - a) % (Math.PI * 2);
+  if (diff > Math.PI) diff -= Math.PI * 2;
+  if (diff < -Math.PI) diff += Math.PI * 2;
+  return a + diff * t;
+}
+
+// Position of a ghost at a race time, or null before it starts / after it ends
+export function sampleGhost(frames: GhostFrame[], time: number): GhostFrame | null {
+  if (frames.length === 0 || time < frames[0].timestamp || time > frames[frames.length - 1].timestamp) {
+    return null;
+  }
+
+  // Binary search for the last frame at or before time
+  let low = 0;
+  let high = frames.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (frames[mid].timestamp <= time) low = mid;
+    else high = mid - 1;
+  }
+
+  const from = frames[low];
+  const to = frames[low + 1];
+  if (!to || to.timestamp === from.timestamp) return from;
+
+  const t = (time - from.timestamp) / (to.timestamp - from.timestamp);
+  return {
+    x: from.x + (to.x - from.x) * t,
+    y: from.y + (to.y - from.y) * t,
+    angle: lerpAngle(from.angle, to.angle, t),
+    timestamp: time
+  };
+}
+
+// --- Compact encoding ---
+// Ghosts are stored resampled to a fixed rate, quantized, and delta-encoded as
+// zigzag varints, then base64'd behind a version prefix:
+//   "g1:" + base64(rate, startMs, endMs, sampleCount, then dx, dy, dAngle per sample)
+// Older ghosts are plain JSON arrays of GhostFrame and are still read.
+
+// Compact string, or a legacy array of frames
+export type StoredGhost = string | GhostFrame[];
+
+const GHOST_FORMAT_PREFIX = 'g1:';
+export const GHOST_SAMPLE_RATE = 20; // Samples per second
+const POSITION_STEPS = 4; // Quarter-pixel precision
+const ANGLE_STEPS = 4096; // Per full turn
+
+function writeVarint(bytes: number[], value: number) {
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80);
+    value >>>= 7;
+  }
+  bytes.push(value);
+}
+
+// Zigzag maps signed to unsigned so small negatives stay small: 0, -1, 1, -2 -> 0, 1, 2, 3
+const zigzag = (value: number) => (value << 1) ^ (value >> 31);
+const unzigzag = (value: number) => (value >>> 1) ^ -(value & 1);
+
+function toBase64(bytes: number[]): string {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function encodeGhost(frames: GhostFrame[]): string {
+  if (frames.length === 0) return '';
+  const startMs = Math.max(0, Math.round(frames[0].timestamp * 1000));
+  const endMs = Math.max(startMs, Math.round(frames[frames.length - 1].timestamp * 1000));
+  const sampleCount = Math.ceil((endMs - startMs) / 1000 * GHOST_SAMPLE_RATE) + 1;
+
+  const bytes: number[] = [];
+  writeVarint(bytes, GHOST_SAMPLE_RATE);
+  writeVarint(bytes, startMs);
+  writeVarint(bytes, endMs);
+  writeVarint(bytes, sampleCount);
+
+  let lastX = 0;
+  let lastY = 0;
+  let lastAngle = 0;
+  for (let i = 0; i < sampleCount; i++) {
+    const time = Math.min(startMs / 1000 + i / GHOST_SAMPLE_RATE, endMs / 1000);
+    // Millisecond rounding can step just outside the recording
+    const frame = sampleGhost(frames, time) ?? (i === 0 ? frames[0] : frames[frames.length - 1]);
+    const x = Math.round(frame.x * POSITION_STEPS);
+    const y = Math.round(frame.y * POSITION_STEPS);
+    // Angles are left unwrapped, so consecutive deltas stay small
+    const angle = Math.round(frame.angle / (Math.PI * 2) * ANGLE_STEPS);
+    writeVarint(bytes, zigzag(x - lastX));
+    writeVarint(bytes, zigzag(y - lastY));
+    writeVarint(bytes, zigzag(angle - lastAngle));
+    lastX = x;
+    lastY = y;
+    lastAngle = angle;
+  }
+
+  return GHOST_FORMAT_PREFIX + toBase64(bytes);
+}
+
+function decodeCompactGhost(encoded: string): GhostFrame[] {
+  const bytes = fromBase64(encoded.slice(GHOST_FORMAT_PREFIX.length));
+  let offset = 0;
+  const readVarint = () => {
+    let value = 0;
+    let shift = 0;
+    while (offset < bytes.length) {
+      const byte = bytes[offset++];
+      value |= (byte & 0x7f) << shift;
+      if (!(byte & 0x80)) return value >>> 0;
+      shift += 7;
+    }
+    throw new Error('Ghost data is truncated');
+  };
+
+  const rate = readVarint();
+  const start = readVarint() / 1000;
+  const end = readVarint() / 1000;
+  const sampleCount = readVarint();
+  if (rate === 0) throw new Error('Ghost data has no sample rate');
+
+  const frames: GhostFrame[] = [];
+  let x = 0;
+  let y = 0;
+  let angle = 0;
+  for (let i = 0; i < sampleCount; i++) {
+    x += unzigzag(readVarint());
+    y += unzigzag(readVarint());
+    angle += unzigzag(readVarint());
+    frames.push({
+      x: x / POSITION_STEPS,
+      y: y / POSITION_STEPS,
+      angle: angle / ANGLE_STEPS * Math.PI * 2,
+      timestamp: Math.min(start + i / rate, end)
+    });
+  }
+  return frames;
+}
+
+// Read a stored ghost in either format. Unreadable data gives an empty ghost.
+export function decodeGhost(data: unknown): GhostFrame[] {
+  if (typeof data === 'string') {
+    if (!data.startsWith(GHOST_FORMAT_PREFIX)) return [];
+    try {
+      return decodeCompactGhost(data);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(data)) return [];
+  return data.filter(frame =>
+    frame && ['x', 'y', 'angle', 'timestamp'].every(field => Number.isFinite(frame[field]))
+  );
+}
@@ -0,0 +1,182 @@
+import { Track } from './tracks';
+import { TrackGeometry, getStartPose, getWallOffset } from './trackGeometry';
+
+// Lap and sector timing for Drift Attack. Each checkpoint is a gate across the
+// road that only counts when crossed in order and in its direction of travel;
+// the lap closes on the start/finish line after the last checkpoint.
+
+export interface LapTime {
+  lap: number;
+  time: number; // This lap only, in seconds
+  sectors: number[]; // Time for each sector of the lap
+  isPerfect: boolean; // All checkpoints hit perfectly
+}
+
+export interface TimingGate {
+  x: number;
+  y: number;
+  dirX: number; // Unit direction the gate must be crossed in
+  dirY: number;
+  halfWidth: number; // Gate reaches this far either side of its center
+  perfectWindow: number; // Crossing within half of this of the center is "perfect"
+  isFinish: boolean;
+}
+
+export interface TimedPoint {
+  x: number;
+  y: number;
+  time: number; // Race time in seconds
+}
+
+export type LapTimerEvent =
+  | { type: 'sector'; gate: number; time: number; isPerfect: boolean; offset: number; delta: number | null } // offset: px from the gate's center
+  | { type: 'lap'; lap: LapTime }
+  | { type: 'finish'; totalTime: number; laps: LapTime[]; splits: number[] }
+  | { type: 'wrong_way'; gate: number };
+
+// Checkpoint.angle is in degrees with y pointing up (0 = right, 90 = up)
+function gateDirection(angleDegrees: number): { dirX: number; dirY: number } {
+  const radians = angleDegrees * Math.PI / 180;
+  return { dirX: Math.cos(radians), dirY: -Math.sin(radians) };
+}
+
+export function buildTimingGates(track: Track, geometry: TrackGeometry): TimingGate[] {
+  // Gates span the whole drivable width so they can't be driven around
+  const halfWidth = getWallOffset(geometry);
+  const gates: TimingGate[] = track.checkpoints.map(checkpoint => ({
+    x: checkpoint.x,
+    y: checkpoint.y,
+    ...gateDirection(checkpoint.angle),
+    halfWidth: Math.max(halfWidth, checkpoint.width / 2),
+    perfectWindow: checkpoint.perfectWindow,
+    isFinish: false
+  }));
+
+  const start = getStartPose(geometry);
+  gates.push({
+    x: start.x,
+    y: start.y,
+    dirX: Math.cos(start.angle),
+    dirY: Math.sin(start.angle),
+    halfWidth,
+    perfectWindow: Infinity,
+    isFinish: true
+  });
+  return gates;
+}
+
+export class LapTimer {
+  readonly gates: TimingGate[];
+  readonly totalLaps: number;
+  private readonly bestSplits: number[];
+
+  currentLap = 1;
+  nextGate = 0; // Index into gates
+  laps: LapTime[] = [];
+  splits: number[] = []; // Race time at every gate crossed, across all laps
+  finished = false;
+
+  private lapStartTime = 0;
+  private sectorStartTime = 0;
+  private sectors: number[] = [];
+  private lapIsPerfect = true;
+
+  // bestSplits: splits of the personal best, for live deltas
+  constructor(track: Track, geometry: TrackGeometry, bestSplits: number[] = []) {
+    this.gates = buildTimingGates(track, geometry);
+    this.totalLaps = track.laps;
+    this.bestSplits = bestSplits;
+  }
+
+  getLapTime(time: number): number {
+    return time - this.lapStartTime;
+  }
+
+  // Feed the car's movement for one step
+  update(from: TimedPoint, to: TimedPoint): LapTimerEvent[] {
+    if (this.finished) return [];
+    const events: LapTimerEvent[] = [];
+
+    this.gates.forEach((gate, index) => {
+      const crossing = this.crossing(gate, from, to);
+      if (!crossing) return;
+      if (crossing.direction === 'backward') {
+        if (index === this.nextGate || index === this.previousGate()) {
+          events.push({ type: 'wrong_way', gate: index });
+        }
+        return;
+      }
+      if (index !== this.nextGate) return;
+
+      // Interpolate the moment the line was crossed for sub-frame accuracy
+      const crossTime = from.time + (to.time - from.time) * crossing.t;
+      const isPerfect = gate.isFinish || Math.abs(crossing.lateral) <= gate.perfectWindow / 2;
+      if (!isPerfect) this.lapIsPerfect = false;
+
+      this.sectors.push(crossTime - this.sectorStartTime);
+      this.sectorStartTime = crossTime;
+      this.splits.push(crossTime);
+      const best = this.bestSplits[this.splits.length - 1];
+      events.push({
+        type: 'sector',
+        gate: index,
+        time: this.sectors[this.sectors.length - 1],
+        isPerfect,
+        offset: Math.abs(crossing.lateral),
+        delta: best !== undefined ? crossTime - best : null
+      });
+
+      if (gate.isFinish) {
+        events.push(...this.completeLap(crossTime));
+      } else {
+        this.nextGate++;
+      }
+    });
+
+    return events;
+  }
+
+  private completeLap(time: number): LapTimerEvent[] {
+    const lap: LapTime = {
+      lap: this.currentLap,
+      time: time - this.lapStartTime,
+      sectors: this.sectors,
+      isPerfect: this.lapIsPerfect
+    };
+    this.laps.push(lap);
+    const events: LapTimerEvent[] = [{ type: 'lap', lap }];
+
+    if (this.currentLap >= this.totalLaps) {
+      this.finished = true;
+      events.push({ type: 'finish', totalTime: time, laps: this.laps, splits: this.splits });
+    } else {
+      this.currentLap++;
+      this.nextGate = 0;
+      this.lapStartTime = time;
+      this.sectors = [];
+      this.lapIsPerfect = true;
+    }
+    return events;
+  }
+
+  private previousGate(): number {
+    return (this.nextGate - 1 + this.gates.length) % this.gates.length;
+  }
+
+  // Where (if at all) a step crosses a gate line: t is the fraction of the
+  // step at the crossing, lateral the distance from the gate's center
+  private crossing(gate: TimingGate, from: TimedPoint, to: TimedPoint) {
+    const before = (from.x - gate.x) * gate.dirX + (from.y - gate.y) * gate.dirY;
+    const after = (to.x - gate.x) * gate.dirX + (to.y - gate.y) * gate.dirY;
+    const crossedForward = before < 0 && after >= 0;
+    const crossedBackward = before >= 0 && after < 0;
+    if (!crossedForward && !crossedBackward) return null;
+
+    const t = before / (before - after);
+    const x = from.x + (to.x - from.x) * t;
+    const y = from.y + (to.y - from.y) * t;
+    const lateral = (x - gate.x) * -gate.dirY + (y - gate.y) * gate.dirX;
+    if (Math.abs(lateral) > gate.halfWidth) return null;
+    return { direction: crossedForward ? 'forward' : 'backward', t, lateral };
+  }
+}
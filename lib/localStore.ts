@@ -0,0 +1,174 @@
+import {
+  LeaderboardStore,
+  AvatarStore,
+  StoreSet,
+  StoredRow,
+  RacingScoreEntry,
+  DailyChallengeScoreEntry,
+  EliminationScoreEntry,
+  DriftTimeEntry,
+  FlappyBirdScoreEntry,
+  CommunityAvatarRecord,
+  validateAvatarFile
+} from './storage';
+import { CarClass } from './driftCar';
+
+// On-device stores. Both backends share the same query logic on top of a tiny
+// table driver; IndexedDB persists across reloads, memory lasts one session.
+
+const TABLES = [
+  'racing_leaderboard',
+  'daily_challenge_leaderboard',
+  'elimination_leaderboard',
+  'drift_leaderboard',
+  'flappy_bird_leaderboard',
+  'community_avatars'
+] as const;
+
+type TableName = typeof TABLES[number];
+
+// Same page size as the Supabase queries
+const LEADERBOARD_LIMIT = 100;
+
+interface TableDriver {
+  getAll<T>(table: TableName): Promise<StoredRow<T>[]>; // Rows as stored, the caller names their type
+  insert<T extends object>(table: TableName, row: T): Promise<StoredRow<T>>;
+}
+
+// --- Drivers ---
+function createMemoryDriver(): TableDriver {
+  const tables = new Map<TableName, StoredRow<object>[]>(TABLES.map(table => [table, []]));
+  let nextId = 1;
+
+  return {
+    async getAll<T>(table: TableName) {
+      return [...tables.get(table)!] as StoredRow<T>[];
+    },
+    async insert(table, row) {
+      const stored = { ...row, id: nextId++, created_at: new Date().toISOString() };
+      tables.get(table)!.push(stored);
+      return stored;
+    }
+  };
+}
+
+const DB_NAME = 'neon-runner-storage';
+const DB_VERSION = 1;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function createIndexedDbDriver(): TableDriver {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = () => {
+    if (!dbPromise) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        TABLES.forEach(table => {
+          if (!request.result.objectStoreNames.contains(table)) {
+            request.result.createObjectStore(table, { keyPath: 'id', autoIncrement: true });
+          }
+        });
+      };
+      dbPromise = requestToPromise(request);
+    }
+    return dbPromise;
+  };
+
+  return {
+    async getAll<T>(table: TableName) {
+      const db = await openDb();
+      return requestToPromise<StoredRow<T>[]>(db.transaction(table, 'readonly').objectStore(table).getAll());
+    },
+    async insert(table, row) {
+      const db = await openDb();
+      const record = { ...row, created_at: new Date().toISOString() };
+      const id = await requestToPromise(db.transaction(table, 'readwrite').objectStore(table).add(record));
+      return { ...record, id: id as number };
+    }
+  };
+}
+
+// --- Stores ---
+function createLocalStores(driver: TableDriver): StoreSet {
+  const top = <T>(rows: T[], compare: (a: NoInfer<T>, b: NoInfer<T>) => number) =>
+    rows.sort(compare).slice(0, LEADERBOARD_LIMIT);
+  const byScore = (a: { score: number }, b: { score: number }) => b.score - a.score;
+  const byTime = (a: { total_time: number }, b: { total_time: number }) => a.total_time - b.total_time;
+
+  const fetchDriftLeaderboard = async (trackId: string, carClass?: CarClass) =>
+    top((await driver.getAll<DriftTimeEntry>('drift_leaderboard')).filter(row =>
+      row.track_id === trackId && (!carClass || (row.car_class ?? 'grip') === carClass)), byTime);
+
+  // Mirror the unique client_submission_id index on the Supabase tables
+  const insertOnce = async <T extends { client_submission_id?: string }>(table: TableName, entry: T) => {
+    if (entry.client_submission_id) {
+      const existing = (await driver.getAll<T>(table)).find(row => row.client_submission_id === entry.client_submission_id);
+      if (existing) return existing;
+    }
+    return driver.insert(table, entry);
+  };
+
+  const leaderboardStore: LeaderboardStore = {
+    fetchRacingLeaderboard: async () => top(await driver.getAll<RacingScoreEntry>('racing_leaderboard'), byScore),
+    saveRacingScore: entry => insertOnce('racing_leaderboard', entry),
+    fetchDailyChallengeLeaderboard: async challengeDate =>
+      top((await driver.getAll<DailyChallengeScoreEntry>('daily_challenge_leaderboard')).filter(row => row.challenge_date === challengeDate), byScore),
+    saveDailyChallengeScore: entry => insertOnce('daily_challenge_leaderboard', entry),
+    fetchEliminationLeaderboard: async () => top(await driver.getAll<EliminationScoreEntry>('elimination_leaderboard'), byScore),
+    saveEliminationScore: entry => insertOnce('elimination_leaderboard', entry),
+    fetchDriftLeaderboard,
+    saveDriftTime: entry => insertOnce('drift_leaderboard', entry),
+    fetchGlobalBestGhost: async trackId => {
+      const [best] = await fetchDriftLeaderboard(trackId);
+      return best ? { ghost_data: best.ghost_data, total_time: best.total_time, name: best.name } : null;
+    },
+    fetchFlappyBirdLeaderboard: async () => top(await driver.getAll<FlappyBirdScoreEntry>('flappy_bird_leaderboard'), byScore),
+    saveFlappyBirdScore: entry => insertOnce('flappy_bird_leaderboard', entry)
+  };
+
+  const avatarStore: AvatarStore = {
+    fetchCommunityAvatars: async () =>
+      top(await driver.getAll<CommunityAvatarRecord>('community_avatars'), (a, b) => b.created_at.localeCompare(a.created_at)),
+    async uploadCommunityAvatar(file, name, color, accentColor) {
+      validateAvatarFile(file);
+      // No file storage offline: keep the image inline as a data URL
+      const avatarUrl = await readFileAsDataUrl(file);
+      const record: Omit<CommunityAvatarRecord, 'id' | 'created_at'> = {
+        name,
+        avatar_url: avatarUrl,
+        color,
+        accent_color: accentColor
+      };
+      return driver.insert('community_avatars', record);
+    }
+  };
+
+  return { leaderboardStore, avatarStore };
+}
+
+function readFileAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export function createMemoryStores(): StoreSet {
+  return createLocalStores(createMemoryDriver());
+}
+
+export function createIndexedDbStores(): StoreSet {
+  if (typeof indexedDB === 'undefined') {
+    console.warn('IndexedDB is not available, falling back to in-memory storage');
+    return createMemoryStores();
+  }
+  return createLocalStores(createIndexedDbDriver());
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { RacingAction, RacingSimulation } from './racingSimulation';
+import { CHARACTERS, INITIAL_SPEED, LEVEL_SCORE_THRESHOLD, SPEED_INCREMENT, THEMES } from '../constants';
+import { EntityType } from '../types';
+
+const createSimulation = (seed = 1234) =>
+  new RacingSimulation({ theme: THEMES.midnight, characterId: CHARACTERS[0].id, seed });
+
+// Put an entity where the player will be after the next step's scroll
+function placeOnPlayer(sim: RacingSimulation, type: EntityType) {
+  const state = sim.getState();
+  state.entities.push({
+    id: `test-${type}`,
+    type,
+    lane: state.playerLane,
+    x: state.playerX + state.effectiveSpeed,
+    y: state.playerY,
+    width: 40,
+    height: 40,
+    color: '#ffffff'
+  });
+}
+
+function run(sim: RacingSimulation, frames: number, inputs: Record<number, RacingAction[]> = {}) {
+  for (let i = 0; i < frames; i++) sim.step(inputs[sim.getState().frame + 1]);
+}
+
+describe('RacingSimulation', () => {
+  it('replays the same run from the same seed and inputs', () => {
+    const inputs = { 30: ['lane_up'], 90: ['jump'], 150: ['lane_down', 'nudge_right'] } as Record<number, RacingAction[]>;
+    const a = createSimulation(42);
+    const b = createSimulation(42);
+    run(a, 600, inputs);
+    run(b, 600, inputs);
+    expect(b.getState()).toEqual(a.getState());
+
+    const other = createSimulation(43);
+    run(other, 600, inputs);
+    expect(other.getState().entities).not.toEqual(a.getState().entities);
+  });
+
+  it('scores 10 points every 20 frames survived', () => {
+    const sim = createSimulation();
+    run(sim, 19);
+    expect(sim.getState().score).toBe(0);
+    run(sim, 1);
+    expect(sim.getState().score).toBe(10);
+    run(sim, 80);
+    expect(sim.getState().score).toBe(50);
+  });
+
+  it('levels up and speeds up at each score threshold', () => {
+    const sim = createSimulation();
+    sim.getState().score = LEVEL_SCORE_THRESHOLD - 10;
+    run(sim, 19);
+    const events = sim.step();
+
+    const state = sim.getState();
+    expect(state.level).toBe(2);
+    expect(state.speed).toBeCloseTo(INITIAL_SPEED + SPEED_INCREMENT);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'text', text: 'LEVEL 2' }));
+  });
+
+  it('collects coins and raises the combo multiplier', () => {
+    const sim = createSimulation();
+    placeOnPlayer(sim, 'coin');
+    sim.step();
+    expect(sim.getState()).toMatchObject({ score: 50, comboCount: 1, comboMultiplier: 1 });
+    expect(sim.getState().entities.some(e => e.type === 'coin')).toBe(false);
+
+    sim.getState().comboCount = 4;
+    placeOnPlayer(sim, 'coin');
+    sim.step();
+    expect(sim.getState()).toMatchObject({ score: 150, comboCount: 5, comboMultiplier: 2 });
+  });
+
+  it('ends the run on hitting an obstacle', () => {
+    const sim = createSimulation();
+    placeOnPlayer(sim, 'obstacle');
+    const events = sim.step();
+    expect(sim.getState().gameOver).toBe(true);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'explosion' }));
+
+    // Nothing moves once the run is over
+    const frame = sim.getState().frame;
+    expect(sim.step(['lane_up'])).toEqual([]);
+    expect(sim.getState().frame).toBe(frame);
+  });
+
+  it('spends the shield instead of ending the run', () => {
+    const sim = createSimulation();
+    placeOnPlayer(sim, 'powerup_shield');
+    sim.step();
+    expect(sim.getState().shieldActive).toBe(true);
+
+    placeOnPlayer(sim, 'obstacle');
+    sim.step();
+    const state = sim.getState();
+    expect(state.gameOver).toBe(false);
+    expect(state.shieldActive).toBe(false);
+    expect(state.entities.some(e => e.type === 'obstacle')).toBe(false);
+  });
+
+  it('clears obstacles at the top of a jump', () => {
+    const sim = createSimulation();
+    sim.step(['jump']);
+    run(sim, 3);
+    placeOnPlayer(sim, 'obstacle');
+    sim.step();
+    expect(sim.getState().gameOver).toBe(false);
+  });
+});
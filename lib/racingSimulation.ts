@@ -0,0 +1,436 @@
+import { Entity, Decor, ThemeConfig, EntityType, Character } from '../types';
+import {
+  CANVAS_WIDTH,
+  CANVAS_HEIGHT,
+  LANE_COUNT,
+  LANE_HEIGHT,
+  PLAYER_SIZE,
+  OBSTACLE_SIZE,
+  COIN_SIZE,
+  POWERUP_SIZE,
+  INITIAL_SPEED,
+  MAX_SPEED,
+  SPEED_INCREMENT,
+  LANE_TRANSITION_SPEED,
+  LEVEL_SCORE_THRESHOLD,
+  CHARACTERS
+} from '../constants';
+import { createRng, Rng } from './rng';
+
+// Headless rules for the endless runner. GameCanvas renders this state and
+// forwards input; nothing in here touches React, the DOM or a canvas.
+
+export type RacingAction = 'lane_up' | 'lane_down' | 'nudge_left' | 'nudge_right' | 'jump';
+
+// Side effects the renderer may want to show (particles, popups)
+export type RacingEvent =
+  | { type: 'explosion'; x: number; y: number; color: string; count: number }
+  | { type: 'text'; x: number; y: number; text: string; color: string };
+
+export interface RacingSimulationConfig {
+  theme: ThemeConfig;
+  characterId: string;
+  seed: number; // Drives every random decision, so seed + inputs reproduce a run
+}
+
+export interface RacingState {
+  frame: number;
+  score: number;
+  level: number;
+  speed: number;
+  effectiveSpeed: number; // Speed after slow-mo, used for scrolling this frame
+  slowMoTimer: number;
+  shieldActive: boolean;
+  gameOver: boolean;
+
+  // Combo System
+  comboCount: number;
+  comboMultiplier: number;
+  comboTimer: number;
+
+  // Player Physics - discrete lanes
+  playerLane: number;
+  playerY: number; // Visual Y position
+  playerX: number;
+  playerOffsetX: number; // Horizontal offset within lane
+  tilt: number;
+
+  // Jump Physics
+  isJumping: boolean;
+  jumpVelocity: number;
+  jumpOffsetY: number;
+
+  entities: Entity[];
+  decor: Decor[];
+}
+
+export const COMBO_DURATION_FRAMES = 180; // 3 seconds at 60fps
+const JUMP_CLEARANCE_HEIGHT = 50; // How high player needs to jump to clear obstacle
+
+// Non-rival NPC cars get one of these for variety
+const NPC_COLORS = [
+  { color: '#ef4444', accent: '#991b1b' },  // red
+  { color: '#f59e0b', accent: '#92400e' },  // orange
+  { color: '#10b981', accent: '#065f46' },  // green
+  { color: '#3b82f6', accent: '#1e3a8a' },  // blue
+  { color: '#8b5cf6', accent: '#5b21b6' },  // purple
+  { color: '#ec4899', accent: '#9f1239' },  // pink
+];
+
+function createInitialState(): RacingState {
+  return {
+    frame: 0,
+    score: 0,
+    level: 1,
+    speed: INITIAL_SPEED,
+    effectiveSpeed: INITIAL_SPEED,
+    slowMoTimer: 0,
+    shieldActive: false,
+    gameOver: false,
+    comboCount: 0,
+    comboMultiplier: 1,
+    comboTimer: 0,
+    playerLane: 2, // Start in middle (0-4)
+    playerY: 2.5 * LANE_HEIGHT,
+    playerX: 150,
+    playerOffsetX: 0,
+    tilt: 0,
+    isJumping: false,
+    jumpVelocity: 0,
+    jumpOffsetY: 0,
+    entities: [],
+    decor: []
+  };
+}
+
+export class RacingSimulation {
+  private state: RacingState = createInitialState();
+  private theme: ThemeConfig;
+  private rivals: Character[];
+  private introducedRivals = new Set<string>();
+  private events: RacingEvent[] = [];
+  private nextEntityId = 0;
+  private random: Rng;
+  readonly seed: number;
+
+  constructor(config: RacingSimulationConfig) {
+    this.theme = config.theme;
+    this.seed = config.seed;
+    this.random = createRng(config.seed);
+    // Filter out the player's character to get the list of rivals
+    this.rivals = CHARACTERS.filter(c => c.id !== config.characterId);
+  }
+
+  getState(): RacingState {
+    return this.state;
+  }
+
+  // Advance one frame (1/60s). Returns the events produced during the frame.
+  step(input: RacingAction[] = []): RacingEvent[] {
+    const s = this.state;
+    this.events = [];
+    if (s.gameOver) return this.events;
+
+    s.frame++;
+    input.forEach(action => this.applyAction(action));
+
+    // --- Level & Score Logic ---
+    s.effectiveSpeed = s.speed;
+    if (s.slowMoTimer > 0) {
+      s.slowMoTimer--;
+      s.effectiveSpeed = s.speed * 0.5;
+    }
+
+    // SLOWER CLIMB: Score based on distance/survival
+    if (s.frame % 20 === 0) {
+      s.score += 10;
+
+      // Level Up Check
+      const requiredScore = s.level * LEVEL_SCORE_THRESHOLD;
+      if (s.score >= requiredScore) {
+        s.level++;
+        s.speed = Math.min(MAX_SPEED, s.speed + SPEED_INCREMENT);
+        this.showFloatingText(`LEVEL ${s.level}`, '#facc15');
+      }
+    }
+
+    // --- Player Movement (Lerp to Lane Center) ---
+    const targetY = (s.playerLane * LANE_HEIGHT) + (LANE_HEIGHT / 2);
+    const diff = targetY - s.playerY;
+    s.playerY += diff * LANE_TRANSITION_SPEED;
+
+    // Tilt based on movement direction
+    s.tilt = Math.abs(diff) > 2 ? (diff > 0 ? 5 : -5) : 0;
+
+    // --- Jump Physics ---
+    if (s.isJumping) {
+      s.jumpVelocity += 0.6; // Gravity
+      s.jumpOffsetY += s.jumpVelocity;
+
+      // Land when back at ground level
+      if (s.jumpOffsetY >= 0) {
+        s.jumpOffsetY = 0;
+        s.jumpVelocity = 0;
+        s.isJumping = false;
+      }
+    }
+
+    // Horizontal offset decay (slide back to center)
+    if (s.playerOffsetX > 0) {
+      s.playerOffsetX = Math.max(0, s.playerOffsetX - 2);
+    } else if (s.playerOffsetX < 0) {
+      s.playerOffsetX = Math.min(0, s.playerOffsetX + 2);
+    }
+
+    // --- Spawning ---
+    const spawnRate = Math.max(50, Math.floor(1800 / (s.effectiveSpeed * 10 + 10)));
+    if (s.frame % spawnRate === 0) this.spawnEntity();
+    if (s.frame % 30 === 0) this.spawnDecor();
+
+    // --- Update Entities ---
+    s.entities.forEach(e => e.x -= s.effectiveSpeed);
+    s.decor.forEach(d => d.x -= s.effectiveSpeed);
+    s.entities = s.entities.filter(e => e.x > -100);
+    s.decor = s.decor.filter(d => d.x > -100);
+
+    // --- Combo Timer Decay ---
+    if (s.comboTimer > 0) {
+      s.comboTimer--;
+    } else if (s.comboCount > 0) {
+      // Reset combo if timer expires
+      s.comboCount = 0;
+      s.comboMultiplier = 1;
+    }
+
+    this.resolveCollisions();
+    return this.events;
+  }
+
+  private applyAction(action: RacingAction) {
+    const s = this.state;
+    switch (action) {
+      case 'lane_up':
+        s.playerLane = Math.max(0, s.playerLane - 1);
+        break;
+      case 'lane_down':
+        s.playerLane = Math.min(LANE_COUNT - 1, s.playerLane + 1);
+        break;
+      case 'nudge_left':
+        s.playerOffsetX = Math.max(-60, s.playerOffsetX - 15);
+        break;
+      case 'nudge_right':
+        s.playerOffsetX = Math.min(60, s.playerOffsetX + 15);
+        break;
+      case 'jump':
+        if (!s.isJumping) {
+          s.isJumping = true;
+          s.jumpVelocity = -15; // Initial upward velocity
+        }
+        break;
+    }
+  }
+
+  private resolveCollisions() {
+    const s = this.state;
+    const pRect = {
+      x: (s.playerX + s.playerOffsetX) - PLAYER_SIZE / 2 + 8,
+      y: (s.playerY + s.jumpOffsetY) - 12,
+      w: PLAYER_SIZE - 16,
+      h: 24
+    };
+
+    // Check if player is jumping high enough to clear obstacles
+    const isJumpingOverObstacles = s.jumpOffsetY < -JUMP_CLEARANCE_HEIGHT;
+
+    for (let i = s.entities.length - 1; i >= 0; i--) {
+      const ent = s.entities[i];
+      const entRect = { x: ent.x - ent.width / 2, y: ent.y - ent.height / 2, w: ent.width, h: ent.height };
+
+      const isOverlapping =
+        pRect.x < entRect.x + entRect.w &&
+        pRect.x + pRect.w > entRect.x &&
+        pRect.y < entRect.y + entRect.h &&
+        pRect.y + pRect.h > entRect.y;
+      if (!isOverlapping) continue;
+
+      if (ent.type === 'obstacle') {
+        // Skip obstacle collision if jumping high enough
+        if (isJumpingOverObstacles) continue;
+
+        if (s.shieldActive) {
+          s.shieldActive = false;
+          this.explode(ent.x, ent.y, '#06b6d4', 20);
+          s.entities.splice(i, 1);
+          this.showFloatingText('SHIELD BROKEN!', '#06b6d4');
+          // Reset combo on collision (even with shield)
+          s.comboCount = 0;
+          s.comboMultiplier = 1;
+          s.comboTimer = 0;
+        } else {
+          this.explode(ent.x, ent.y, ent.color);
+          s.gameOver = true;
+          return;
+        }
+      } else if (ent.type === 'coin') {
+        s.comboCount++;
+        s.comboTimer = COMBO_DURATION_FRAMES;
+
+        // Update multiplier based on combo count
+        if (s.comboCount >= 20) {
+          s.comboMultiplier = 5;
+        } else if (s.comboCount >= 10) {
+          s.comboMultiplier = 3;
+        } else if (s.comboCount >= 5) {
+          s.comboMultiplier = 2;
+        } else {
+          s.comboMultiplier = 1;
+        }
+
+        const coinValue = 50 * s.comboMultiplier;
+        s.score += coinValue;
+        this.explode(ent.x, ent.y, this.theme.colors.coin, 8);
+        s.entities.splice(i, 1);
+
+        if (s.comboMultiplier > 1) {
+          this.showFloatingText(`+${coinValue} (x${s.comboMultiplier})`, this.theme.colors.coin);
+        }
+      } else if (ent.type === 'powerup_shield') {
+        s.shieldActive = true;
+        s.score += 25;
+        this.explode(ent.x, ent.y, '#06b6d4', 10);
+        s.entities.splice(i, 1);
+        this.showFloatingText('SHIELD ACTIVE', '#06b6d4');
+      } else if (ent.type === 'powerup_slow') {
+        s.slowMoTimer = 300;
+        s.score += 25;
+        this.explode(ent.x, ent.y, '#a855f7', 10);
+        s.entities.splice(i, 1);
+        this.showFloatingText('TIME SLOW', '#a855f7');
+      } else if (ent.type === 'powerup_blast') {
+        s.score += 100;
+        s.entities = s.entities.filter(e => {
+          if (e.type === 'obstacle') {
+            this.explode(e.x, e.y, e.color, 8);
+            return false;
+          }
+          return e !== ent;
+        });
+        this.explode(ent.x, ent.y, '#ef4444', 30);
+        this.showFloatingText('SONIC BLAST!', '#ef4444');
+        // Stop here since we've replaced the entire entities array
+        break;
+      }
+    }
+  }
+
+  private spawnEntity() {
+    const s = this.state;
+    const lane = Math.floor(this.random() * LANE_COUNT);
+    const laneY = lane * LANE_HEIGHT + (LANE_HEIGHT / 2);
+
+    let type: EntityType = 'obstacle';
+    const rand = this.random();
+
+    // Adjusted Rarity
+    if (rand > 0.99) type = 'powerup_blast'; // 1%
+    else if (rand > 0.98) type = 'powerup_shield'; // 1%
+    else if (rand > 0.97) type = 'powerup_slow'; // 1%
+    else if (rand > 0.94) type = 'coin'; // 6%
+
+    let size = OBSTACLE_SIZE;
+    let color = this.theme.colors.obstacle;
+    let accentColor = this.theme.colors.obstacleAccent;
+    let isRival = false;
+    let name: string | undefined = undefined;
+    let avatarUrl: string | undefined = undefined;
+
+    if (type === 'coin') {
+      size = COIN_SIZE;
+      color = this.theme.colors.coin;
+    }
+    if (type.startsWith('powerup')) size = POWERUP_SIZE;
+
+    // Rival & NPC Car Spawning Logic
+    if (type === 'obstacle') {
+      // Logic: Unlock 1 rival every 2 levels (2, 4, 6, 8)
+      const unlockedCount = Math.floor(s.level / 2);
+
+      if (unlockedCount > 0 && this.random() > 0.3) { // 70% chance for obstacle to be a Rival if unlocked
+        const maxIndex = Math.min(unlockedCount - 1, this.rivals.length - 1);
+        const rival = this.rivals[Math.floor(this.random() * (maxIndex + 1))];
+
+        if (rival) {
+          isRival = true;
+          color = rival.color;
+          accentColor = rival.accentColor;
+          name = rival.name;
+          avatarUrl = rival.avatarUrl;
+
+          // New Rival Discovery Alert
+          if (!this.introducedRivals.has(rival.id)) {
+            this.introducedRivals.add(rival.id);
+            this.showFloatingText(`CHALLENGER: ${rival.name}`, rival.color);
+          }
+        }
+      } else {
+        // Non-rival NPC cars: random avatar from ALL characters, random paint
+        const randomChar = CHARACTERS[Math.floor(this.random() * CHARACTERS.length)];
+        avatarUrl = randomChar.avatarUrl;
+        const randomColor = NPC_COLORS[Math.floor(this.random() * NPC_COLORS.length)];
+        color = randomColor.color;
+        accentColor = randomColor.accent;
+      }
+    }
+
+    const entity: Entity = {
+      id: `e${this.nextEntityId++}`,
+      type,
+      lane,
+      x: CANVAS_WIDTH + 100,
+      y: laneY,
+      width: size,
+      height: size,
+      color,
+      accentColor,
+      isRival,
+      name,
+      avatarUrl
+    };
+
+    // Check collision with existing entities in same lane at spawn (basic overlap)
+    const tooClose = s.entities.some(e => e.lane === lane && Math.abs(e.x - entity.x) < 300);
+    if (!tooClose) {
+      s.entities.push(entity);
+    }
+  }
+
+  private spawnDecor() {
+    const side = this.random() > 0.5 ? 'top' : 'bottom';
+
+    let type: Decor['type'] = 'tree';
+    if (this.theme.scenery === 'city') type = 'light';
+    if (this.theme.scenery === 'palm') type = 'column';
+
+    this.state.decor.push({
+      id: `d${this.nextEntityId++}`,
+      x: CANVAS_WIDTH + 50,
+      y: side === 'top' ? -40 : CANVAS_HEIGHT + 40,
+      type,
+      scale: 1
+    });
+  }
+
+  private explode(x: number, y: number, color: string, count = 8) {
+    this.events.push({ type: 'explosion', x, y, color, count });
+  }
+
+  private showFloatingText(text: string, color: string) {
+    this.events.push({
+      type: 'text',
+      x: this.state.playerX,
+      y: this.state.playerY - 40,
+      text,
+      color
+    });
+  }
+}
@@ -0,0 +1,136 @@
+import { ThemeId } from '../types';
+import { THEMES } from '../constants';
+import { RacingAction } from './racingSimulation';
+
+// Input-recording replays for the endless runner. A run is fully described by
+// its seed plus the frame each action landed on; playback re-simulates it.
+
+export const REPLAY_VERSION = 1;
+
+export interface ReplayInput {
+  frame: number;
+  action: RacingAction;
+}
+
+export interface RacingReplay {
+  version: number;
+  seed: number;
+  themeId: ThemeId;
+  characterId: string;
+  score: number;
+  frames: number; // Frame the run ended on
+  inputs: ReplayInput[];
+  recordedAt: string;
+}
+
+// On-disk shape: inputs packed as "<frames since previous><code>" tokens, e.g. "12U,5D,30J"
+interface ReplayFile {
+  v: number;
+  seed: number;
+  theme: ThemeId;
+  character: string;
+  score: number;
+  frames: number;
+  inputs: string;
+  at: string;
+}
+
+const ACTION_CODES: Record<RacingAction, string> = {
+  lane_up: 'U',
+  lane_down: 'D',
+  nudge_left: 'L',
+  nudge_right: 'R',
+  jump: 'J'
+};
+
+const CODE_ACTIONS: Record<string, RacingAction> = Object.fromEntries(
+  Object.entries(ACTION_CODES).map(([action, code]) => [code, action as RacingAction])
+);
+
+export function encodeInputs(inputs: ReplayInput[]): string {
+  let lastFrame = 0;
+  return inputs.map(({ frame, action }) => {
+    const token = `${frame - lastFrame}${ACTION_CODES[action]}`;
+    lastFrame = frame;
+    return token;
+  }).join(',');
+}
+
+export function decodeInputs(encoded: string): ReplayInput[] {
+  if (!encoded) return [];
+  let frame = 0;
+  return encoded.split(',').map(token => {
+    const match = /^(\d+)([A-Z])$/.exec(token);
+    const action = match && CODE_ACTIONS[match[2]];
+    if (!match || !action) {
+      throw new Error(`Invalid replay input "${token}"`);
+    }
+    frame += parseInt(match[1], 10);
+    return { frame, action };
+  });
+}
+
+export function serializeReplay(replay: RacingReplay): string {
+  const file: ReplayFile = {
+    v: replay.version,
+    seed: replay.seed,
+    theme: replay.themeId,
+    character: replay.characterId,
+    score: replay.score,
+    frames: replay.frames,
+    inputs: encodeInputs(replay.inputs),
+    at: replay.recordedAt
+  };
+  return JSON.stringify(file);
+}
+
+export function parseReplay(json: string): RacingReplay {
+  let file: ReplayFile;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new Error('Replay file is not valid JSON');
+  }
+
+  if (!file || file.v !== REPLAY_VERSION) {
+    throw new Error('Unsupported replay version');
+  }
+  if (!Number.isInteger(file.seed) || !Number.isInteger(file.frames) || typeof file.score !== 'number') {
+    throw new Error('Replay file is missing run data');
+  }
+  if (!THEMES[file.theme]) {
+    throw new Error(`Unknown replay theme "${file.theme}"`);
+  }
+
+  return {
+    version: file.v,
+    seed: file.seed >>> 0,
+    themeId: file.theme,
+    characterId: String(file.character),
+    score: file.score,
+    frames: file.frames,
+    inputs: decodeInputs(String(file.inputs ?? '')),
+    recordedAt: String(file.at ?? '')
+  };
+}
+
+// Group inputs by frame for playback
+export function indexInputsByFrame(inputs: ReplayInput[]): Map<number, RacingAction[]> {
+  const byFrame = new Map<number, RacingAction[]>();
+  inputs.forEach(({ frame, action }) => {
+    const actions = byFrame.get(frame);
+    if (actions) actions.push(action);
+    else byFrame.set(frame, [action]);
+  });
+  return byFrame;
+}
+
+export function downloadReplay(replay: RacingReplay) {
+  const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `neon-runner-${replay.score}-${replay.seed.toString(16)}.replay.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,40 @@
+// Seedable PRNG (mulberry32). Same seed, same sequence, on every machine.
+export type Rng = () => number;
+
+export function createRng(seed: number): Rng {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Fresh 32-bit seed for a new run
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+// Short shareable form of a seed, e.g. "1A2B3C4D"
+export function formatSeed(seed: number): string {
+  return (seed >>> 0).toString(16).toUpperCase().padStart(8, '0');
+}
+
+// Inverse of formatSeed; null for anything that isn't 1-8 hex digits
+export function parseSeed(text: string): number | null {
+  const trimmed = text.trim();
+  if (!/^[0-9a-fA-F]{1,8}$/.test(trimmed)) return null;
+  return parseInt(trimmed, 16) >>> 0;
+}
+
+// Stable 32-bit seed from a string (FNV-1a), e.g. for date-based seeds
+export function seedFromString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
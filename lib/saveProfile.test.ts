@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { encodeGhost } from './ghost';
+import { CarSetup } from './driftCar';
+import { GhostFrame } from './tracks';
+
+// localStorage for the node test environment
+class MemoryStorage {
+  private readonly items = new Map<string, string>();
+  get length() { return this.items.size; }
+  key(index: number) { return [...this.items.keys()][index] ?? null; }
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  setItem(key: string, value: string) { this.items.set(key, String(value)); }
+  removeItem(key: string) { this.items.delete(key); }
+  clear() { this.items.clear(); }
+}
+
+const PROFILE_KEY = 'neon_runner_profile';
+
+let storage: MemoryStorage;
+
+// The profile is cached per module, so every load gets a fresh copy
+async function loadSaveProfile() {
+  vi.resetModules();
+  return import('./saveProfile');
+}
+
+beforeEach(() => {
+  storage = new MemoryStorage();
+  vi.stubGlobal('localStorage', storage);
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+const frames: GhostFrame[] = Array.from({ length: 21 }, (_, i) => ({ x: 100 + i * 10, y: 200, angle: 0, timestamp: i / 20 }));
+const ghost = encodeGhost(frames);
+const scores = [
+  { name: 'ACE', score: 9000, date: '2025-01-02T00:00:00.000Z' },
+  { name: 'NEW', score: 12000, date: '2025-01-03T00:00:00.000Z' }
+];
+const setup: CarSetup = { carClass: 'grip', steering: 1, grip: -1, boost: 0 };
+
+// The same progress as each version stored it. 12.5s on Neon Streets is a silver medal.
+const savesByVersion: Record<number, object> = {
+  1: {
+    version: 1,
+    lifetimePoints: 1234,
+    racing: { scores, bestReplay: null },
+    elimination: { wins: 3 },
+    drift: { tracks: { 'neon-streets': { bestTime: 12.5, ghost: frames, splits: [4, 8.5, 12.5] } } }
+  },
+  2: {
+    version: 2,
+    lifetimePoints: 1234,
+    racing: { scores, bestReplay: null },
+    elimination: { wins: 3 },
+    drift: { tracks: { 'neon-streets': { bestTime: 12.5, ghost, splits: [4, 8.5, 12.5] } } }
+  },
+  3: {
+    version: 3,
+    lifetimePoints: 1234,
+    racing: { scores, bestReplay: null },
+    elimination: { wins: 3 },
+    drift: { tracks: { 'neon-streets': { bestTime: 12.5, ghost, splits: [4, 8.5, 12.5] } }, customTracks: [] }
+  },
+  4: {
+    version: 4,
+    lifetimePoints: 1234,
+    racing: { scores, bestReplay: null },
+    elimination: { wins: 3 },
+    drift: { tracks: { 'neon-streets': { bestTime: 12.5, ghost, splits: [4, 8.5, 12.5] } }, customTracks: [], medals: { 'neon-streets': 'silver' } }
+  },
+  5: {
+    version: 5,
+    lifetimePoints: 1234,
+    racing: { scores, bestReplay: null },
+    elimination: { wins: 3 },
+    drift: {
+      tracks: { 'neon-streets': { bestTime: 12.5, ghost, splits: [4, 8.5, 12.5] } },
+      customTracks: [],
+      medals: { 'neon-streets': 'silver' },
+      setups: { 'neon-streets': setup }
+    }
+  }
+};
+
+const expectedProfile = (setups: Record<string, CarSetup>) => ({
+  version: 6,
+  lifetimePoints: 1234,
+  racing: { scores: [scores[1], scores[0]], bestReplay: null },
+  elimination: { wins: 3 },
+  drift: {
+    tracks: { 'neon-streets': { bestTime: 12.5, ghost, splits: [4, 8.5, 12.5] } },
+    customTracks: [],
+    medals: { 'neon-streets': 'silver' },
+    setups,
+    championship: null
+  }
+});
+
+describe('save profile migrations', () => {
+  it('moves version 0 loose keys into the profile and removes them', async () => {
+    storage.setItem('neon_runner_scores', JSON.stringify(scores));
+    storage.setItem('neon_runner_lifetime_points', '1234');
+    storage.setItem('neon_runner_elimination_wins', '3');
+    storage.setItem('best-time-neon-streets', '12.5');
+    storage.setItem('ghost-neon-streets', JSON.stringify(frames));
+
+    const { getSaveProfile } = await loadSaveProfile();
+    // Loose keys never had splits
+    const expected = expectedProfile({});
+    expected.drift.tracks['neon-streets'].splits = [];
+    expect(getSaveProfile()).toEqual(expected);
+    expect(storage.length).toBe(1);
+    expect(JSON.parse(storage.getItem(PROFILE_KEY)!)).toEqual(expected);
+  });
+
+  it.each([1, 2, 3, 4, 5])('upgrades a version %i save to version 6', async version => {
+    storage.setItem(PROFILE_KEY, JSON.stringify(savesByVersion[version]));
+
+    const { getSaveProfile } = await loadSaveProfile();
+    const expected = expectedProfile(version === 5 ? { 'neon-streets': setup } : {});
+    expect(getSaveProfile()).toEqual(expected);
+    expect(JSON.parse(storage.getItem(PROFILE_KEY)!)).toEqual(expected);
+  });
+
+  it('loads a current save as it is', async () => {
+    const current = expectedProfile({ 'neon-streets': setup });
+    storage.setItem(PROFILE_KEY, JSON.stringify(current));
+
+    const { getSaveProfile } = await loadSaveProfile();
+    expect(getSaveProfile()).toEqual(current);
+  });
+});
+
+describe('saves from a newer version', () => {
+  const newer = JSON.stringify({ ...expectedProfile({}), version: 7, lifetimePoints: 500, garage: ['drift-king'] });
+
+  it('loads what it understands without saving over the newer save', async () => {
+    storage.setItem(PROFILE_KEY, newer);
+
+    const { getSaveProfile, getNewerSaveVersion, addLifetimePoints } = await loadSaveProfile();
+    expect(getSaveProfile().lifetimePoints).toBe(500);
+    expect(getNewerSaveVersion()).toBe(7);
+
+    expect(addLifetimePoints(100)).toBe(600);
+    expect(storage.getItem(PROFILE_KEY)).toBe(newer);
+    expect(storage.getItem('neon_runner_profile_newer')).toBe(newer);
+  });
+
+  it('saves over it, keeping a copy, once the player agrees', async () => {
+    storage.setItem(PROFILE_KEY, newer);
+
+    const { getNewerSaveVersion, addLifetimePoints, replaceNewerSave } = await loadSaveProfile();
+    addLifetimePoints(100);
+    replaceNewerSave();
+    expect(getNewerSaveVersion()).toBeNull();
+    expect(JSON.parse(storage.getItem(PROFILE_KEY)!)).toMatchObject({ version: 6, lifetimePoints: 600 });
+    expect(storage.getItem('neon_runner_profile_newer')).toBe(newer);
+
+    addLifetimePoints(50);
+    expect(JSON.parse(storage.getItem(PROFILE_KEY)!)).toMatchObject({ lifetimePoints: 650 });
+  });
+});
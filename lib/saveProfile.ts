@@ -0,0 +1,622 @@
+import { LeaderboardEntry } from '../types';
+import { GhostFrame, Track } from './tracks';
+import { decodeGhost, encodeGhost } from './ghost';
+import { isCustomTrack, readTrack } from './trackEditor';
+import { resolveTrack } from './trackGenerator';
+import { DRIFT_MEDALS, DriftMedal, getMedalForTime, isBetterMedal } from './driftMedals';
+import { CarSetup, DEFAULT_SETUP, readCarSetup } from './driftCar';
+import { DriftChampionship, readChampionship } from './driftChampionship';
+import { RacingReplay, parseReplay, serializeReplay } from './replay';
+
+// Everything the game keeps on this device lives in one versioned profile
+// under a single localStorage key. Older saves (loose per-feature keys) are
+// migrated on first load, and unreadable data is backed up and reset rather
+// than crashing the game. A save from a newer build is loaded as far as this
+// one understands it but left untouched until the player agrees to replace it.
+
+export const SAVE_PROFILE_VERSION = 6;
+
+const PROFILE_KEY = 'neon_runner_profile';
+const BACKUP_KEY = 'neon_runner_profile_backup';
+const NEWER_SAVE_KEY = 'neon_runner_profile_newer'; // Copy of a newer build's save, kept after replacing it
+
+export interface DriftTrackRecord {
+  bestTime: number; // Seconds
+  ghost: string; // Compact-encoded ghost of the best run (lib/ghost.ts)
+  splits: number[]; // Race time at each timing gate of the best run, for live deltas
+}
+
+export interface SaveProfile {
+  version: number;
+  lifetimePoints: number; // Total cumulative points earned across all games
+  racing: {
+    scores: LeaderboardEntry[]; // Local leaderboard, best first
+    bestReplay: string | null; // Serialized RacingReplay of the highest score
+  };
+  elimination: {
+    wins: number;
+  };
+  drift: {
+    tracks: Record<string, DriftTrackRecord>; // Keyed by track id
+    customTracks: Track[]; // Made in the track editor or imported from track files
+    medals: Record<string, DriftMedal>; // Best medal earned, keyed by track id
+    setups: Record<string, CarSetup>; // Last car and tuning raced, keyed by track id
+    championship: DriftChampionship | null; // Cup in progress, or the last one finished
+  };
+}
+
+export function createDefaultProfile(): SaveProfile {
+  const now = new Date().toISOString();
+  return {
+    version: SAVE_PROFILE_VERSION,
+    lifetimePoints: 0,
+    racing: {
+      scores: [
+        { name: 'CPU', score: 15000, date: now, rankTitle: 'The Architect', aiComment: 'I literally designed this game.' },
+        { name: 'BOT', score: 8000, date: now, rankTitle: 'Speed Demon', aiComment: 'Beep boop, too fast for you.' },
+      ],
+      bestReplay: null
+    },
+    elimination: { wins: 0 },
+    drift: { tracks: {}, customTracks: [], medals: {}, setups: {}, championship: null }
+  };
+}
+
+// --- Migrations ---
+// Version 0 is the pre-profile layout: one raw localStorage key per feature
+const LEGACY_KEYS = {
+  scores: 'neon_runner_scores',
+  lifetimePoints: 'neon_runner_lifetime_points',
+  eliminationWins: 'neon_runner_elimination_wins',
+  bestReplay: 'neon_runner_best_replay'
+};
+const LEGACY_GHOST_PREFIX = 'ghost-';
+const LEGACY_BEST_TIME_PREFIX = 'best-time-';
+
+// A save partway through migration. Only its version has been checked; sanitizeProfile checks the rest.
+interface VersionedSave {
+  version: number;
+  [field: string]: unknown;
+}
+
+interface LegacySave extends VersionedSave {
+  version: 0;
+  values: Record<string, string>; // Raw localStorage contents of the legacy keys
+}
+
+// Untrusted data as an object whose fields can be read, or an empty one
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+const isVersionedSave = (value: unknown): value is VersionedSave =>
+  Number.isInteger(asRecord(value).version);
+
+function readLegacySave(): LegacySave | null {
+  const values: Record<string, string> = {};
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key) continue;
+    const isLegacy = Object.values(LEGACY_KEYS).includes(key) ||
+      key.startsWith(LEGACY_GHOST_PREFIX) ||
+      key.startsWith(LEGACY_BEST_TIME_PREFIX);
+    if (isLegacy) values[key] = localStorage.getItem(key) ?? '';
+  }
+  return Object.keys(values).length > 0 ? { version: 0, values } : null;
+}
+
+function parseJson(value: string | undefined): unknown {
+  if (value === undefined) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function migrateFromLegacyKeys(save: VersionedSave): SaveProfile {
+  const values: Record<string, string> = {};
+  Object.entries(asRecord(save.values)).forEach(([key, value]) => {
+    if (typeof value === 'string') values[key] = value;
+  });
+  const profile = createDefaultProfile();
+
+  const scores = parseJson(values[LEGACY_KEYS.scores]);
+  if (Array.isArray(scores)) profile.racing.scores = scores;
+  profile.racing.bestReplay = values[LEGACY_KEYS.bestReplay] ?? null;
+  profile.lifetimePoints = parseInt(values[LEGACY_KEYS.lifetimePoints] ?? '0', 10);
+  profile.elimination.wins = parseInt(values[LEGACY_KEYS.eliminationWins] ?? '0', 10);
+
+  Object.keys(values)
+    .filter(key => key.startsWith(LEGACY_BEST_TIME_PREFIX))
+    .forEach(key => {
+      const trackId = key.slice(LEGACY_BEST_TIME_PREFIX.length);
+      const ghost = parseJson(values[LEGACY_GHOST_PREFIX + trackId]);
+      profile.drift.tracks[trackId] = {
+        bestTime: parseFloat(values[key]),
+        ghost: encodeGhost(decodeGhost(ghost)),
+        splits: []
+      };
+    });
+
+  // Anything unparseable is cleaned up by sanitizeProfile
+  return profile;
+}
+
+// Version 1 kept drift ghosts as arrays of frames; version 2 stores them compact
+function migrateToCompactGhosts(save: VersionedSave): VersionedSave {
+  const drift = asRecord(save.drift);
+  if (!drift.tracks || typeof drift.tracks !== 'object') return save;
+  const compacted: Record<string, unknown> = {};
+  Object.entries(asRecord(drift.tracks)).forEach(([trackId, record]) => {
+    compacted[trackId] = record && { ...asRecord(record), ghost: encodeGhost(decodeGhost(asRecord(record).ghost)) };
+  });
+  return { ...save, drift: { ...drift, tracks: compacted } };
+}
+
+// Version 3 added custom tracks
+function addCustomTracks(save: VersionedSave): VersionedSave {
+  return { ...save, drift: { ...asRecord(save.drift), customTracks: [] } };
+}
+
+// Version 4 added medals, awarded here for the best times already saved
+function addMedals(save: VersionedSave): VersionedSave {
+  const drift = asRecord(save.drift);
+  const customTracks: unknown[] = Array.isArray(drift.customTracks) ? drift.customTracks : [];
+  const medals: Record<string, DriftMedal> = {};
+  Object.entries(asRecord(drift.tracks)).forEach(([trackId, record]) => {
+    const custom = asRecord(customTracks.find(candidate => asRecord(candidate).id === trackId));
+    const worldRecord = resolveTrack(trackId)?.worldRecord ?? custom.worldRecord;
+    const { bestTime } = asRecord(record);
+    const medal = typeof worldRecord === 'number' && typeof bestTime === 'number' ? getMedalForTime({ worldRecord }, bestTime) : null;
+    if (medal) medals[trackId] = medal;
+  });
+  return { ...save, drift: { ...drift, medals } };
+}
+
+// Version 5 added car setups
+function addSetups(save: VersionedSave): VersionedSave {
+  return { ...save, drift: { ...asRecord(save.drift), setups: {} } };
+}
+
+// Version 6 added the championship
+function addChampionship(save: VersionedSave): VersionedSave {
+  return { ...save, drift: { ...asRecord(save.drift), championship: null } };
+}
+
+// MIGRATIONS[n] upgrades a version n save to version n + 1
+const MIGRATIONS: Record<number, (save: VersionedSave) => object> = {
+  0: migrateFromLegacyKeys,
+  1: migrateToCompactGhosts,
+  2: addCustomTracks,
+  3: addMedals,
+  4: addSetups,
+  5: addChampionship
+};
+
+function migrate(save: VersionedSave): VersionedSave {
+  let current = save;
+  while (current.version < SAVE_PROFILE_VERSION) {
+    const step = MIGRATIONS[current.version];
+    if (!step) throw new Error(`No save migration from version ${current.version}`);
+    current = { ...step(current), version: current.version + 1 };
+  }
+  return current;
+}
+
+// --- Validation ---
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+function sanitizeScores(scores: unknown): LeaderboardEntry[] | null {
+  if (!Array.isArray(scores)) return null;
+  return scores
+    .filter(entry => entry && typeof entry.name === 'string' && Number.isFinite(entry.score))
+    .sort((a, b) => b.score - a.score);
+}
+
+function sanitizeBestReplay(replay: unknown): string | null {
+  if (typeof replay !== 'string') return null;
+  try {
+    parseReplay(replay);
+    return replay;
+  } catch {
+    return null;
+  }
+}
+
+function sanitizeDriftTracks(tracks: unknown): Record<string, DriftTrackRecord> {
+  if (!tracks || typeof tracks !== 'object') return {};
+  const result: Record<string, DriftTrackRecord> = {};
+  Object.entries(asRecord(tracks)).forEach(([trackId, record]) => {
+    const { bestTime, ghost, splits } = asRecord(record);
+    if (typeof bestTime !== 'number' || !(bestTime > 0) || !Number.isFinite(bestTime)) return;
+    result[trackId] = {
+      bestTime,
+      ghost: typeof ghost === 'string' && decodeGhost(ghost).length > 0 ? ghost : '',
+      splits: Array.isArray(splits) ? splits.filter(Number.isFinite) : []
+    };
+  });
+  return result;
+}
+
+function sanitizeCustomTracks(tracks: unknown): Track[] {
+  if (!Array.isArray(tracks)) return [];
+  return tracks.flatMap(data => {
+    try {
+      const track = readTrack(data);
+      return isCustomTrack(track) ? [track] : [];
+    } catch {
+      return [];
+    }
+  });
+}
+
+function sanitizeMedals(medals: unknown): Record<string, DriftMedal> {
+  if (!medals || typeof medals !== 'object') return {};
+  const result: Record<string, DriftMedal> = {};
+  Object.entries(medals as Record<string, unknown>).forEach(([trackId, medal]) => {
+    if (DRIFT_MEDALS.includes(medal as DriftMedal)) result[trackId] = medal as DriftMedal;
+  });
+  return result;
+}
+
+function sanitizeSetups(setups: unknown): Record<string, CarSetup> {
+  if (!setups || typeof setups !== 'object') return {};
+  const result: Record<string, CarSetup> = {};
+  Object.entries(setups as Record<string, unknown>).forEach(([trackId, setup]) => {
+    result[trackId] = readCarSetup(setup);
+  });
+  return result;
+}
+
+// Keep whatever is valid and fall back to defaults field by field
+function sanitizeProfile(data: unknown): SaveProfile {
+  const defaults = createDefaultProfile();
+  const save = asRecord(data);
+  const racing = asRecord(save.racing);
+  const elimination = asRecord(save.elimination);
+  const drift = asRecord(save.drift);
+  return {
+    version: SAVE_PROFILE_VERSION,
+    lifetimePoints: isCount(save.lifetimePoints) ? save.lifetimePoints : defaults.lifetimePoints,
+    racing: {
+      scores: sanitizeScores(racing.scores) ?? defaults.racing.scores,
+      bestReplay: sanitizeBestReplay(racing.bestReplay)
+    },
+    elimination: {
+      wins: isCount(elimination.wins) ? elimination.wins : defaults.elimination.wins
+    },
+    drift: {
+      tracks: sanitizeDriftTracks(drift.tracks),
+      customTracks: sanitizeCustomTracks(drift.customTracks),
+      medals: sanitizeMedals(drift.medals),
+      setups: sanitizeSetups(drift.setups),
+      championship: readChampionship(drift.championship)
+    }
+  };
+}
+
+// --- Loading and saving ---
+let cachedProfile: SaveProfile | null = null;
+let newerSaveVersion: number | null = null; // Set while a newer build's save is loaded but not yet replaced
+
+function writeProfile(profile: SaveProfile) {
+  if (newerSaveVersion !== null) return;
+  try {
+    localStorage.setItem(PROFILE_KEY, JSON.stringify(profile));
+  } catch (error) {
+    console.error('Failed to write save profile:', error);
+  }
+}
+
+function removeLegacyKeys(save: LegacySave) {
+  Object.keys(save.values).forEach(key => localStorage.removeItem(key));
+}
+
+function loadProfile(): SaveProfile {
+  const stored = localStorage.getItem(PROFILE_KEY);
+  const legacy = stored === null ? readLegacySave() : null;
+
+  let data: VersionedSave | null = legacy;
+  if (stored !== null) {
+    const parsed = parseJson(stored);
+    if (isVersionedSave(parsed)) {
+      data = parsed;
+      if (parsed.version > SAVE_PROFILE_VERSION) {
+        // Saving over it would throw away whatever this version doesn't understand
+        console.warn(`Save profile is from a newer version (${parsed.version}), loading what this version understands`);
+        localStorage.setItem(NEWER_SAVE_KEY, stored);
+        newerSaveVersion = parsed.version;
+      }
+    } else {
+      // Keep the broken save around for manual recovery, then start fresh
+      console.error('Save profile is corrupted, resetting it');
+      localStorage.setItem(BACKUP_KEY, stored);
+    }
+  }
+
+  let profile = createDefaultProfile();
+  let migrated = false;
+  if (data) {
+    try {
+      profile = sanitizeProfile(migrate(data));
+      migrated = true;
+    } catch (error) {
+      // Back up whatever failed, the stored profile or the legacy keys, before starting fresh
+      console.error('Failed to migrate save profile:', error);
+      localStorage.setItem(BACKUP_KEY, stored ?? JSON.stringify(legacy?.values));
+    }
+  }
+
+  writeProfile(profile);
+  // Legacy keys hold the only copy of old progress until it has made it into the profile
+  if (legacy && migrated) removeLegacyKeys(legacy);
+  return profile;
+}
+
+export function getSaveProfile(): SaveProfile {
+  if (!cachedProfile) cachedProfile = loadProfile();
+  return cachedProfile;
+}
+
+// Version of the save from a newer build that is loaded, or null. Progress
+// stays in memory only until replaceNewerSave is called.
+export function getNewerSaveVersion(): number | null {
+  getSaveProfile();
+  return newerSaveVersion;
+}
+
+// The player chose to carry on with this version: save over the newer save.
+// The newer save is kept as it was under its own key.
+export function replaceNewerSave() {
+  if (newerSaveVersion === null) return;
+  newerSaveVersion = null;
+  writeProfile(getSaveProfile());
+}
+
+// Apply a change and persist it. Returns the new profile.
+export function updateSaveProfile(update: (profile: SaveProfile) => SaveProfile): SaveProfile {
+  cachedProfile = sanitizeProfile(update(getSaveProfile()));
+  writeProfile(cachedProfile);
+  return cachedProfile;
+}
+
+// --- Racing ---
+export function getLocalScores(): LeaderboardEntry[] {
+  return getSaveProfile().racing.scores;
+}
+
+export function addLocalScore(entry: LeaderboardEntry): LeaderboardEntry[] {
+  return updateSaveProfile(profile => ({
+    ...profile,
+    racing: { ...profile.racing, scores: [...profile.racing.scores, entry] }
+  })).racing.scores;
+}
+
+export function getBestReplay(): RacingReplay | null {
+  const { bestReplay } = getSaveProfile().racing;
+  return bestReplay ? parseReplay(bestReplay) : null;
+}
+
+export function saveBestReplay(replay: RacingReplay) {
+  updateSaveProfile(profile => ({
+    ...profile,
+    racing: { ...profile.racing, bestReplay: serializeReplay(replay) }
+  }));
+}
+
+// --- Progression ---
+export function getLifetimePoints(): number {
+  return getSaveProfile().lifetimePoints;
+}
+
+export function addLifetimePoints(points: number): number {
+  return updateSaveProfile(profile => ({
+    ...profile,
+    lifetimePoints: profile.lifetimePoints + Math.max(0, Math.floor(points))
+  })).lifetimePoints;
+}
+
+export function getEliminationWins(): number {
+  return getSaveProfile().elimination.wins;
+}
+
+export function recordEliminationWin(): number {
+  return updateSaveProfile(profile => ({
+    ...profile,
+    elimination: { ...profile.elimination, wins: profile.elimination.wins + 1 }
+  })).elimination.wins;
+}
+
+// --- Drift Attack ---
+export function getDriftRecord(trackId: string): DriftTrackRecord | null {
+  return getSaveProfile().drift.tracks[trackId] ?? null;
+}
+
+// Stores the run if it beats the current best. Returns true for a new personal best.
+export function saveDriftRecord(trackId: string, time: number, ghost: GhostFrame[], splits: number[]): boolean {
+  const current = getDriftRecord(trackId);
+  if (current && current.bestTime <= time) return false;
+
+  const record: DriftTrackRecord = { bestTime: time, ghost: encodeGhost(ghost), splits };
+  updateSaveProfile(profile => ({
+    ...profile,
+    drift: { ...profile.drift, tracks: { ...profile.drift.tracks, [trackId]: record } }
+  }));
+  return true;
+}
+
+export function getDriftMedals(): Record<string, DriftMedal> {
+  return getSaveProfile().drift.medals;
+}
+
+// Keeps the medal if it beats the one already held. Returns true for an upgrade.
+export function awardDriftMedal(trackId: string, medal: DriftMedal): boolean {
+  if (!isBetterMedal(medal, getDriftMedals()[trackId] ?? null)) return false;
+  updateSaveProfile(profile => ({
+    ...profile,
+    drift: { ...profile.drift, medals: { ...profile.drift.medals, [trackId]: medal } }
+  }));
+  return true;
+}
+
+// The setup last raced on the track, or the stock grip car
+export function getDriftSetup(trackId: string): CarSetup {
+  return getSaveProfile().drift.setups[trackId] ?? DEFAULT_SETUP;
+}
+
+export function saveDriftSetup(trackId: string, setup: CarSetup) {
+  updateSaveProfile(profile => ({
+    ...profile,
+    drift: { ...profile.drift, setups: { ...profile.drift.setups, [trackId]: setup } }
+  }));
+}
+
+export function getDriftChampionship(): DriftChampionship | null {
+  return getSaveProfile().drift.championship;
+}
+
+// Starts, advances or (with null) abandons the championship
+export function saveDriftChampionship(championship: DriftChampionship | null) {
+  updateSaveProfile(profile => ({
+    ...profile,
+    drift: { ...profile.drift, championship }
+  }));
+}
+
+// Custom tracks, in the order they were first saved
+export function getCustomTracks(): Track[] {
+  return getSaveProfile().drift.customTracks;
+}
+
+// Adds the track, or replaces the saved one with the same id
+export function saveCustomTrack(track: Track): Track[] {
+  return updateSaveProfile(profile => {
+    const existing = profile.drift.customTracks;
+    const customTracks = existing.some(saved => saved.id === track.id)
+      ? existing.map(saved => saved.id === track.id ? track : saved)
+      : [...existing, track];
+    return { ...profile, drift: { ...profile.drift, customTracks } };
+  }).drift.customTracks;
+}
+
+// Removes the track along with its best time, medal and setup
+export function deleteCustomTrack(trackId: string): Track[] {
+  return updateSaveProfile(profile => {
+    const { [trackId]: _removed, ...tracks } = profile.drift.tracks;
+    const { [trackId]: _removedMedal, ...medals } = profile.drift.medals;
+    const { [trackId]: _removedSetup, ...setups } = profile.drift.setups;
+    return {
+      ...profile,
+      drift: { ...profile.drift, tracks, customTracks: profile.drift.customTracks.filter(track => track.id !== trackId), medals, setups }
+    };
+  }).drift.customTracks;
+}
+
+// --- Export / import ---
+// Save files wrap the profile with a SHA-256 checksum so truncated or
+// hand-edited files are caught before they touch the local save.
+const SAVE_FILE_FORMAT = 'neon-runner-save';
+
+interface SaveFile {
+  format: string;
+  exportedAt: string;
+  checksum: string;
+  profile: SaveProfile;
+}
+
+export type ImportMode = 'merge' | 'overwrite';
+
+async function checksumOf(profile: unknown): Promise<string> {
+  const bytes = new TextEncoder().encode(JSON.stringify(profile));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function exportSaveProfile(): Promise<string> {
+  const profile = getSaveProfile();
+  const file: SaveFile = {
+    format: SAVE_FILE_FORMAT,
+    exportedAt: new Date().toISOString(),
+    checksum: await checksumOf(profile),
+    profile
+  };
+  return JSON.stringify(file);
+}
+
+export async function downloadSaveProfile() {
+  const blob = new Blob([await exportSaveProfile()], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `neon-runner-save-${new Date().toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Validate a save file and bring it up to the current version. Throws on bad files.
+export async function parseSaveFile(json: string): Promise<SaveProfile> {
+  const { format, checksum, profile } = asRecord(parseJson(json));
+  if (format !== SAVE_FILE_FORMAT || !profile) {
+    throw new Error('Not a Neon Runner save file');
+  }
+  if (typeof checksum !== 'string' || checksum !== await checksumOf(profile)) {
+    throw new Error('Save file is damaged or was modified (checksum mismatch)');
+  }
+  if (!isVersionedSave(profile) || profile.version > SAVE_PROFILE_VERSION) {
+    throw new Error('Save file is from a newer version of the game');
+  }
+  return sanitizeProfile(migrate(profile));
+}
+
+const scoreKey = (entry: LeaderboardEntry) => `${entry.name}|${entry.score}|${entry.date}`;
+
+function bestReplayOf(a: string | null, b: string | null): string | null {
+  if (!a || !b) return a ?? b;
+  return parseReplay(b).score > parseReplay(a).score ? b : a;
+}
+
+// Combine two profiles keeping the best of each: higher totals, every distinct
+// local score, the faster drift record and better medal per track, and every
+// custom track. Car setups and a championship on this device win over imported ones.
+function mergeProfiles(current: SaveProfile, imported: SaveProfile): SaveProfile {
+  const scores = new Map<string, LeaderboardEntry>();
+  [...current.racing.scores, ...imported.racing.scores].forEach(entry => scores.set(scoreKey(entry), entry));
+
+  const tracks = { ...current.drift.tracks };
+  Object.entries(imported.drift.tracks).forEach(([trackId, record]) => {
+    if (!tracks[trackId] || record.bestTime < tracks[trackId].bestTime) tracks[trackId] = record;
+  });
+  const medals = { ...current.drift.medals };
+  Object.entries(imported.drift.medals).forEach(([trackId, medal]) => {
+    if (isBetterMedal(medal, medals[trackId] ?? null)) medals[trackId] = medal;
+  });
+  const currentTrackIds = new Set(current.drift.customTracks.map(track => track.id));
+  const customTracks = [
+    ...current.drift.customTracks,
+    ...imported.drift.customTracks.filter(track => !currentTrackIds.has(track.id))
+  ];
+
+  return {
+    version: SAVE_PROFILE_VERSION,
+    lifetimePoints: Math.max(current.lifetimePoints, imported.lifetimePoints),
+    racing: {
+      scores: [...scores.values()],
+      bestReplay: bestReplayOf(current.racing.bestReplay, imported.racing.bestReplay)
+    },
+    elimination: {
+      wins: Math.max(current.elimination.wins, imported.elimination.wins)
+    },
+    drift: {
+      tracks,
+      customTracks,
+      medals,
+      setups: { ...imported.drift.setups, ...current.drift.setups },
+      championship: current.drift.championship ?? imported.drift.championship
+    }
+  };
+}
+
+export function importSaveProfile(imported: SaveProfile, mode: ImportMode): SaveProfile {
+  return updateSaveProfile(current => mode === 'overwrite' ? imported : mergeProfiles(current, imported));
+}
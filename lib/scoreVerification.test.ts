@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { verifyDriftSubmission } from './scoreVerification';
+import { GhostFrame, Track, getTrackById } from './tracks';
+import { getStartPose, getTrackGeometry } from './trackGeometry';
+import { LapTime, LapTimer } from './lapTimer';
+import { DriftAIDriver, DriftAISkill } from './driftAI';
+import { createDriftCar, stepDriftCar } from './driftCar';
+import { applyHazards, checkShortcuts } from './driftHazards';
+import { encodeGhost } from './ghost';
+
+// A real run: a CPU driver round the track, timed and recorded the way DriftAttackGame does it
+function driveRace(track: Track, skill: DriftAISkill) {
+  const geometry = getTrackGeometry(track);
+  const car = createDriftCar(getStartPose(geometry));
+  const driver = new DriftAIDriver(track, geometry, skill, 1);
+  const timer = new LapTimer(track, geometry);
+  const ghost: GhostFrame[] = [];
+  let finish: { totalTime: number; laps: LapTime[] } | null = null;
+  for (let step = 1; step <= 120 * 60 && !finish; step++) {
+    const from = { x: car.x, y: car.y, time: (step - 1) / 60 };
+    stepDriftCar(car, driver.getInput(car, timer.gates[timer.nextGate]), geometry);
+    applyHazards(car, track.hazards);
+    checkShortcuts(car, track.shortcuts);
+    ghost.push({ x: car.x, y: car.y, angle: car.angle, timestamp: step / 60 });
+    timer.update(from, { x: car.x, y: car.y, time: step / 60 }).forEach(event => {
+      if (event.type === 'finish') finish = event;
+    });
+  }
+  if (!finish) throw new Error(`CPU driver did not finish ${track.id}`);
+  const { totalTime, laps } = finish;
+  return {
+    track_id: track.id,
+    total_time: totalTime,
+    lap_times: laps,
+    perfect_laps: laps.filter(lap => lap.isPerfect).length,
+    ghost_data: encodeGhost(ghost)
+  };
+}
+
+describe('verifyDriftSubmission', () => {
+  const track = getTrackById('neon-streets')!;
+  // Rookies wander off the racing line, so their laps aren't perfect
+  const genuine = driveRace(track, 'rookie');
+
+  it('accepts a run whose ghost goes round the track in the claimed times', () => {
+    expect(verifyDriftSubmission(genuine)).toEqual({ ok: true });
+    expect(verifyDriftSubmission(driveRace(track, 'ace'))).toEqual({ ok: true });
+  });
+
+  it('rejects a stationary ghost with made-up laps', () => {
+    const result = verifyDriftSubmission({
+      track_id: track.id,
+      total_time: 1,
+      lap_times: [1, 2, 3].map(lap => ({ lap, time: 1 / 3, sectors: [], isPerfect: true })),
+      perfect_laps: 3,
+      ghost_data: encodeGhost([
+        { x: 300, y: 300, angle: 0, timestamp: 0 },
+        { x: 300, y: 300, angle: 0, timestamp: 1 }
+      ])
+    });
+    expect(result).toEqual({ ok: false, reason: 'Ghost does not complete the race' });
+  });
+
+  it('rejects a real ghost submitted with faster times', () => {
+    const lap_times = genuine.lap_times.map(lap => ({ ...lap, time: lap.time - 0.05 }));
+    const total_time = lap_times.reduce((sum, lap) => sum + lap.time, 0);
+    expect(verifyDriftSubmission({ ...genuine, lap_times, total_time }))
+      .toEqual({ ok: false, reason: 'Time does not match ghost' });
+  });
+
+  it('rejects lap times that do not add up to the total', () => {
+    const lap_times = genuine.lap_times.map((lap, index) => index === 0 ? { ...lap, time: lap.time + 0.05 } : lap);
+    expect(verifyDriftSubmission({ ...genuine, lap_times }))
+      .toEqual({ ok: false, reason: 'Lap times do not add up to the total' });
+  });
+
+  it('takes perfect laps from the ghost, not the claim', () => {
+    expect(genuine.perfect_laps).toBe(0);
+    const lap_times = genuine.lap_times.map(lap => ({ ...lap, isPerfect: true }));
+    expect(verifyDriftSubmission({ ...genuine, lap_times, perfect_laps: lap_times.length }))
+      .toEqual({ ok: false, reason: 'Lap times do not match ghost' });
+  });
+});
@@ -0,0 +1,211 @@
+import { THEMES } from '../constants';
+import { RacingSimulation } from './racingSimulation';
+import { parseReplay, indexInputsByFrame } from './replay';
+import { getDailyChallenge } from './dailyChallenge';
+import { resolveTrack } from './trackGenerator';
+import { StoredGhost, decodeGhost } from './ghost';
+import { GhostFrame, Track } from './tracks';
+import { getTrackGeometry } from './trackGeometry';
+import { LapTimer, LapTimerEvent } from './lapTimer';
+import { CAR_CLASSES, CarClass, CarSetup, getCarSpec, readCarSetup } from './driftCar';
+
+// Server-side checks for leaderboard submissions. Racing scores are re-simulated
+// from their replay; modes without a replay get plausibility checks instead.
+// Pure functions so they run the same in the browser, Node or an edge function.
+
+export interface VerificationResult {
+  ok: boolean;
+  reason?: string; // Set when rejected
+}
+
+const ok: VerificationResult = { ok: true };
+const reject = (reason: string): VerificationResult => ({ ok: false, reason });
+
+// Replays may not claim more than ~2 hours of play (60fps)
+const MAX_REPLAY_FRAMES = 2 * 60 * 60 * 60;
+
+export function verifyRacingSubmission(entry: { score: number; replay?: string }): VerificationResult {
+  if (!Number.isInteger(entry.score) || entry.score < 0) return reject('Invalid score');
+  if (!entry.replay) return reject('Missing replay');
+
+  let replay;
+  try {
+    replay = parseReplay(entry.replay);
+  } catch (error: unknown) {
+    return reject(error instanceof Error ? error.message : 'Invalid replay');
+  }
+
+  if (replay.score !== entry.score) return reject('Score does not match replay');
+  if (replay.frames > MAX_REPLAY_FRAMES) return reject('Replay is too long');
+
+  const sim = new RacingSimulation({
+    theme: THEMES[replay.themeId],
+    characterId: replay.characterId,
+    seed: replay.seed
+  });
+  const inputs = indexInputsByFrame(replay.inputs);
+  while (!sim.getState().gameOver && sim.getState().frame < replay.frames) {
+    sim.step(inputs.get(sim.getState().frame + 1) ?? []);
+  }
+
+  const state = sim.getState();
+  if (!state.gameOver || state.frame !== replay.frames) return reject('Replay does not end where claimed');
+  if (state.score !== entry.score) return reject('Re-simulated score does not match');
+  return ok;
+}
+
+export function verifyDailyChallengeSubmission(entry: {
+  score: number;
+  replay?: string;
+  challenge_date: string;
+  seed: number;
+  theme_id: string;
+  character_used: string;
+}, now: Date = new Date()): VerificationResult {
+  // Accept today's and yesterday's challenge so runs finishing around midnight still count
+  const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+  const challenge = [getDailyChallenge(now), getDailyChallenge(yesterday)]
+    .find(c => c.date === entry.challenge_date);
+  if (!challenge) return reject('Challenge date is not open');
+
+  if (
+    entry.seed !== challenge.seed ||
+    entry.theme_id !== challenge.themeId ||
+    entry.character_used !== challenge.characterId
+  ) {
+    return reject('Run does not match the daily challenge');
+  }
+
+  const result = verifyRacingSubmission(entry);
+  if (!result.ok) return result;
+
+  const replay = parseReplay(entry.replay!);
+  if (replay.seed !== challenge.seed || replay.themeId !== challenge.themeId || replay.characterId !== challenge.characterId) {
+    return reject('Replay was not recorded on the daily challenge');
+  }
+  return ok;
+}
+
+// Mirrors calculateScore in AIEliminationGame:
+// (fighters - placement + 1) * 100 + floor(seconds * 10) + 500 for a win
+const ELIMINATION_FIGHTER_COUNTS = [8, 12, 16, 22];
+const MAX_ELIMINATION_SECONDS = 30 * 60;
+
+export function verifyEliminationSubmission(entry: {
+  score: number;
+  placement: number;
+  total_fighters: number;
+}): VerificationResult {
+  const { score, placement, total_fighters } = entry;
+  if (!ELIMINATION_FIGHTER_COUNTS.includes(total_fighters)) return reject('Invalid fighter count');
+  if (!Number.isInteger(placement) || placement < 1 || placement > total_fighters) return reject('Invalid placement');
+  if (!Number.isInteger(score)) return reject('Invalid score');
+
+  const placementPoints = (total_fighters - placement + 1) * 100;
+  const winBonus = placement === 1 ? 500 : 0;
+  const survivalPoints = score - placementPoints - winBonus;
+  if (survivalPoints < 0 || survivalPoints > MAX_ELIMINATION_SECONDS * 10) {
+    return reject('Score is not possible for this placement');
+  }
+  return ok;
+}
+
+// Slack on the fastest a drift car can cover ground, for frame timing jitter
+const DRIFT_SPEED_SLACK = 1.25;
+// Ghosts are stored at 20 Hz and quantized, so timing replayed from one only
+// matches the live lap timer to within these
+const GHOST_TIME_TOLERANCE = 0.1; // Seconds, per lap and for the race
+const GHOST_OFFSET_TOLERANCE = 3; // Px across a gate, for perfect crossings
+
+interface ReplayedLap {
+  time: number;
+  isPerfect: boolean; // Every gate crossed inside its perfect window, give or take the tolerance
+  couldBePerfect: boolean;
+}
+
+// Drive the ghost through the track's timing gates, as the game's lap timer did
+function replayGhostLaps(track: Track, ghost: GhostFrame[]): { totalTime: number; laps: ReplayedLap[] } | null {
+  const timer = new LapTimer(track, getTrackGeometry(track));
+  const events: LapTimerEvent[] = [];
+  for (let i = 1; i < ghost.length && !timer.finished; i++) {
+    const from = { x: ghost[i - 1].x, y: ghost[i - 1].y, time: ghost[i - 1].timestamp };
+    events.push(...timer.update(from, { x: ghost[i].x, y: ghost[i].y, time: ghost[i].timestamp }));
+  }
+  const finish = events.find(event => event.type === 'finish');
+  if (!finish) return null;
+
+  const laps: ReplayedLap[] = [];
+  let isPerfect = true;
+  let couldBePerfect = true;
+  events.forEach(event => {
+    if (event.type === 'sector' && !timer.gates[event.gate].isFinish) {
+      const window = timer.gates[event.gate].perfectWindow / 2;
+      if (event.offset > window - GHOST_OFFSET_TOLERANCE) isPerfect = false;
+      if (event.offset > window + GHOST_OFFSET_TOLERANCE) couldBePerfect = false;
+    }
+    if (event.type === 'lap') {
+      laps.push({ time: event.lap.time, isPerfect, couldBePerfect });
+      isPerfect = true;
+      couldBePerfect = true;
+    }
+  });
+  return { totalTime: finish.totalTime, laps };
+}
+
+export function verifyDriftSubmission(entry: {
+  track_id: string;
+  total_time: number;
+  lap_times: unknown[];
+  perfect_laps: number;
+  ghost_data: StoredGhost;
+  car_class?: string;
+  car_setup?: CarSetup;
+}): VerificationResult {
+  const track = resolveTrack(entry.track_id);
+  if (!track) return reject('Unknown track');
+  if (!(entry.total_time > 0)) return reject('Invalid time');
+  if (!Array.isArray(entry.lap_times) || entry.lap_times.length !== track.laps) return reject('Wrong number of laps');
+  const claimedLaps = entry.lap_times.map(lap => lap && typeof lap === 'object' ? lap as Record<string, unknown> : {});
+  if (!claimedLaps.every(lap => typeof lap.time === 'number' && lap.time > 0)) return reject('Invalid lap time');
+
+  const perfectLaps = claimedLaps.filter(lap => lap.isPerfect === true).length;
+  if (entry.perfect_laps !== perfectLaps) return reject('Perfect lap count does not match lap times');
+
+  // Times from before car classes were recorded ran the stock grip car
+  if (entry.car_class !== undefined && !CAR_CLASSES.includes(entry.car_class as CarClass)) return reject('Unknown car class');
+  const setup = readCarSetup(entry.car_setup ?? { carClass: entry.car_class });
+  if (entry.car_class !== undefined && setup.carClass !== entry.car_class) return reject('Car setup does not match class');
+  // Top speed on boost, per 60fps frame in lib/driftCar
+  const spec = getCarSpec(setup);
+  const maxSpeedPxPerSecond = spec.maxSpeed * spec.boostSpeedMultiplier * 60 * DRIFT_SPEED_SLACK;
+
+  const ghost = decodeGhost(entry.ghost_data);
+  if (ghost.length < 2) return reject('Missing ghost data');
+
+  // The ghost is the replay: it has to last as long as the race and never teleport
+  const duration = ghost[ghost.length - 1].timestamp;
+  if (Math.abs(duration - entry.total_time) > 0.5) return reject('Ghost length does not match time');
+
+  for (let i = 1; i < ghost.length; i++) {
+    const dt = ghost[i].timestamp - ghost[i - 1].timestamp;
+    if (dt < 0) return reject('Ghost frames out of order');
+    const distance = Math.hypot(ghost[i].x - ghost[i - 1].x, ghost[i].y - ghost[i - 1].y);
+    if (distance > maxSpeedPxPerSecond * Math.max(dt, 1 / 60)) {
+      return reject('Ghost moves faster than the car allows');
+    }
+  }
+
+  // ...and it has to go round: every gate in order, every lap, in the times claimed
+  const replayed = replayGhostLaps(track, ghost);
+  if (!replayed) return reject('Ghost does not complete the race');
+  if (Math.abs(replayed.totalTime - entry.total_time) > GHOST_TIME_TOLERANCE) return reject('Time does not match ghost');
+  const lapTimes = claimedLaps.map(lap => lap.time as number);
+  if (Math.abs(lapTimes.reduce((sum, time) => sum + time, 0) - entry.total_time) > 0.01) {
+    return reject('Lap times do not add up to the total');
+  }
+  const lapsMatch = replayed.laps.every((lap, index) =>
+    Math.abs(lap.time - lapTimes[index]) <= GHOST_TIME_TOLERANCE &&
+    (claimedLaps[index].isPerfect === true ? lap.couldBePerfect : !lap.isPerfect));
+  if (!lapsMatch) return reject('Lap times do not match ghost');
+  return ok;
+}
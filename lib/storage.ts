@@ -0,0 +1,120 @@
+import { StoredGhost } from './ghost';
+import { CarClass, CarSetup } from './driftCar';
+
+// Storage interfaces the game talks to. Supabase is the online backend; the
+// local backends keep everything on-device for offline play, events and tests.
+// The active backend is picked in lib/stores.ts.
+
+// --- Entries ---
+// Every submission can carry a client-generated id so retries are deduplicated
+interface Submission {
+  client_submission_id?: string;
+}
+
+export interface RacingScoreEntry extends Submission {
+  name: string;
+  score: number;
+  rank_title?: string;
+  ai_comment?: string;
+  replay: string; // Serialized RacingReplay, re-simulated by the verifier
+}
+
+export interface DailyChallengeScoreEntry extends RacingScoreEntry {
+  challenge_date: string;
+  seed: number;
+  theme_id: string;
+  character_used: string;
+}
+
+export interface EliminationScoreEntry extends Submission {
+  name: string;
+  score: number;
+  placement: number;
+  total_fighters: number;
+  fighter_used: string;
+}
+
+export interface DriftTimeEntry extends Submission {
+  name: string;
+  character_used?: string;
+  track_id: string;
+  total_time: number;
+  lap_times: unknown[]; // LapTime objects (lib/lapTimer); old rows vary, so readers check each one
+  perfect_laps: number;
+  ghost_data: StoredGhost; // Compact string; older rows hold a frame array
+  car_class?: CarClass; // Missing on rows from before car classes (the grip car)
+  car_setup?: CarSetup;
+}
+
+export interface FlappyBirdScoreEntry extends Submission {
+  name: string;
+  score: number;
+  character_used?: string;
+}
+
+export interface CommunityAvatarRecord {
+  id: number;
+  name: string;
+  avatar_url: string;
+  storage_path?: string;
+  color: string;
+  accent_color: string;
+  created_at: string;
+}
+
+// Row as read back from a store
+export type StoredRow<T> = T & { id: number; created_at: string };
+
+export interface GhostRecord {
+  ghost_data: StoredGhost;
+  total_time: number;
+  name: string;
+}
+
+// --- Stores ---
+export interface LeaderboardStore {
+  fetchRacingLeaderboard(): Promise<StoredRow<RacingScoreEntry>[]>;
+  saveRacingScore(entry: RacingScoreEntry): Promise<unknown>;
+  fetchDailyChallengeLeaderboard(challengeDate: string): Promise<StoredRow<DailyChallengeScoreEntry>[]>;
+  saveDailyChallengeScore(entry: DailyChallengeScoreEntry): Promise<unknown>;
+  fetchEliminationLeaderboard(): Promise<StoredRow<EliminationScoreEntry>[]>;
+  saveEliminationScore(entry: EliminationScoreEntry): Promise<unknown>;
+  fetchDriftLeaderboard(trackId: string, carClass?: CarClass): Promise<StoredRow<DriftTimeEntry>[]>; // All classes when carClass is left out
+  saveDriftTime(entry: DriftTimeEntry): Promise<unknown>;
+  fetchGlobalBestGhost(trackId: string): Promise<GhostRecord | null>;
+  fetchFlappyBirdLeaderboard(): Promise<StoredRow<FlappyBirdScoreEntry>[]>;
+  saveFlappyBirdScore(entry: FlappyBirdScoreEntry): Promise<unknown>;
+}
+
+export interface AvatarStore {
+  fetchCommunityAvatars(): Promise<CommunityAvatarRecord[]>;
+  uploadCommunityAvatar(file: File, name: string, color: string, accentColor: string): Promise<CommunityAvatarRecord>;
+}
+
+export interface StoreSet {
+  leaderboardStore: LeaderboardStore;
+  avatarStore: AvatarStore;
+}
+
+// Thrown when a backend refuses an entry outright (e.g. failed verification)
+export class SubmissionRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubmissionRejectedError';
+  }
+}
+
+// Shared by every backend so uploads are held to the same limits
+export function validateAvatarFile(file: File) {
+  // Validate file size (5MB max)
+  const maxSize = 5 * 1024 * 1024;
+  if (file.size > maxSize) {
+    throw new Error('File size must be less than 5MB');
+  }
+
+  // Validate file type
+  const validTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
+  if (!validTypes.includes(file.type)) {
+    throw new Error('File must be JPG, PNG, or WebP');
+  }
+}
@@ -0,0 +1,30 @@
+import { StoreSet } from './storage';
+import { supabaseLeaderboardStore, supabaseAvatarStore } from './supabase';
+import { createIndexedDbStores, createMemoryStores } from './localStore';
+
+// STORAGE_BACKEND in .env.local: 'supabase' (default), 'indexeddb' or 'memory'
+export type StorageBackend = 'supabase' | 'indexeddb' | 'memory';
+
+function resolveBackend(): StorageBackend {
+  const configured = process.env.STORAGE_BACKEND;
+  if (configured === 'indexeddb' || configured === 'memory') return configured;
+  if (configured && configured !== 'supabase') {
+    console.warn(`Unknown STORAGE_BACKEND "${configured}", using supabase`);
+  }
+  return 'supabase';
+}
+
+export const storageBackend = resolveBackend();
+
+function createStores(backend: StorageBackend): StoreSet {
+  switch (backend) {
+    case 'indexeddb':
+      return createIndexedDbStores();
+    case 'memory':
+      return createMemoryStores();
+    default:
+      return { leaderboardStore: supabaseLeaderboardStore, avatarStore: supabaseAvatarStore };
+  }
+}
+
+export const { leaderboardStore, avatarStore } = createStores(storageBackend);
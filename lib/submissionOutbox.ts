@@ -0,0 +1,173 @@
+import {
+  RacingScoreEntry,
+  DailyChallengeScoreEntry,
+  EliminationScoreEntry,
+  DriftTimeEntry,
+  FlappyBirdScoreEntry,
+  SubmissionRejectedError
+} from './storage';
+import { leaderboardStore } from './stores';
+
+// Persistent outbox for leaderboard submissions. A submission that fails to
+// send is kept in localStorage and retried with backoff; every entry carries a
+// client_submission_id so a retry that already landed is ignored by the store.
+
+export interface SubmissionEntries {
+  racing: RacingScoreEntry;
+  daily: DailyChallengeScoreEntry;
+  elimination: EliminationScoreEntry;
+  drift: DriftTimeEntry;
+  flappy: FlappyBirdScoreEntry;
+}
+
+export type SubmissionKind = keyof SubmissionEntries;
+
+// 'queued' means it will be retried; 'rejected' means the server refused it
+export type SubmissionStatus = 'sent' | 'queued' | 'rejected';
+
+interface QueuedSubmission<K extends SubmissionKind = SubmissionKind> {
+  id: string;
+  kind: K;
+  entry: SubmissionEntries[K];
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+const OUTBOX_KEY = 'neon_runner_outbox';
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+const MAX_ATTEMPTS = 20;
+
+const SENDERS: { [K in SubmissionKind]: (entry: SubmissionEntries[K]) => Promise<unknown> } = {
+  racing: entry => leaderboardStore.saveRacingScore(entry),
+  daily: entry => leaderboardStore.saveDailyChallengeScore(entry),
+  elimination: entry => leaderboardStore.saveEliminationScore(entry),
+  drift: entry => leaderboardStore.saveDriftTime(entry),
+  flappy: entry => leaderboardStore.saveFlappyBirdScore(entry)
+};
+
+// --- Persistence ---
+function loadOutbox(): QueuedSubmission[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(OUTBOX_KEY) || '[]');
+    return Array.isArray(saved) ? saved.filter(item => item && item.id && SENDERS[item.kind as SubmissionKind]) : [];
+  } catch (error) {
+    console.error('Discarding unreadable submission outbox:', error);
+    return [];
+  }
+}
+
+function saveOutbox(queue: QueuedSubmission[]) {
+  localStorage.setItem(OUTBOX_KEY, JSON.stringify(queue));
+}
+
+function enqueue(item: QueuedSubmission) {
+  const queue = loadOutbox();
+  if (queue.some(queued => queued.id === item.id)) return;
+  saveOutbox([...queue, item]);
+}
+
+function retryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+export function createSubmissionId(): string {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function getPendingSubmissionCount(): number {
+  return loadOutbox().length;
+}
+
+// --- Sending ---
+function send<K extends SubmissionKind>(kind: K, entry: SubmissionEntries[K]): Promise<unknown> {
+  return (SENDERS[kind] as (entry: SubmissionEntries[K]) => Promise<unknown>)(entry);
+}
+
+// Submit now; if that fails, park the entry in the outbox for a later retry
+export async function submitScore<K extends SubmissionKind>(kind: K, entry: SubmissionEntries[K]): Promise<SubmissionStatus> {
+  const id = entry.client_submission_id || createSubmissionId();
+  const withId = { ...entry, client_submission_id: id };
+
+  try {
+    await send(kind, withId);
+    return 'sent';
+  } catch (error) {
+    if (error instanceof SubmissionRejectedError) {
+      console.error(`Leaderboard rejected ${kind} submission:`, error.message);
+      return 'rejected';
+    }
+    console.warn(`Queueing ${kind} submission for retry:`, error);
+    enqueue({ id, kind, entry: withId, attempts: 1, nextAttemptAt: Date.now() + retryDelay(1) });
+    scheduleFlush();
+    return 'queued';
+  }
+}
+
+let flushing = false;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+function scheduleFlush() {
+  const queue = loadOutbox();
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = null;
+  if (queue.length === 0) return;
+
+  const nextAttemptAt = Math.min(...queue.map(item => item.nextAttemptAt));
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    flushOutbox();
+  }, Math.max(0, nextAttemptAt - Date.now()));
+}
+
+// Retry every queued submission that is due. Safe to call at any time.
+export async function flushOutbox(force = false) {
+  if (flushing) return;
+  // Don't burn attempts while the browser knows it is offline; 'online' triggers a flush
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+
+  flushing = true;
+  try {
+    const now = Date.now();
+    for (const item of loadOutbox()) {
+      if (!force && item.nextAttemptAt > now) continue;
+
+      let keep: QueuedSubmission | null = null;
+      try {
+        await send(item.kind, item.entry);
+      } catch (error) {
+        if (error instanceof SubmissionRejectedError) {
+          console.error(`Leaderboard rejected queued ${item.kind} submission:`, error.message);
+        } else if (item.attempts + 1 >= MAX_ATTEMPTS) {
+          console.error(`Giving up on ${item.kind} submission after ${MAX_ATTEMPTS} attempts:`, error);
+        } else {
+          const attempts = item.attempts + 1;
+          keep = { ...item, attempts, nextAttemptAt: Date.now() + retryDelay(attempts) };
+        }
+      }
+
+      // Re-read so submissions queued while this one was in flight are kept
+      const queue = loadOutbox().filter(queued => queued.id !== item.id);
+      saveOutbox(keep ? [...queue, keep] : queue);
+    }
+  } finally {
+    flushing = false;
+    scheduleFlush();
+  }
+}
+
+// Start retrying: once now, and whenever connectivity returns. Returns a cleanup.
+export function startOutbox(): () => void {
+  const handleOnline = () => flushOutbox(true);
+  window.addEventListener('online', handleOnline);
+  flushOutbox();
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    if (flushTimer) clearTimeout(flushTimer);
+    flushTimer = null;
+  };
+}
@@ -0,0 +1,392 @@
+import { Track, Checkpoint, Hazard, Shortcut, TRACKS, getTrackById, parseGeneratedTrackId } from './tracks';
+import { buildTrackGeometry, getStartPose, getWallOffset, locateOnTrack, TrackGeometry } from './trackGeometry';
+import { buildTimingGates } from './lapTimer';
+import { CAR_HEIGHT, CAR_WIDTH } from './driftCar';
+
+// Validation and file handling for player-made Drift Attack circuits. Track
+// files wrap a Track with a format tag and version so older files can be
+// upgraded and files from newer builds are refused instead of misread.
+
+export const TRACK_FILE_VERSION = 1;
+const TRACK_FILE_FORMAT = 'neon-runner-track';
+
+interface TrackFile {
+  format: string;
+  version: number;
+  track: Track;
+}
+
+// Limits the editor and validation agree on
+export const TRACK_LIMITS = {
+  minPoints: 3,
+  minCheckpoints: 2,
+  maxLaps: 10,
+  roadWidth: { min: 60, max: 240 },
+  runoffWidth: { min: 0, max: 100 },
+  size: { min: 600, max: 2400 }
+};
+
+// Timing gates closer than this to each other (or the start line) are refused
+const MIN_GATE_SPACING = 60;
+
+export const HAZARD_SIZES: Record<Hazard['type'], { width: number; height: number }> = {
+  cone: { width: 40, height: 40 },
+  oil: { width: 60, height: 20 },
+  barrier: { width: 80, height: 30 }
+};
+
+// Room beside oil and barriers for a car to get past: its width plus a margin either side
+export const MIN_HAZARD_GAP = CAR_WIDTH + 30;
+
+// Player-made: neither built in nor generated from a seed
+export function isCustomTrack(track: Track): boolean {
+  return !getTrackById(track.id) && !parseGeneratedTrackId(track.id);
+}
+
+export function createTrackId(): string {
+  return `custom-${Date.now().toString(36)}`;
+}
+
+export function createBlankTrack(): Track {
+  const palette = TRACKS[0];
+  return {
+    id: createTrackId(),
+    name: 'NEW CIRCUIT',
+    description: 'A custom circuit',
+    difficulty: 'beginner',
+    theme: palette.theme,
+    worldRecord: 60,
+    unlockScore: 0,
+    unlockMedals: 0,
+    width: 1200,
+    height: 800,
+    laps: 3,
+    racingLine: [],
+    roadWidth: 120,
+    runoffWidth: 30,
+    checkpoints: [],
+    hazards: [],
+    shortcuts: [],
+    colors: { ...palette.colors }
+  };
+}
+
+// --- Editing helpers ---
+export function isLoopClosed(points: { x: number; y: number }[]): boolean {
+  if (points.length < 2) return false;
+  const first = points[0];
+  const last = points[points.length - 1];
+  return first.x === last.x && first.y === last.y;
+}
+
+// Geometry for a track that may still be half-built
+export function tryBuildGeometry(track: Pick<Track, 'racingLine' | 'roadWidth' | 'runoffWidth'>): TrackGeometry | null {
+  try {
+    return buildTrackGeometry(track);
+  } catch {
+    return null;
+  }
+}
+
+// A checkpoint across the road at the centerline point nearest (x, y), facing the way round
+export function checkpointAt(geometry: TrackGeometry, x: number, y: number, perfectWindow = 20): Checkpoint {
+  const position = locateOnTrack(geometry, x, y);
+  // The normal points right of travel, so travel is the normal turned back left
+  const dirX = position.normalY;
+  const dirY = -position.normalX;
+  return {
+    x: Math.round(position.x),
+    y: Math.round(position.y),
+    angle: Math.round(Math.atan2(-dirY, dirX) * 180 / Math.PI),
+    width: geometry.roadWidth,
+    perfectWindow
+  };
+}
+
+// Checkpoints in the order they are met on a lap
+export function sortCheckpoints(geometry: TrackGeometry, checkpoints: Checkpoint[]): Checkpoint[] {
+  return [...checkpoints]
+    .map(checkpoint => ({ checkpoint, distance: locateOnTrack(geometry, checkpoint.x, checkpoint.y).distance }))
+    .sort((a, b) => a.distance - b.distance)
+    .map(({ checkpoint }) => checkpoint);
+}
+
+// --- Validation ---
+const rectsOverlap = (a: { x: number; y: number; width: number; height: number }, x: number, y: number, radius: number) =>
+  x + radius > a.x && x - radius < a.x + a.width && y + radius > a.y && y - radius < a.y + a.height;
+
+const insideArea = (track: Track, x: number, y: number) => x >= 0 && y >= 0 && x <= track.width && y <= track.height;
+
+const hazardsOverlap = (a: Hazard, b: Hazard) =>
+  a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+
+// Where a hazard sits on the road: its place along the lap and the offsets it covers across it
+function getHazardSpan(geometry: TrackGeometry, hazard: Hazard) {
+  const position = locateOnTrack(geometry, hazard.x + hazard.width / 2, hazard.y + hazard.height / 2);
+  const offsets = [[0, 0], [1, 0], [0, 1], [1, 1]].map(([cornerX, cornerY]) =>
+    (hazard.x + hazard.width * cornerX - position.x) * position.normalX +
+    (hazard.y + hazard.height * cornerY - position.y) * position.normalY);
+  return {
+    distance: position.distance,
+    halfLength: Math.max(hazard.width, hazard.height) / 2,
+    from: Math.min(...offsets),
+    to: Math.max(...offsets)
+  };
+}
+
+// Problems with where oil and barriers sit: on top of each other, or leaving
+// no way past. Cones just get knocked aside, so they only count for overlaps.
+export function findHazardProblems(geometry: TrackGeometry, hazards: Hazard[]): string[] {
+  const problems: string[] = [];
+  hazards.forEach((hazard, index) => {
+    const other = hazards.findIndex((candidate, otherIndex) => otherIndex > index && hazardsOverlap(hazard, candidate));
+    if (other >= 0) problems.push(`Hazards ${index + 1} and ${other + 1} overlap`);
+  });
+
+  // Everything level with a hazard narrows the road together, so look for a
+  // gap between all of them, counting the run-off as drivable
+  const wall = getWallOffset(geometry);
+  const spans = hazards.map(hazard => hazard.type === 'cone' ? null : getHazardSpan(geometry, hazard));
+  spans.forEach((span, index) => {
+    if (!span) return;
+    const level = spans
+      .filter((other): other is NonNullable<typeof other> => {
+        if (!other) return false;
+        const apart = Math.abs(other.distance - span.distance);
+        return Math.min(apart, geometry.length - apart) < span.halfLength + other.halfLength + CAR_HEIGHT;
+      })
+      .sort((a, b) => a.from - b.from);
+    let edge = -wall;
+    let widestGap = 0;
+    level.forEach(other => {
+      widestGap = Math.max(widestGap, other.from - edge);
+      edge = Math.max(edge, other.to);
+    });
+    widestGap = Math.max(widestGap, wall - edge);
+    if (widestGap < MIN_HAZARD_GAP) problems.push(`Hazard ${index + 1} leaves no room to drive past`);
+  });
+  return problems;
+}
+
+// Everything that would stop the track from racing properly. Empty means valid.
+export function validateTrack(track: Track): string[] {
+  const problems: string[] = [];
+
+  if (!track.name.trim()) problems.push('The track needs a name');
+  if (!Number.isInteger(track.laps) || track.laps < 1 || track.laps > TRACK_LIMITS.maxLaps) {
+    problems.push(`Laps must be between 1 and ${TRACK_LIMITS.maxLaps}`);
+  }
+  if (track.roadWidth < TRACK_LIMITS.roadWidth.min || track.roadWidth > TRACK_LIMITS.roadWidth.max) {
+    problems.push(`Road width must be between ${TRACK_LIMITS.roadWidth.min} and ${TRACK_LIMITS.roadWidth.max}`);
+  }
+  if (track.runoffWidth < TRACK_LIMITS.runoffWidth.min || track.runoffWidth > TRACK_LIMITS.runoffWidth.max) {
+    problems.push(`Run-off width must be between ${TRACK_LIMITS.runoffWidth.min} and ${TRACK_LIMITS.runoffWidth.max}`);
+  }
+
+  // Racing line: a closed loop inside the area
+  if (!isLoopClosed(track.racingLine)) {
+    problems.push('The racing line must end where it starts (close the loop)');
+  }
+  if (track.racingLine.some(point => !insideArea(track, point.x, point.y))) {
+    problems.push('The racing line leaves the track area');
+  }
+  const geometry = tryBuildGeometry(track);
+  if (!geometry) {
+    problems.push(`The racing line needs at least ${TRACK_LIMITS.minPoints} points`);
+    return problems;
+  }
+
+  // Road crossing itself: two stretches far apart along the lap but close on the map
+  const { samples } = geometry;
+  const wall = getWallOffset(geometry);
+  const overlap = samples.find((a, i) => samples.some((b, j) => {
+    if (j <= i) return false;
+    const along = Math.min(b.distance - a.distance, geometry.length - (b.distance - a.distance));
+    return along > wall * 4 && Math.hypot(a.x - b.x, a.y - b.y) < geometry.roadWidth;
+  }));
+  if (overlap) {
+    problems.push(`The road overlaps itself near (${Math.round(overlap.x)}, ${Math.round(overlap.y)})`);
+  }
+
+  // Start position: clear of hazards
+  const start = getStartPose(geometry);
+  if (track.hazards.some(hazard => rectsOverlap(hazard, start.x, start.y, 30))) {
+    problems.push('A hazard blocks the start line');
+  }
+
+  // Checkpoints: enough of them, on the road, in driving order, facing forwards
+  if (track.checkpoints.length < TRACK_LIMITS.minCheckpoints) {
+    problems.push(`Place at least ${TRACK_LIMITS.minCheckpoints} checkpoints`);
+  }
+  const gates = buildTimingGates(track, geometry);
+  let lastDistance = 0;
+  track.checkpoints.forEach((checkpoint, index) => {
+    const position = locateOnTrack(geometry, checkpoint.x, checkpoint.y);
+    const label = `Checkpoint ${index + 1}`;
+    if (position.surface !== 'road') {
+      problems.push(`${label} is off the road`);
+      return;
+    }
+    const gate = gates[index];
+    const sample = samples.reduce((best, s) =>
+      Math.abs(s.distance - position.distance) < Math.abs(best.distance - position.distance) ? s : best);
+    if (gate.dirX * sample.tangentX + gate.dirY * sample.tangentY <= 0) {
+      problems.push(`${label} faces against the direction of travel`);
+    }
+    if (position.distance < lastDistance + MIN_GATE_SPACING) {
+      problems.push(index === 0 ? `${label} is too close to the start line` : `${label} is out of driving order or too close to the one before`);
+    }
+    lastDistance = Math.max(lastDistance, position.distance);
+  });
+  if (track.checkpoints.length > 0 && geometry.length - lastDistance < MIN_GATE_SPACING) {
+    problems.push('The last checkpoint is too close to the finish line');
+  }
+
+  problems.push(...findHazardProblems(geometry, track.hazards));
+
+  // Props inside the area
+  track.hazards.forEach((hazard, index) => {
+    if (!insideArea(track, hazard.x, hazard.y) || !insideArea(track, hazard.x + hazard.width, hazard.y + hazard.height)) {
+      problems.push(`Hazard ${index + 1} is outside the track area`);
+    }
+  });
+  track.shortcuts.forEach((shortcut, index) => {
+    if (!insideArea(track, shortcut.x, shortcut.y) || !insideArea(track, shortcut.x + shortcut.width, shortcut.y + shortcut.height)) {
+      problems.push(`Shortcut ${index + 1} is outside the track area`);
+    }
+  });
+
+  return problems;
+}
+
+// --- Files ---
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Untrusted data as an object whose fields can be read, or null
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+
+// The named fields, if every one of them is a finite number
+function readNumbers<K extends string>(item: Record<string, unknown>, fields: K[]): Record<K, number> | null {
+  return fields.every(field => isNumber(item[field])) ? item as Record<K, number> : null;
+}
+
+function readList<T>(value: unknown, field: string, read: (item: Record<string, unknown>) => T | null): T[] {
+  if (!Array.isArray(value)) throw new Error(`Track file is missing ${field}`);
+  return value.map((item: unknown, index) => {
+    const record = asRecord(item);
+    const parsed = record && read(record);
+    if (!parsed) throw new Error(`Track file has an invalid entry in ${field} (#${index + 1})`);
+    return parsed;
+  });
+}
+
+const readPoint = (item: Record<string, unknown>) => {
+  const point = readNumbers(item, ['x', 'y']);
+  return point && { x: point.x, y: point.y };
+};
+
+const readCheckpoint = (item: Record<string, unknown>): Checkpoint | null => {
+  const checkpoint = readNumbers(item, ['x', 'y', 'angle', 'width', 'perfectWindow']);
+  return checkpoint && {
+    x: checkpoint.x,
+    y: checkpoint.y,
+    angle: checkpoint.angle,
+    width: checkpoint.width,
+    perfectWindow: checkpoint.perfectWindow
+  };
+};
+
+const readHazard = (item: Record<string, unknown>): Hazard | null => {
+  const hazard = readNumbers(item, ['x', 'y', 'width', 'height']);
+  const type = (Object.keys(HAZARD_SIZES) as Hazard['type'][]).find(candidate => candidate === item.type);
+  return hazard && type ? { x: hazard.x, y: hazard.y, width: hazard.width, height: hazard.height, type } : null;
+};
+
+const readShortcut = (item: Record<string, unknown>): Shortcut | null => {
+  const shortcut = readNumbers(item, ['x', 'y', 'width', 'height', 'timeSave']);
+  const difficulty = (['easy', 'medium', 'hard'] as const).find(candidate => candidate === item.difficulty);
+  return shortcut && difficulty
+    ? { x: shortcut.x, y: shortcut.y, width: shortcut.width, height: shortcut.height, timeSave: shortcut.timeSave, difficulty }
+    : null;
+};
+
+// Structural check of an untrusted track. Throws on anything that isn't a Track.
+export function readTrack(data: unknown): Track {
+  const record = asRecord(data);
+  if (!record) throw new Error('Track file has no track');
+  const { id, name } = record;
+  if (typeof id !== 'string' || !id) throw new Error('Track file is missing an id');
+  if (typeof name !== 'string') throw new Error('Track file is missing a name');
+  const sizeFields = ['width', 'height', 'laps', 'roadWidth', 'runoffWidth'] as const;
+  const missing = sizeFields.find(field => !isNumber(record[field]));
+  if (missing) throw new Error(`Track file is missing ${missing}`);
+  const sizes = record as Record<(typeof sizeFields)[number], number>;
+
+  const palette = TRACKS.find(track => track.theme === record.theme) ?? TRACKS[0];
+  const colors = asRecord(record.colors) ?? {};
+  const stringOr = (value: unknown, fallback: string) => typeof value === 'string' ? value : fallback;
+  return {
+    id,
+    name,
+    description: stringOr(record.description, ''),
+    difficulty: (['beginner', 'intermediate', 'expert'] as const).find(candidate => candidate === record.difficulty) ?? 'beginner',
+    theme: palette.theme,
+    worldRecord: isNumber(record.worldRecord) && record.worldRecord > 0 ? record.worldRecord : 60,
+    // Custom tracks are always open
+    unlockScore: 0,
+    unlockMedals: 0,
+    width: Math.min(TRACK_LIMITS.size.max, Math.max(TRACK_LIMITS.size.min, sizes.width)),
+    height: Math.min(TRACK_LIMITS.size.max, Math.max(TRACK_LIMITS.size.min, sizes.height)),
+    laps: sizes.laps,
+    racingLine: readList(record.racingLine, 'racingLine', readPoint),
+    roadWidth: sizes.roadWidth,
+    runoffWidth: sizes.runoffWidth,
+    checkpoints: readList(record.checkpoints, 'checkpoints', readCheckpoint),
+    hazards: readList(record.hazards ?? [], 'hazards', readHazard),
+    shortcuts: readList(record.shortcuts ?? [], 'shortcuts', readShortcut),
+    colors: {
+      primary: stringOr(colors.primary, palette.colors.primary),
+      accent: stringOr(colors.accent, palette.colors.accent),
+      track: stringOr(colors.track, palette.colors.track),
+      background: stringOr(colors.background, palette.colors.background)
+    }
+  };
+}
+
+export function serializeTrackFile(track: Track): string {
+  const file: TrackFile = { format: TRACK_FILE_FORMAT, version: TRACK_FILE_VERSION, track };
+  return JSON.stringify(file, null, 2);
+}
+
+// Read a track file. Throws with a readable message on bad files.
+export function parseTrackFile(json: string): Track {
+  let file: Record<string, unknown> | null;
+  try {
+    file = asRecord(JSON.parse(json));
+  } catch {
+    throw new Error('Track file is not valid JSON');
+  }
+  if (!file || file.format !== TRACK_FILE_FORMAT) {
+    throw new Error('Not a Neon Runner track file');
+  }
+  if (!isNumber(file.version) || !Number.isInteger(file.version) || file.version > TRACK_FILE_VERSION) {
+    throw new Error('Track file is from a newer version of the game');
+  }
+
+  const track = readTrack(file.track);
+  if (!isCustomTrack(track)) {
+    throw new Error(`Track id "${track.id}" is reserved for a built-in or generated track`);
+  }
+  return track;
+}
+
+export function downloadTrackFile(track: Track) {
+  const blob = new Blob([serializeTrackFile(track)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${track.name.toLowerCase().replace(/[^a-z0-9]+/g, '-') || track.id}.track.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { generateTrack, resolveTrack } from './trackGenerator';
+import { validateTrack } from './trackEditor';
+import { TRACK_DIFFICULTIES, getGeneratedTrackId } from './tracks';
+
+const SEEDS = [1, 2, 3, 5, 7, 42, 2024, 987654321];
+
+describe.each(TRACK_DIFFICULTIES)('generateTrack (%s)', difficulty => {
+  it.each(SEEDS)('builds the same valid track every time from seed %i', seed => {
+    const track = generateTrack(seed, difficulty);
+    expect(generateTrack(seed, difficulty)).toEqual(track);
+    expect(track).toMatchObject({ id: getGeneratedTrackId(seed, difficulty), difficulty });
+    expect(validateTrack(track)).toEqual([]);
+  });
+
+  it('builds different tracks from different seeds', () => {
+    const lines = SEEDS.map(seed => JSON.stringify(generateTrack(seed, difficulty).racingLine));
+    expect(new Set(lines).size).toBe(SEEDS.length);
+  });
+});
+
+describe('resolveTrack', () => {
+  it('rebuilds a generated track from its id, once', () => {
+    const id = getGeneratedTrackId(7, 'expert');
+    const track = resolveTrack(id);
+    expect(track).toEqual(generateTrack(7, 'expert'));
+    expect(resolveTrack(id)).toBe(track);
+  });
+
+  it('finds built-in tracks and nothing for unknown ids', () => {
+    expect(resolveTrack('neon-streets')?.id).toBe('neon-streets');
+    expect(resolveTrack('no-such-track')).toBeUndefined();
+  });
+});
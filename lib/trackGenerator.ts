@@ -0,0 +1,209 @@
+import { Track, TrackDifficulty, Hazard, Shortcut, TRACKS, getTrackById, getGeneratedTrackId, parseGeneratedTrackId } from './tracks';
+import { TrackGeometry } from './trackGeometry';
+import { Rng, createRng, formatSeed } from './rng';
+import { HAZARD_SIZES, checkpointAt, findHazardProblems, tryBuildGeometry, validateTrack } from './trackEditor';
+
+// Procedural Drift Attack circuits. A seed and a difficulty fully describe a
+// track, so the id ("gen-expert-1A2B3C4D") is enough to rebuild it anywhere:
+// players share seeds, and the score verifier regenerates the track it checks.
+
+interface GeneratorSettings {
+  width: number;
+  height: number;
+  points: [number, number]; // Min and max racing line points
+  wobble: number; // How far points may pull in from the outer ellipse, 0-1
+  roadWidth: number;
+  runoffWidth: number;
+  checkpoints: number;
+  perfectWindow: number;
+  hazards: number;
+  shortcuts: number;
+  shortcutTimeSave: number;
+  shortcutDifficulty: Shortcut['difficulty'];
+}
+
+const SETTINGS: Record<TrackDifficulty, GeneratorSettings> = {
+  beginner: {
+    width: 1200, height: 800, points: [6, 8], wobble: 0.25, roadWidth: 130, runoffWidth: 35,
+    checkpoints: 4, perfectWindow: 22, hazards: 2, shortcuts: 1, shortcutTimeSave: 0.5, shortcutDifficulty: 'easy'
+  },
+  intermediate: {
+    width: 1400, height: 900, points: [8, 10], wobble: 0.35, roadWidth: 115, runoffWidth: 30,
+    checkpoints: 6, perfectWindow: 18, hazards: 4, shortcuts: 2, shortcutTimeSave: 0.8, shortcutDifficulty: 'medium'
+  },
+  expert: {
+    width: 1600, height: 1000, points: [10, 13], wobble: 0.45, roadWidth: 100, runoffWidth: 28,
+    checkpoints: 8, perfectWindow: 15, hazards: 6, shortcuts: 3, shortcutTimeSave: 1.1, shortcutDifficulty: 'hard'
+  }
+};
+
+const NAME_FIRST = ['CHROME', 'VELVET', 'STATIC', 'RAZOR', 'LUNAR', 'PHANTOM', 'CRIMSON', 'HOLLOW', 'NEON', 'SOLAR'];
+const NAME_SECOND = ['LOOP', 'BEND', 'RING', 'SPIRAL', 'PASS', 'CIRCUIT', 'HOOK', 'RUN', 'TWIST', 'HAIRPIN'];
+
+// Attempts at a layout before falling back to a plain oval
+const MAX_ATTEMPTS = 25;
+// Track record pace in pixels per second, as the ace CPU driver laps the built-in tracks
+const RECORD_PACE = 640;
+// Px behind the start line kept free of hazards, for the CPU cars' grid
+const GRID_CLEAR = 320;
+// Px past the start line kept free of hazards, while the field is still bunched up
+const START_CLEAR = 400;
+// Px either side of a timing gate kept free of hazards
+const GATE_CLEAR = 120;
+
+// Generated tracks are rebuilt once per id, so callers get a stable object
+const generatedCache = new Map<string, Track>();
+
+// Built-in or generated track for an id
+export function resolveTrack(id: string): Track | undefined {
+  const builtIn = getTrackById(id);
+  if (builtIn) return builtIn;
+  const generated = parseGeneratedTrackId(id);
+  if (!generated) return undefined;
+
+  let track = generatedCache.get(id);
+  if (!track) {
+    track = generateTrack(generated.seed, generated.difficulty);
+    generatedCache.set(id, track);
+  }
+  return track;
+}
+
+// --- Generation ---
+const between = (random: Rng, min: number, max: number) => min + random() * (max - min);
+
+// Points round an ellipse, each pulled in by a random amount
+function generateRacingLine(random: Rng, settings: GeneratorSettings, wobble: number): { x: number; y: number }[] {
+  const count = Math.floor(between(random, settings.points[0], settings.points[1] + 1));
+  const margin = settings.roadWidth / 2 + settings.runoffWidth + 40;
+  const centerX = settings.width / 2;
+  const centerY = settings.height / 2;
+  const radiusX = centerX - margin;
+  const radiusY = centerY - margin;
+  const startAngle = random() * Math.PI * 2;
+
+  const points = Array.from({ length: count }, (_, i) => {
+    const angle = startAngle + (i + between(random, -0.3, 0.3)) / count * Math.PI * 2;
+    const scale = 1 - random() * wobble;
+    return {
+      x: Math.round(centerX + Math.cos(angle) * radiusX * scale),
+      y: Math.round(centerY + Math.sin(angle) * radiusY * scale)
+    };
+  });
+  return [...points, points[0]];
+}
+
+// Centerline sample nearest a distance along the lap
+function sampleAt(geometry: TrackGeometry, distance: number) {
+  const wrapped = ((distance % geometry.length) + geometry.length) % geometry.length;
+  return geometry.samples.reduce((best, sample) =>
+    Math.abs(sample.distance - wrapped) < Math.abs(best.distance - wrapped) ? sample : best);
+}
+
+function generateHazards(random: Rng, geometry: TrackGeometry, settings: GeneratorSettings, keepClear: number[]): Hazard[] {
+  const types = Object.keys(HAZARD_SIZES) as Hazard['type'][];
+  const hazards: Hazard[] = [];
+  for (let tries = 0; hazards.length < settings.hazards && tries < settings.hazards * 20; tries++) {
+    const distance = random() * geometry.length;
+    // Stay off the start, the grid behind it and the timing gates
+    if (keepClear.some(clear => Math.abs(clear - distance) < GATE_CLEAR || geometry.length - Math.abs(clear - distance) < GATE_CLEAR)) continue;
+    if (distance < START_CLEAR || distance > geometry.length - GRID_CLEAR) continue;
+
+    const sample = sampleAt(geometry, distance);
+    const offset = between(random, -0.6, 0.6) * geometry.roadWidth / 2;
+    const type = types[Math.floor(random() * types.length)];
+    const size = HAZARD_SIZES[type];
+    const hazard: Hazard = {
+      x: Math.round(sample.x - sample.tangentY * offset - size.width / 2),
+      y: Math.round(sample.y + sample.tangentX * offset - size.height / 2),
+      ...size,
+      type
+    };
+    // Never on top of another hazard, and always with a way past
+    if (findHazardProblems(geometry, [...hazards, hazard]).length === 0) hazards.push(hazard);
+  }
+  return hazards;
+}
+
+// Shortcuts sit on the inside of the tightest corners, across the chord
+function generateShortcuts(geometry: TrackGeometry, settings: GeneratorSettings): Shortcut[] {
+  const { samples } = geometry;
+  const span = Math.max(2, Math.round(samples.length / 24));
+  const corners = samples
+    .map((_, i) => {
+      const before = samples[(i - span + samples.length) % samples.length];
+      const after = samples[(i + span) % samples.length];
+      const turn = Math.abs(Math.atan2(
+        before.tangentX * after.tangentY - before.tangentY * after.tangentX,
+        before.tangentX * after.tangentX + before.tangentY * after.tangentY
+      ));
+      return { before, after, turn };
+    })
+    .sort((a, b) => b.turn - a.turn);
+
+  const shortcuts: Shortcut[] = [];
+  for (const corner of corners) {
+    if (shortcuts.length >= settings.shortcuts) break;
+    const cx = (corner.before.x + corner.after.x) / 2;
+    const cy = (corner.before.y + corner.after.y) / 2;
+    if (shortcuts.some(s => Math.hypot(s.x + s.width / 2 - cx, s.y + s.height / 2 - cy) < 300)) continue;
+
+    const size = Math.round(geometry.roadWidth * 0.9);
+    shortcuts.push({
+      x: Math.round(cx - size / 2),
+      y: Math.round(cy - size / 2),
+      width: size,
+      height: size,
+      timeSave: settings.shortcutTimeSave,
+      difficulty: settings.shortcutDifficulty
+    });
+  }
+  return shortcuts;
+}
+
+function buildTrack(seed: number, difficulty: TrackDifficulty, random: Rng, wobble: number): Track {
+  const settings = SETTINGS[difficulty];
+  const palette = TRACKS[Math.floor(random() * TRACKS.length)];
+  const racingLine = generateRacingLine(random, settings, wobble);
+  const layout = { racingLine, roadWidth: settings.roadWidth, runoffWidth: settings.runoffWidth };
+  const geometry = tryBuildGeometry(layout)!;
+
+  // Checkpoints evenly spread round the lap, clear of the start line
+  const checkpointDistances = Array.from({ length: settings.checkpoints }, (_, i) =>
+    geometry.length * (i + 1) / (settings.checkpoints + 1));
+  const checkpoints = checkpointDistances.map(distance => {
+    const sample = sampleAt(geometry, distance);
+    return checkpointAt(geometry, sample.x, sample.y, settings.perfectWindow);
+  });
+
+  const laps = 3;
+  return {
+    id: getGeneratedTrackId(seed, difficulty),
+    name: `${NAME_FIRST[Math.floor(random() * NAME_FIRST.length)]} ${NAME_SECOND[Math.floor(random() * NAME_SECOND.length)]}`,
+    description: `Generated ${difficulty} circuit, seed ${formatSeed(seed)}`,
+    difficulty,
+    theme: palette.theme,
+    worldRecord: Math.round(geometry.length * laps / RECORD_PACE * 10) / 10,
+    unlockScore: 0,
+    unlockMedals: 0,
+    width: settings.width,
+    height: settings.height,
+    laps,
+    ...layout,
+    checkpoints,
+    hazards: generateHazards(random, geometry, settings, [0, ...checkpointDistances]),
+    shortcuts: generateShortcuts(geometry, settings),
+    colors: { ...palette.colors }
+  };
+}
+
+// Same seed and difficulty, same track. Always returns a track that passes validateTrack.
+export function generateTrack(seed: number, difficulty: TrackDifficulty): Track {
+  const random = createRng(seed);
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const track = buildTrack(seed, difficulty, random, SETTINGS[difficulty].wobble);
+    if (validateTrack(track).length === 0) return track;
+  }
+  // A plain oval can't overlap itself
+  return buildTrack(seed, difficulty, createRng(seed), 0);
+}
@@ -0,0 +1,165 @@
+import { Track } from './tracks';
+
+// Drivable shape of a Drift Attack circuit. The track's racingLine points are
+// the control points of a closed Catmull-Rom spline; the road follows it with
+// a fixed width, bordered by run-off and then walls.
+
+export type Surface = 'road' | 'runoff' | 'wall';
+
+export interface TrackSample {
+  x: number;
+  y: number;
+  distance: number; // Along the centerline from the start
+  tangentX: number; // Unit direction of travel
+  tangentY: number;
+}
+
+export interface TrackGeometry {
+  samples: TrackSample[]; // Closed loop, the last segment joins back to samples[0]
+  length: number;
+  roadWidth: number;
+  runoffWidth: number;
+}
+
+export interface TrackPosition {
+  x: number; // Nearest point on the centerline
+  y: number;
+  distance: number; // Along the centerline
+  offset: number; // Signed distance from the centerline, positive to the right of travel
+  normalX: number; // Unit vector pointing to the right of travel
+  normalY: number;
+  surface: Surface;
+}
+
+const SAMPLES_PER_SEGMENT = 16;
+
+// Uniform Catmull-Rom between p1 and p2
+function catmullRom(p0: number, p1: number, p2: number, p3: number, t: number): number {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return 0.5 * (
+    2 * p1 +
+    (p2 - p0) * t +
+    (2 * p0 - 5 * p1 + 4 * p2 - p3) * t2 +
+    (3 * p1 - p0 - 3 * p2 + p3) * t3
+  );
+}
+
+export function buildTrackGeometry(track: Pick<Track, 'racingLine' | 'roadWidth' | 'runoffWidth'>): TrackGeometry {
+  // racingLine repeats its first point to close the loop; the spline closes itself
+  const points = [...track.racingLine];
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (points.length > 1 && first.x === last.x && first.y === last.y) points.pop();
+  if (points.length < 3) throw new Error('A track needs at least 3 racing line points');
+
+  const count = points.length;
+  const positions: { x: number; y: number }[] = [];
+  for (let i = 0; i < count; i++) {
+    const p0 = points[(i - 1 + count) % count];
+    const p1 = points[i];
+    const p2 = points[(i + 1) % count];
+    const p3 = points[(i + 2) % count];
+    for (let s = 0; s < SAMPLES_PER_SEGMENT; s++) {
+      const t = s / SAMPLES_PER_SEGMENT;
+      positions.push({ x: catmullRom(p0.x, p1.x, p2.x, p3.x, t), y: catmullRom(p0.y, p1.y, p2.y, p3.y, t) });
+    }
+  }
+
+  let distance = 0;
+  const samples: TrackSample[] = positions.map((point, i) => {
+    const next = positions[(i + 1) % positions.length];
+    const segmentLength = Math.hypot(next.x - point.x, next.y - point.y) || 1;
+    const sample = {
+      x: point.x,
+      y: point.y,
+      distance,
+      tangentX: (next.x - point.x) / segmentLength,
+      tangentY: (next.y - point.y) / segmentLength
+    };
+    distance += segmentLength;
+    return sample;
+  });
+
+  return { samples, length: distance, roadWidth: track.roadWidth, runoffWidth: track.runoffWidth };
+}
+
+// Tracks are static, so build each geometry once
+const geometryCache = new WeakMap<Track, TrackGeometry>();
+
+export function getTrackGeometry(track: Track): TrackGeometry {
+  let geometry = geometryCache.get(track);
+  if (!geometry) {
+    geometry = buildTrackGeometry(track);
+    geometryCache.set(track, geometry);
+  }
+  return geometry;
+}
+
+export function getSurface(geometry: TrackGeometry, offset: number): Surface {
+  const fromCenter = Math.abs(offset);
+  if (fromCenter <= geometry.roadWidth / 2) return 'road';
+  if (fromCenter <= geometry.roadWidth / 2 + geometry.runoffWidth) return 'runoff';
+  return 'wall';
+}
+
+// Distance from the centerline at which the walls stand
+export function getWallOffset(geometry: TrackGeometry): number {
+  return geometry.roadWidth / 2 + geometry.runoffWidth;
+}
+
+// Project a point onto the nearest stretch of centerline
+export function locateOnTrack(geometry: TrackGeometry, x: number, y: number): TrackPosition {
+  const { samples } = geometry;
+  let best: TrackPosition | null = null;
+  let bestDistanceSq = Infinity;
+
+  for (let i = 0; i < samples.length; i++) {
+    const a = samples[i];
+    const b = samples[(i + 1) % samples.length];
+    const segmentLength = (i + 1 < samples.length ? b.distance : geometry.length) - a.distance;
+
+    // Clamp the projection to this segment
+    const along = Math.max(0, Math.min(segmentLength, (x - a.x) * a.tangentX + (y - a.y) * a.tangentY));
+    const px = a.x + a.tangentX * along;
+    const py = a.y + a.tangentY * along;
+    const distanceSq = (x - px) ** 2 + (y - py) ** 2;
+
+    if (distanceSq < bestDistanceSq) {
+      bestDistanceSq = distanceSq;
+      const normalX = -a.tangentY;
+      const normalY = a.tangentX;
+      // Use the full distance, not just its normal component, so points past
+      // the end of a segment on the outside of a corner measure correctly
+      const side = (x - px) * normalX + (y - py) * normalY < 0 ? -1 : 1;
+      const offset = side * Math.sqrt(distanceSq);
+      best = { x: px, y: py, distance: a.distance + along, offset, normalX, normalY, surface: getSurface(geometry, offset) };
+    }
+  }
+
+  return best!;
+}
+
+// Grid position on the start line, facing the direction of travel
+export function getStartPose(geometry: TrackGeometry): { x: number; y: number; angle: number } {
+  const start = geometry.samples[0];
+  return { x: start.x, y: start.y, angle: Math.atan2(start.tangentY, start.tangentX) };
+}
+
+// Keep a point inside the walls. Returns the corrected point and whether it hit.
+export function constrainToTrack(geometry: TrackGeometry, x: number, y: number): { x: number; y: number; hitWall: boolean; position: TrackPosition } {
+  const position = locateOnTrack(geometry, x, y);
+  if (position.surface !== 'wall') return { x, y, hitWall: false, position };
+
+  // Pull back along the line to the nearest centerline point, just inside the wall
+  const fromCenter = Math.abs(position.offset);
+  const limit = getWallOffset(geometry) - 1;
+  const clampedX = position.x + ((x - position.x) / fromCenter) * limit;
+  const clampedY = position.y + ((y - position.y) / fromCenter) * limit;
+  return {
+    x: clampedX,
+    y: clampedY,
+    hitWall: true,
+    position: { ...position, offset: Math.sign(position.offset) * limit, surface: 'runoff' }
+  };
+}
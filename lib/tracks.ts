@@ -1,3 +1,5 @@
+import { formatSeed, parseSeed } from './rng';
+
 export interface Checkpoint {
   x: number;
   y: number;
@@ -23,22 +25,37 @@ export interface Shortcut {
   difficulty: 'easy' | 'medium' | 'hard';
 }
 
+// One recorded sample of a car's position, for ghosts
+export interface GhostFrame {
+  x: number;
+  y: number;
+  angle: number;
+  timestamp: number; // Seconds since the start
+}
+
+export type TrackDifficulty = 'beginner' | 'intermediate' | 'expert';
+
+export const TRACK_DIFFICULTIES: TrackDifficulty[] = ['beginner', 'intermediate', 'expert'];
+
 export interface Track {
   id: string;
   name: string;
   description: string;
-  difficulty: 'beginner' | 'intermediate' | 'expert';
+  difficulty: TrackDifficulty;
   theme: 'neon-city' | 'sunset-highway' | 'midnight-mountain';
-  worldRecord: number; // In seconds
+  worldRecord: number; // In seconds; medal times are set from it (lib/driftMedals)
   unlockScore: number;
+  unlockMedals: number; // Medal total needed as well as unlockScore
 
   // Track layout
   width: number;
   height: number;
   laps: number;
 
-  // Racing line guide points (for visual aid)
+  // Control points of the circuit's centerline (closed spline, see trackGeometry)
   racingLine: { x: number; y: number }[];
+  roadWidth: number; // Drivable width of the road
+  runoffWidth: number; // Slow run-off on each side of the road before the walls
 
   // Checkpoints for timing splits
   checkpoints: Checkpoint[];
@@ -58,6 +75,7 @@ export interface Track {
   };
 }
 
+// Records sit just under the best of ten runs by the ace CPU driver (lib/driftAI)
 export const TRACKS: Track[] = [
   {
     id: 'neon-streets',
@@ -65,11 +83,14 @@ export const TRACKS: Track[] = [
     description: 'Downtown drift through glowing city blocks',
     difficulty: 'beginner',
     theme: 'neon-city',
-    worldRecord: 42.5,
+    worldRecord: 11.0,
     unlockScore: 0,
+    unlockMedals: 0,
     width: 1200,
     height: 800,
     laps: 3,
+    roadWidth: 130,
+    runoffWidth: 30,
 
     racingLine: [
       { x: 100, y: 400 },
@@ -115,11 +136,14 @@ export const TRACKS: Track[] = [
     description: 'High-speed coastal highway with sweeping curves',
     difficulty: 'intermediate',
     theme: 'sunset-highway',
-    worldRecord: 38.2,
+    worldRecord: 14.4,
     unlockScore: 5000,
+    unlockMedals: 3,
     width: 1400,
     height: 900,
     laps: 3,
+    roadWidth: 120,
+    runoffWidth: 35,
 
     racingLine: [
       { x: 100, y: 450 },
@@ -169,11 +193,14 @@ export const TRACKS: Track[] = [
     description: 'Treacherous mountain pass with hairpin turns',
     difficulty: 'expert',
     theme: 'midnight-mountain',
-    worldRecord: 45.8,
+    worldRecord: 14.7,
     unlockScore: 15000,
+    unlockMedals: 6,
     width: 1600,
     height: 1000,
     laps: 3,
+    roadWidth: 100,
+    runoffWidth: 30,
 
     racingLine: [
       { x: 150, y: 500 },
@@ -231,6 +258,23 @@ export function getTrackById(id: string): Track | undefined {
   return TRACKS.find(track => track.id === id);
 }
 
-export function getUnlockedTracks(playerScore: number): Track[] {
-  return TRACKS.filter(track => track.unlockScore <= playerScore);
+// Built-in tracks open up on lifetime points and Drift Attack medals together
+export function getUnlockedTracks(playerScore: number, medalTotal: number): Track[] {
+  return TRACKS.filter(track => track.unlockScore <= playerScore && track.unlockMedals <= medalTotal);
+}
+
+// Generated tracks (lib/trackGenerator.ts) are identified by their seed and
+// difficulty, e.g. "gen-expert-1A2B3C4D"
+const GENERATED_PREFIX = 'gen';
+
+export function getGeneratedTrackId(seed: number, difficulty: TrackDifficulty): string {
+  return `${GENERATED_PREFIX}-${difficulty}-${formatSeed(seed)}`;
+}
+
+export function parseGeneratedTrackId(id: string): { seed: number; difficulty: TrackDifficulty } | null {
+  const [prefix, difficulty, seedText, ...rest] = id.split('-');
+  const seed = parseSeed(seedText ?? '');
+  if (prefix !== GENERATED_PREFIX || rest.length > 0 || seed === null) return null;
+  if (!TRACK_DIFFICULTIES.includes(difficulty as TrackDifficulty)) return null;
+  return { seed, difficulty: difficulty as TrackDifficulty };
 }
@@ -0,0 +1,126 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { createClient } from '@supabase/supabase-js';
+import {
+  VerificationResult,
+  verifyRacingSubmission,
+  verifyDailyChallengeSubmission,
+  verifyEliminationSubmission,
+  verifyDriftSubmission
+} from '../lib/scoreVerification';
+
+// Score verification service. Stands in for a Supabase edge function: the game
+// POSTs submissions to /submit/<table>, we re-check them and only then insert
+// with the service role key (anonymous inserts are disabled by score_verification.sql).
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run verify-server
+
+const PORT = Number(process.env.PORT || 8787);
+const MAX_BODY_BYTES = 2 * 1024 * 1024;
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set');
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+// Each table gets its own verifier and the columns it may write
+const VERIFIERS: Record<string, { verify: (entry: Record<string, unknown>) => VerificationResult; columns: string[] }> = {
+  racing_leaderboard: {
+    verify: verifyRacingSubmission,
+    columns: ['name', 'score', 'rank_title', 'ai_comment', 'replay', 'client_submission_id']
+  },
+  daily_challenge_leaderboard: {
+    // Called without the clock argument, so it checks against today
+    verify: (entry: Parameters<typeof verifyDailyChallengeSubmission>[0]) => verifyDailyChallengeSubmission(entry),
+    columns: ['name', 'score', 'rank_title', 'ai_comment', 'challenge_date', 'seed', 'theme_id', 'character_used', 'replay', 'client_submission_id']
+  },
+  elimination_leaderboard: {
+    verify: verifyEliminationSubmission,
+    columns: ['name', 'score', 'placement', 'total_fighters', 'fighter_used', 'client_submission_id']
+  },
+  drift_leaderboard: {
+    verify: verifyDriftSubmission,
+    columns: ['name', 'character_used', 'track_id', 'total_time', 'lap_times', 'perfect_laps', 'ghost_data', 'car_class', 'car_setup', 'client_submission_id']
+  }
+};
+
+// Submissions are JSON objects; null, numbers and arrays never reach a verifier
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type'
+  });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new Error('Payload too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return sendJson(res, 200, {});
+
+  const match = /^\/submit\/([a-z_]+)$/.exec(req.url || '');
+  const verifier = match && VERIFIERS[match[1]];
+  if (req.method !== 'POST' || !match || !verifier) {
+    return sendJson(res, 404, { error: 'Not found' });
+  }
+
+  let entry: unknown;
+  try {
+    entry = JSON.parse(await readBody(req));
+  } catch (error: unknown) {
+    return sendJson(res, 400, { error: error instanceof Error ? error.message : 'Invalid JSON' });
+  }
+  if (!isPlainObject(entry)) {
+    return sendJson(res, 400, { error: 'Submission must be a JSON object' });
+  }
+
+  // A verifier or the database throwing must not take the service down
+  try {
+    const result = verifier.verify(entry);
+    if (!result.ok) {
+      console.warn(`Rejected ${match[1]} submission: ${result.reason}`);
+      return sendJson(res, 422, { error: result.reason });
+    }
+
+    const row = Object.fromEntries(verifier.columns.filter(c => c in entry).map(c => [c, entry[c]]));
+    // Retried submissions carry the same client_submission_id and are ignored
+    const { data, error } = await supabase
+      .from(match[1])
+      .upsert([row], { onConflict: 'client_submission_id', ignoreDuplicates: true })
+      .select();
+    if (error) {
+      console.error(`Error saving ${match[1]} submission:`, error);
+      return sendJson(res, 500, { error: error.message });
+    }
+
+    sendJson(res, 201, { data });
+  } catch (error: unknown) {
+    console.error(`Error handling ${match[1]} submission:`, error);
+    sendJson(res, 500, { error: 'Internal error' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Score verifier listening on http://localhost:${PORT}`);
+});
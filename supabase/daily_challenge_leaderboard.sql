@@ -0,0 +1,42 @@
+-- Daily Challenge Leaderboard Table
+-- One board per UTC day: every run on a given date shares the same seed, theme and driver
+
+CREATE TABLE IF NOT EXISTS daily_challenge_leaderboard (
+  id BIGSERIAL PRIMARY KEY,
+
+  -- Player info
+  name TEXT NOT NULL,
+  score INTEGER NOT NULL,
+  rank_title TEXT,
+  ai_comment TEXT,
+
+  -- Challenge info
+  challenge_date DATE NOT NULL, -- UTC day the run belongs to
+  seed BIGINT NOT NULL, -- Run seed, derived from the date
+  theme_id TEXT NOT NULL,
+  character_used TEXT NOT NULL,
+
+  -- Metadata
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT valid_daily_score CHECK (score >= 0)
+);
+
+-- Index for leaderboard queries (per day, sorted by score)
+CREATE INDEX IF NOT EXISTS idx_daily_challenge_date_score
+  ON daily_challenge_leaderboard(challenge_date, score DESC);
+
+-- Enable Row Level Security
+ALTER TABLE daily_challenge_leaderboard ENABLE ROW LEVEL SECURITY;
+
+-- Public read policy
+CREATE POLICY "Daily challenge leaderboard is publicly readable"
+  ON daily_challenge_leaderboard FOR SELECT
+  USING (true);
+
+-- Public insert policy (anyone can submit scores)
+CREATE POLICY "Anyone can submit daily challenge scores"
+  ON daily_challenge_leaderboard FOR INSERT
+  WITH CHECK (true);
+
+COMMENT ON TABLE daily_challenge_leaderboard IS 'Stores Daily Challenge racing scores, one leaderboard per challenge_date';
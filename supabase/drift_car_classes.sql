@@ -0,0 +1,13 @@
+-- Drift Attack Car Classes
+-- Times record the car class and tuning they were set with, so rankings can be
+-- filtered by class. Rows from before this have no class and count as the grip car.
+
+ALTER TABLE drift_leaderboard ADD COLUMN IF NOT EXISTS car_class TEXT;
+ALTER TABLE drift_leaderboard ADD COLUMN IF NOT EXISTS car_setup JSONB; -- {carClass, steering, grip, boost}, see lib/driftCar.ts
+
+-- Index for per-class leaderboard queries
+CREATE INDEX IF NOT EXISTS idx_drift_leaderboard_track_class_time
+  ON drift_leaderboard(track_id, car_class, total_time ASC);
+
+COMMENT ON COLUMN drift_leaderboard.car_class IS 'grip, drift or heavy; NULL for times set before car classes (grip car)';
+COMMENT ON COLUMN drift_leaderboard.car_setup IS 'Tuning used for the run: {carClass, steering, grip, boost}, each slider -3 to 3';
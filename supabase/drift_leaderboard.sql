@@ -17,7 +17,7 @@ CREATE TABLE IF NOT EXISTS drift_leaderboard (
   perfect_laps INTEGER DEFAULT 0,
 
   -- Ghost data for replay
-  ghost_data JSONB, -- Array of position frames: [{x: 100, y: 200, angle: 1.5, timestamp: 0.016}, ...]
+  ghost_data JSONB, -- Compact ghost string ("g1:...", see lib/ghost.ts); older rows hold [{x, y, angle, timestamp}, ...]
 
   -- Metadata
   created_at TIMESTAMPTZ DEFAULT NOW(),
@@ -49,5 +49,5 @@ CREATE POLICY "Anyone can submit drift times"
 
 -- Optional: Add a comment for documentation
 COMMENT ON TABLE drift_leaderboard IS 'Stores time attack records for Drift Attack mode, including lap times and ghost replay data';
-COMMENT ON COLUMN drift_leaderboard.ghost_data IS 'JSON array of position frames for ghost replay: [{x, y, angle, timestamp}, ...]';
+COMMENT ON COLUMN drift_leaderboard.ghost_data IS 'Ghost replay: compact encoded string (g1:...), or a JSON array of {x, y, angle, timestamp} frames for older rows';
 COMMENT ON COLUMN drift_leaderboard.lap_times IS 'JSON array of lap time records: [{lap, time, isPerfect}, ...]';
@@ -0,0 +1,16 @@
+-- Score Verification
+-- Run after the leaderboard tables exist. Submissions then go through the score
+-- verifier (server/verifyScoreServer.ts), which inserts with the service role key.
+
+-- Racing runs carry their input replay so the verifier can re-simulate them
+ALTER TABLE racing_leaderboard ADD COLUMN IF NOT EXISTS replay TEXT;
+ALTER TABLE daily_challenge_leaderboard ADD COLUMN IF NOT EXISTS replay TEXT;
+
+-- Remove anonymous inserts; the service role bypasses RLS
+DROP POLICY IF EXISTS "Anyone can add racing scores" ON racing_leaderboard;
+DROP POLICY IF EXISTS "Anyone can submit daily challenge scores" ON daily_challenge_leaderboard;
+DROP POLICY IF EXISTS "Anyone can add elimination scores" ON elimination_leaderboard;
+DROP POLICY IF EXISTS "Anyone can submit drift times" ON drift_leaderboard;
+
+COMMENT ON COLUMN racing_leaderboard.replay IS 'Serialized input replay, re-simulated by the score verifier';
+COMMENT ON COLUMN daily_challenge_leaderboard.replay IS 'Serialized input replay, re-simulated by the score verifier';
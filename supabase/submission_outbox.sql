@@ -0,0 +1,21 @@
+-- Submission Deduplication
+-- The game queues failed leaderboard submissions and retries them. Each entry
+-- carries a client-generated id; the unique index turns a repeated retry into a no-op.
+
+ALTER TABLE racing_leaderboard ADD COLUMN IF NOT EXISTS client_submission_id TEXT;
+ALTER TABLE daily_challenge_leaderboard ADD COLUMN IF NOT EXISTS client_submission_id TEXT;
+ALTER TABLE elimination_leaderboard ADD COLUMN IF NOT EXISTS client_submission_id TEXT;
+ALTER TABLE drift_leaderboard ADD COLUMN IF NOT EXISTS client_submission_id TEXT;
+ALTER TABLE flappy_bird_leaderboard ADD COLUMN IF NOT EXISTS client_submission_id TEXT;
+
+-- Required by the upsert ... ON CONFLICT (client_submission_id) DO NOTHING inserts
+CREATE UNIQUE INDEX IF NOT EXISTS idx_racing_client_submission
+  ON racing_leaderboard(client_submission_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_daily_challenge_client_submission
+  ON daily_challenge_leaderboard(client_submission_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_elimination_client_submission
+  ON elimination_leaderboard(client_submission_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_drift_client_submission
+  ON drift_leaderboard(client_submission_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_flappy_bird_client_submission
+  ON flappy_bird_leaderboard(client_submission_id);
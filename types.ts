@@ -6,7 +6,13 @@ export enum GameState {
   PLAYING,
   GAME_OVER,
   LEADERBOARD,
-  AI_ELIMINATION
+  AI_ELIMINATION,
+  REPLAY,
+  TRACK_SELECTION,
+  DRIFT_ATTACK,
+  TRACK_EDITOR,
+  DRIFT_TUNING,
+  DRIFT_CHAMPIONSHIP
 }
 
 export type ThemeId = 'midnight' | 'vaporwave' | 'outback';
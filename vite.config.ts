@@ -13,7 +13,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.SCORE_VERIFIER_URL': JSON.stringify(env.SCORE_VERIFIER_URL),
+        'process.env.STORAGE_BACKEND': JSON.stringify(env.STORAGE_BACKEND)
       },
       resolve: {
         alias: {